@@ -1,22 +1,153 @@
-import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Button, Input } from '@/components/ui';
+import { HistoryFilters, PosterHistoryCard } from '@/components/history';
+import { SyncStatusBanner } from '@/components/sync';
+import { usePosterHistory } from '@/lib/hooks';
+import {
+  DEFAULT_FILTERS,
+  countActiveFilters,
+  filterPosters,
+  groupPosters,
+  parseFilters,
+  serializeFilters,
+  type PosterFilters,
+} from '@/lib/history';
 import { Colors, Spacing, Typography } from '@/constants';
 
 export default function HistoryScreen() {
+  const { items, profiles, isLoading, error, refetch } = usePosterHistory();
+  const params = useLocalSearchParams();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Filters live in the query params so a filtered view can be deep-linked
+  const filters = useMemo(() => parseFilters(params), [params]);
+  const setFilters = (next: PosterFilters) => router.setParams(serializeFilters(next));
+
+  const groups = useMemo(
+    () => groupPosters(filterPosters(items, filters), filters.groupBy),
+    [items, filters]
+  );
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = activeFilterCount > 0 || filters.query.trim().length > 0;
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    void refetch().finally(() => setIsRefreshing(false));
+  };
+
+  if (isLoading && items.length === 0) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error && items.length === 0) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>Failed to load posters</Text>
+          <Button onPress={() => void refetch()}>Try Again</Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={Colors.primary}
+          />
+        }
       >
         <Text style={styles.title}>History</Text>
+        <SyncStatusBanner />
 
-        <View style={styles.emptyState}>
-          <Text style={styles.emptyTitle}>No posters yet</Text>
-          <Text style={styles.emptyDescription}>
-            Your created posters will appear here
-          </Text>
-        </View>
+        {items.length > 0 && (
+          <>
+            <View style={styles.searchRow}>
+              <Input
+                placeholder="Search events or organizers..."
+                value={filters.query}
+                onChangeText={(query) => setFilters({ ...filters, query })}
+                autoCapitalize="none"
+                autoCorrect={false}
+                containerStyle={styles.searchInput}
+              />
+              <Button
+                variant={showFilters ? 'primary' : 'secondary'}
+                size="sm"
+                onPress={() => setShowFilters((visible) => !visible)}
+                style={styles.filterButton}
+              >
+                {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+              </Button>
+            </View>
+
+            {showFilters && (
+              <HistoryFilters filters={filters} profiles={profiles} onChange={setFilters} />
+            )}
+          </>
+        )}
+
+        {items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No posters yet</Text>
+            <Text style={styles.emptyDescription}>
+              Your created posters will appear here
+            </Text>
+          </View>
+        ) : groups.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No matching posters</Text>
+            <Text style={styles.emptyDescription}>Try a different search or filter</Text>
+            {isFiltered && (
+              <View style={styles.emptyAction}>
+                <Button variant="secondary" onPress={() => setFilters(DEFAULT_FILTERS)}>
+                  Clear Filters
+                </Button>
+              </View>
+            )}
+          </View>
+        ) : (
+          groups.map((group) => (
+            <View key={group.key} style={styles.group}>
+              {group.title ? (
+                <Text style={styles.groupTitle}>
+                  {group.title}
+                  <Text style={styles.groupCount}> · {group.items.length}</Text>
+                </Text>
+              ) : null}
+              {group.items.map((item) => (
+                <PosterHistoryCard
+                  key={item.poster.id}
+                  item={item}
+                  onPress={() => router.push(`/poster/${item.poster.id}`)}
+                />
+              ))}
+            </View>
+          ))
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -27,6 +158,18 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  errorText: {
+    ...Typography.body,
+    color: Colors.danger,
+    textAlign: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -38,6 +181,28 @@ const styles = StyleSheet.create({
     ...Typography.h1,
     marginBottom: Spacing.xl,
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  filterButton: {
+    marginTop: 6,
+  },
+  group: {
+    marginBottom: Spacing.md,
+  },
+  groupTitle: {
+    ...Typography.h3,
+    marginBottom: Spacing.sm,
+  },
+  groupCount: {
+    color: Colors.muted,
+    fontWeight: '400',
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
@@ -54,4 +219,7 @@ const styles = StyleSheet.create({
     color: Colors.muted,
     textAlign: 'center',
   },
+  emptyAction: {
+    marginTop: Spacing.lg,
+  },
 });
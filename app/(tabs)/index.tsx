@@ -13,11 +13,18 @@ import { router } from 'expo-router';
 import { AsyncSkia } from '@/components/async-skia';
 import { Button, Input, Card } from '@/components/ui';
 import { ProfileSelector, ProfileFormModal } from '@/components/profiles';
+import { PosterThumbnail } from '@/components/poster';
+import { SyncStatusBanner } from '@/components/sync';
+import { getPosterContent, getPosterDate, getPosterTitle } from '@/components/history';
+import { API_CONFIG } from '@/lib/api';
 import { useProfiles } from '@/lib/hooks/useProfiles';
-import { usePosters } from '@/lib/hooks/usePosters';
+import { usePosterHistory, type PosterHistoryItem } from '@/lib/hooks/usePosterHistory';
 import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
-import type { Profile, Poster, CreateProfileDto, UpdateProfileDto } from '@/types';
+import type { Profile, CreateProfileDto, UpdateProfileDto } from '@/types';
+
+const POSTER_CARD_WIDTH = 160;
+const POSTER_IMAGE_HEIGHT = 120;
 
 export default function HomeScreen() {
   const profile = usePosterCreationStore((s) => s.profile);
@@ -26,7 +33,7 @@ export default function HomeScreen() {
   const reset = usePosterCreationStore((s) => s.reset);
 
   const { profiles, createProfile } = useProfiles();
-  const { posters, isLoading: postersLoading } = usePosters(profile?.id);
+  const { items: posters, isLoading: postersLoading } = usePosterHistory(profile?.id);
 
   const [eventUrl, setEventUrlLocal] = useState('');
   const [showProfileSelector, setShowProfileSelector] = useState(false);
@@ -75,8 +82,8 @@ export default function HomeScreen() {
     router.push('/(tabs)/history');
   };
 
-  const handlePosterPress = (_poster: Poster) => {
-    // TODO: Navigate to poster detail
+  const handlePosterPress = ({ poster }: PosterHistoryItem) => {
+    router.push(`/poster/${poster.id}`);
   };
 
   const recentPosters = posters.slice(0, 5);
@@ -100,13 +107,21 @@ export default function HomeScreen() {
               <View style={styles.logoSquare} />
               <View style={styles.logoSquareOverlap} />
             </View>
-            <Text style={styles.title}>MeetMeAt</Text>
+            {/* Hidden entry to the developer settings */}
+            <Text
+              style={styles.title}
+              onLongPress={API_CONFIG.allowDevSettings ? () => router.push('/developer') : undefined}
+            >
+              MeetMeAt
+            </Text>
           </View>
           <Pressable style={styles.bellButton}>
             <Text style={styles.bellIcon}>○</Text>
           </Pressable>
         </View>
 
+        <SyncStatusBanner />
+
         {/* Quick Start Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Quick Start</Text>
@@ -211,23 +226,25 @@ export default function HomeScreen() {
               showsHorizontalScrollIndicator={false}
               contentContainerStyle={styles.postersList}
             >
-              {recentPosters.map((poster) => (
+              {recentPosters.map((item) => (
                 <Pressable
-                  key={poster.id}
+                  key={item.poster.id}
                   style={styles.posterCard}
-                  onPress={() => handlePosterPress(poster)}
+                  onPress={() => handlePosterPress(item)}
                 >
                   <View style={styles.posterImage}>
-                    <View style={styles.posterPlaceholder}>
-                      <Text style={styles.posterPlaceholderText}>P</Text>
-                    </View>
+                    <PosterThumbnail
+                      width={POSTER_CARD_WIDTH}
+                      height={POSTER_IMAGE_HEIGHT}
+                      {...getPosterContent(item)}
+                    />
                   </View>
                   <View style={styles.posterInfo}>
                     <Text style={styles.posterTitle} numberOfLines={1}>
-                      Event Poster
+                      {getPosterTitle(item)}
                     </Text>
                     <Text style={styles.posterSubtitle} numberOfLines={1}>
-                      {new Date(poster.createdAt).toLocaleDateString()}
+                      {getPosterDate(item)}
                     </Text>
                   </View>
                 </Pressable>
@@ -427,7 +444,7 @@ const styles = StyleSheet.create({
     gap: Spacing.md,
   },
   posterCard: {
-    width: 160,
+    width: POSTER_CARD_WIDTH,
     borderRadius: BorderRadius.md,
     overflow: 'hidden',
     backgroundColor: Colors.background,
@@ -439,16 +456,8 @@ const styles = StyleSheet.create({
   },
   posterImage: {
     width: '100%',
-    height: 120,
-    backgroundColor: Colors.primary,
-  },
-  posterPlaceholder: {
-    flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  posterPlaceholderText: {
-    fontSize: 32,
+    height: POSTER_IMAGE_HEIGHT,
+    backgroundColor: Colors.inputBg,
   },
   posterInfo: {
     padding: Spacing.sm,
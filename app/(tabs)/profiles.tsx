@@ -11,7 +11,11 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Button } from '@/components/ui';
 import { ProfileCard, ProfileFormModal } from '@/components/profiles';
+import { SyncStatusBanner } from '@/components/sync';
+import { getErrorMessage } from '@/lib/api';
+import { signOut } from '@/lib/auth';
 import { useProfiles } from '@/lib/hooks';
+import { useAuthUser } from '@/lib/stores/authStore';
 import { Colors, Spacing, Typography } from '@/constants';
 import type { Profile, CreateProfileDto, UpdateProfileDto } from '@/types';
 
@@ -29,6 +33,7 @@ export default function ProfilesScreen() {
     isUpdating,
     isDeleting,
   } = useProfiles();
+  const user = useAuthUser();
 
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
@@ -72,16 +77,24 @@ export default function ProfilesScreen() {
   };
 
   const handleSave = async (data: CreateProfileDto | UpdateProfileDto) => {
-    try {
-      if (selectedProfile) {
-        await updateProfile(selectedProfile.id, data);
-      } else {
-        await createProfile(data as CreateProfileDto);
-      }
-      setModalVisible(false);
-    } catch {
-      Alert.alert('Error', 'Failed to save profile. Please try again.');
+    // Failures are shown by the form
+    if (selectedProfile) {
+      await updateProfile(selectedProfile.id, data);
+    } else {
+      await createProfile(data as CreateProfileDto);
     }
+    setModalVisible(false);
+  };
+
+  const handleSignOut = () => {
+    Alert.alert(
+      'Sign Out',
+      'Changes that have not synced yet will be lost on this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => void signOut() },
+      ]
+    );
   };
 
   const handleDelete = () => {
@@ -98,7 +111,9 @@ export default function ProfilesScreen() {
           onPress: () => {
             deleteProfile(selectedProfile.id)
               .then(() => setModalVisible(false))
-              .catch(() => Alert.alert('Error', 'Failed to delete profile.'));
+              .catch((err: unknown) =>
+                Alert.alert('Error', getErrorMessage(err, 'Failed to delete profile.'))
+              );
           },
         },
       ]
@@ -146,6 +161,7 @@ export default function ProfilesScreen() {
           />
         }
       >
+        <SyncStatusBanner />
         {profiles.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyTitle}>No profiles yet</Text>
@@ -166,6 +182,15 @@ export default function ProfilesScreen() {
             />
           ))
         )}
+
+        {user && (
+          <View style={styles.account}>
+            <Text style={styles.accountText}>Signed in as {user.email}</Text>
+            <Button variant="ghost" size="sm" onPress={handleSignOut}>
+              Sign Out
+            </Button>
+          </View>
+        )}
       </ScrollView>
 
       <ProfileFormModal
@@ -233,6 +258,15 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: Spacing.xl,
   },
+  account: {
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xl,
+  },
+  accountText: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
   emptyAction: {
     marginTop: Spacing.lg,
   },
@@ -1,8 +1,30 @@
+import { useEffect } from 'react';
 import { Stack } from 'expo-router';
-import { StatusBar } from 'react-native';
+import { ActivityIndicator, StatusBar, StyleSheet, View } from 'react-native';
+import { restoreSession } from '@/lib/auth';
+import { startOfflineSync } from '@/lib/offline';
+import { useAuthStatus } from '@/lib/stores/authStore';
 import { Colors } from '@/constants';
 
 export default function RootLayout() {
+  const authStatus = useAuthStatus();
+  const isSignedIn = authStatus === 'signedIn';
+
+  useEffect(() => {
+    void restoreSession();
+  }, []);
+
+  // Queued changes belong to the signed-in user
+  useEffect(() => (isSignedIn ? startOfflineSync() : undefined), [isSignedIn]);
+
+  if (authStatus === 'restoring') {
+    return (
+      <View style={styles.restoring}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
   return (
     <>
       <StatusBar barStyle="dark-content" backgroundColor={Colors.background} />
@@ -12,8 +34,44 @@ export default function RootLayout() {
           contentStyle: { backgroundColor: Colors.background },
         }}
       >
-        <Stack.Screen name="(tabs)" />
+        {/* Signed out, every app route redirects to sign-in */}
+        <Stack.Protected guard={isSignedIn}>
+          <Stack.Screen name="(tabs)" />
+          <Stack.Screen name="create" />
+          <Stack.Screen
+            name="poster/[id]"
+            options={{
+              headerShown: true,
+              title: 'Poster',
+              headerStyle: { backgroundColor: Colors.background },
+              headerTintColor: Colors.primary,
+              headerBackTitle: 'Back',
+            }}
+          />
+        </Stack.Protected>
+        <Stack.Protected guard={!isSignedIn}>
+          <Stack.Screen name="sign-in" />
+        </Stack.Protected>
+        <Stack.Screen
+          name="developer"
+          options={{
+            headerShown: true,
+            title: 'Developer Settings',
+            presentation: 'modal',
+            headerStyle: { backgroundColor: Colors.background },
+            headerTintColor: Colors.primary,
+          }}
+        />
       </Stack>
     </>
   );
 }
+
+const styles = StyleSheet.create({
+  restoring: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.background,
+  },
+});
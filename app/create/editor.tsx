@@ -10,30 +10,84 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
+import {
+  usePosterCreationStore,
+  getPosterUser,
+  useCanUndo,
+  useCanRedo,
+} from '@/lib/stores/posterCreationStore';
+import { getErrorMessage } from '@/lib/api';
 import { usePosters } from '@/lib/hooks';
 import { Button } from '@/components/ui';
 import { PosterCanvas } from '@/components/poster';
+import {
+  ColorSwatches,
+  ElementInspector,
+  ElementOverlay,
+  FILL_COLORS,
+  useHistoryShortcuts,
+  withSwatch,
+} from '@/components/editor';
 import { AsyncSkia } from '@/components/async-skia';
+import { SyncStatusBanner } from '@/components/sync';
+import {
+  applyTransform,
+  buildScene,
+  createBindings,
+  DESIGN_FRAME,
+  getBackgroundOverride,
+  getElementLayout,
+  getPalette,
+  getPosterAspect,
+  invertTransform,
+  OPTIONAL_ELEMENTS,
+  resolvePosterStyle,
+  type SceneRect,
+} from '@/lib/poster';
+import { getContrastColor } from '@/lib/skia';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
-import type { TemplateLayout } from '@/types';
+import { DEFAULT_TEMPLATE_ID, EXPORT_PRESETS } from '@/types';
+import type {
+  ExportPresetId,
+  ExportSize,
+  Poster,
+  TemplateElement,
+  TemplateElementType,
+  TemplateLayout,
+} from '@/types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const PREVIEW_WIDTH = SCREEN_WIDTH - Spacing.lg * 2;
 const PREVIEW_HEIGHT = PREVIEW_WIDTH * 1.2;
 
-const getTextColor = (bgColor: string): string => {
-  const hex = bgColor.replace('#', '');
-  const r = parseInt(hex.substring(0, 2), 16);
-  const g = parseInt(hex.substring(2, 4), 16);
-  const b = parseInt(hex.substring(4, 6), 16);
-  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-  return luminance > 0.5 ? '#1A1A2E' : '#FFFFFF';
+type PreviewTarget = 'poster' | ExportPresetId;
+
+interface PreviewOption {
+  id: PreviewTarget;
+  label: string;
+  size: ExportSize;
+}
+
+const PREVIEW_OPTIONS: PreviewOption[] = [
+  { id: 'poster', label: 'Poster', size: DESIGN_FRAME },
+  ...Object.values(EXPORT_PRESETS).map(({ id, name, size }) => ({ id, label: name, size })),
+];
+
+const OPTIONAL_ELEMENT_LABELS: Partial<Record<TemplateElementType, string>> = {
+  socials: 'Social Links',
+  qr: 'QR Code',
 };
 
-function SkiaFallback() {
+// Fit a platform size into the preview area, keeping its aspect ratio.
+// The safe zone is in percent, so it carries over unscaled
+const getPreviewSize = ({ width, height, safeZone }: ExportSize): ExportSize => {
+  const scale = Math.min(PREVIEW_WIDTH / width, PREVIEW_HEIGHT / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale), safeZone };
+};
+
+function SkiaFallback({ size }: { size: ExportSize }) {
   return (
-    <View style={[styles.posterPreview, styles.fallback]}>
+    <View style={[size, styles.fallback]}>
       <ActivityIndicator size="large" color={Colors.primary} />
       <Text style={styles.fallbackText}>Loading canvas...</Text>
     </View>
@@ -47,9 +101,22 @@ export default function EditorScreen() {
   const selectedTemplate = usePosterCreationStore((s) => s.selectedTemplate);
   const setSelectedTemplate = usePosterCreationStore((s) => s.setSelectedTemplate);
   const profile = usePosterCreationStore((s) => s.profile);
+  const customizations = usePosterCreationStore((s) => s.customizations);
+  const updateElement = usePosterCreationStore((s) => s.updateElement);
+  const resetElement = usePosterCreationStore((s) => s.resetElement);
+  const poster = usePosterCreationStore((s) => s.poster);
+  const setPoster = usePosterCreationStore((s) => s.setPoster);
+  const setBackgroundColor = usePosterCreationStore((s) => s.setBackgroundColor);
+  const undo = usePosterCreationStore((s) => s.undo);
+  const redo = usePosterCreationStore((s) => s.redo);
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
 
-  const { createPoster, isCreating } = usePosters();
+  const { createPoster, updatePoster, isCreating, isUpdating } = usePosters();
   const [error, setError] = useState<string | null>(null);
+  const [previewTarget, setPreviewTarget] = useState<PreviewTarget>('poster');
+  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<'save' | 'export' | null>(null);
 
   useEffect(() => {
     if (templates.length > 0 && !selectedTemplate) {
@@ -57,56 +124,216 @@ export default function EditorScreen() {
     }
   }, [templates, selectedTemplate, setSelectedTemplate]);
 
-  const handleExport = async () => {
+  // Element ids belong to a template, so drop the selection when it changes
+  useEffect(() => {
+    setSelectedElementId(null);
+  }, [selectedTemplate?.id]);
+
+  useHistoryShortcuts({ onUndo: undo, onRedo: redo });
+
+  const currentLayout: TemplateLayout = selectedTemplate?.design.layout ?? 'modern';
+  const posterUser = getPosterUser(userDetails, profile);
+  const previewOption =
+    PREVIEW_OPTIONS.find((option) => option.id === previewTarget) ?? PREVIEW_OPTIONS[0];
+  const previewSize = getPreviewSize(previewOption?.size ?? DESIGN_FRAME);
+
+  const style = resolvePosterStyle({
+    event,
+    layout: currentLayout,
+    design: selectedTemplate?.design,
+    customizations,
+  });
+  const scene = buildScene(
+    style,
+    createBindings(event, posterUser, getPalette(style)),
+    previewSize
+  );
+  const selectedElement = style.elements.find((element) => element.id === selectedElementId);
+  const backgroundOverride = getBackgroundOverride(customizations);
+  const isAddedElement = (id: string) =>
+    !style.templateElements.some((element) => element.id === id);
+  const addableElements = OPTIONAL_ELEMENTS.filter(
+    (optional) => !style.elements.some((element) => element.id === optional.id)
+  );
+  const socialLinks = posterUser.socialLinks ?? [];
+  const hasSocialLinks = socialLinks.length > 0;
+  // The QR code encodes LinkedIn by default, or the first link when there's none
+  const qrLink = socialLinks.find((link) => link.platform === 'linkedin') ?? socialLinks[0];
+
+  const handleAddElement = (element: TemplateElement) => {
+    updateElement(
+      element,
+      element.type === 'qr' && qrLink ? { content: `{{user.social.${qrLink.platform}}}` } : {}
+    );
+    setSelectedElementId(element.id);
+  };
+
+  // The overlay reports rects in preview pixels of the current (possibly reflowed)
+  // layout; customizations are stored in the template's own percentage space.
+  const handleElementChange = (id: string, rect: SceneRect) => {
+    const element = style.elements.find((el) => el.id === id);
+    if (!element) return;
+
+    const transform = getElementLayout(
+      style.templateElements,
+      getPosterAspect(previewSize),
+      previewSize.safeZone
+    )(element);
+    const { x, y, width, height } = applyTransform(
+      {
+        ...element.properties,
+        x: (rect.x / previewSize.width) * 100,
+        y: (rect.y / previewSize.height) * 100,
+        width: (rect.width / previewSize.width) * 100,
+        height: (rect.height / previewSize.height) * 100,
+      },
+      invertTransform(transform)
+    );
+    updateElement(element, { x, y, width, height });
+  };
+
+  const savePoster = async (): Promise<Poster | null> => {
     if (!profile && !userDetails) {
       setError('Missing user details');
-      return;
+      return null;
     }
     if (!event) {
       setError('Missing event');
-      return;
+      return null;
     }
 
+    const templateId = selectedTemplate?.id ?? DEFAULT_TEMPLATE_ID;
     try {
-      await createPoster({
-        profileId: profile?.id ?? 'temp-profile',
-        eventId: event.id,
-        templateId: selectedTemplate?.id ?? 'default',
-      });
-      router.push('/create/export');
+      setError(null);
+      const saved =
+        poster?.templateId === templateId
+          ? await updatePoster(poster.id, { customizations })
+          : await createPoster({
+              profileId: profile?.id ?? 'temp-profile',
+              eventId: event.id,
+              templateId,
+              customizations,
+            });
+      setPoster(saved);
+      return saved;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create poster');
+      setError(getErrorMessage(err, 'Failed to save poster'));
+      return null;
     }
   };
 
-  const currentLayout: TemplateLayout = selectedTemplate?.design.layout ?? 'modern';
-  const userName = userDetails?.name ?? profile?.name ?? 'Your Name';
-  const userTitle = userDetails?.title ?? profile?.title ?? 'Your Title';
-  const userCompany = userDetails?.company ?? profile?.company;
+  const handleSave = async () => {
+    setPendingAction('save');
+    await savePoster();
+  };
+
+  const handleExport = async () => {
+    setPendingAction('export');
+    const saved = await savePoster();
+    if (saved) {
+      router.push('/create/export');
+    }
+  };
+
+  const isSaving = isCreating || isUpdating;
 
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        scrollEnabled={!selectedElement}
+      >
+        <SyncStatusBanner />
+
+        <View style={styles.toolbar}>
+          <Button variant="ghost" size="sm" onPress={undo} disabled={!canUndo}>
+            Undo
+          </Button>
+          <Button variant="ghost" size="sm" onPress={redo} disabled={!canRedo}>
+            Redo
+          </Button>
+        </View>
+
         <View style={styles.preview}>
-          <View style={styles.posterContainer}>
-            <Suspense fallback={<SkiaFallback />}>
+          <View style={[styles.posterContainer, previewSize]}>
+            <Suspense fallback={<SkiaFallback size={previewSize} />}>
               <AsyncSkia />
               <PosterCanvas
-                width={PREVIEW_WIDTH}
-                height={PREVIEW_HEIGHT}
+                width={previewSize.width}
+                height={previewSize.height}
+                safeZone={previewSize.safeZone}
                 event={event}
-                user={{
-                  name: userName,
-                  title: userTitle,
-                  company: userCompany,
-                  photoUrl: profile?.avatarUrl,
-                }}
+                user={posterUser}
                 layout={currentLayout}
+                design={selectedTemplate?.design}
+                customizations={customizations}
               />
             </Suspense>
+            {previewSize.safeZone && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.safeZone,
+                  {
+                    top: `${previewSize.safeZone.top}%`,
+                    right: `${previewSize.safeZone.right}%`,
+                    bottom: `${previewSize.safeZone.bottom}%`,
+                    left: `${previewSize.safeZone.left}%`,
+                  },
+                ]}
+              />
+            )}
+            <ElementOverlay
+              width={previewSize.width}
+              height={previewSize.height}
+              scene={scene}
+              selectedId={selectedElementId}
+              onSelect={setSelectedElementId}
+              onChange={handleElementChange}
+            />
           </View>
         </View>
 
+        <View style={styles.previewSwitcher}>
+          {PREVIEW_OPTIONS.map((option) => {
+            const isSelected = option.id === previewTarget;
+            return (
+              <Pressable
+                key={option.id}
+                style={[styles.previewChip, isSelected && styles.previewChipSelected]}
+                onPress={() => setPreviewTarget(option.id)}
+              >
+                <Text style={[styles.previewChipText, isSelected && styles.previewChipTextSelected]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={styles.previewDimensions}>
+          {previewOption && previewOption.id !== 'poster'
+            ? `${previewOption.size.width} × ${previewOption.size.height}`
+            : 'Design layout'}
+        </Text>
+
+        {selectedElement && (
+          <ElementInspector
+            element={selectedElement}
+            displayText={scene.find((element) => element.id === selectedElement.id)?.text}
+            brandColor={style.primaryColor}
+            socialLinks={posterUser.socialLinks}
+            isCustomized={customizations.some((element) => element.id === selectedElement.id)}
+            isAdded={isAddedElement(selectedElement.id)}
+            onChange={(properties) => updateElement(selectedElement, properties)}
+            onReset={() => {
+              if (isAddedElement(selectedElement.id)) setSelectedElementId(null);
+              resetElement(selectedElement.id);
+            }}
+            onDone={() => setSelectedElementId(null)}
+          />
+        )}
+
         <View style={styles.templateSection}>
           <Text style={styles.sectionTitle}>Choose Template</Text>
           <ScrollView
@@ -131,7 +358,7 @@ export default function EditorScreen() {
                     ]}
                   >
                     <Text
-                      style={[styles.templateLayoutLabel, { color: getTextColor(bgColor) }]}
+                      style={[styles.templateLayoutLabel, { color: getContrastColor(bgColor) }]}
                     >
                       {layoutLabel}
                     </Text>
@@ -150,11 +377,63 @@ export default function EditorScreen() {
           </ScrollView>
         </View>
 
+        <View style={styles.backgroundSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Background</Text>
+            {backgroundOverride && (
+              <Button variant="ghost" size="sm" onPress={() => setBackgroundColor(null)}>
+                Use Template
+              </Button>
+            )}
+          </View>
+          <ColorSwatches
+            colors={withSwatch(FILL_COLORS, style.primaryColor)}
+            selected={style.backgroundColor}
+            onSelect={setBackgroundColor}
+          />
+        </View>
+
+        {addableElements.length > 0 && (
+          <View style={styles.addSection}>
+            <Text style={styles.sectionTitle}>Add to Poster</Text>
+            <View style={styles.addRow}>
+              {addableElements.map((element) => (
+                <Button
+                  key={element.id}
+                  variant="secondary"
+                  size="sm"
+                  onPress={() => handleAddElement(element)}
+                  disabled={!hasSocialLinks}
+                >
+                  {`+ ${OPTIONAL_ELEMENT_LABELS[element.type] ?? element.id}`}
+                </Button>
+              ))}
+            </View>
+            {!hasSocialLinks && (
+              <Text style={styles.addHint}>Add social links to your profile to use these</Text>
+            )}
+          </View>
+        )}
+
         {error && <Text style={styles.error}>{error}</Text>}
       </ScrollView>
 
       <View style={styles.footer}>
-        <Button onPress={() => void handleExport()} loading={isCreating} fullWidth>
+        <Button
+          variant="secondary"
+          onPress={() => void handleSave()}
+          loading={isSaving && pendingAction === 'save'}
+          disabled={isSaving}
+          style={styles.saveButton}
+        >
+          Save
+        </Button>
+        <Button
+          onPress={() => void handleExport()}
+          loading={isSaving && pendingAction === 'export'}
+          disabled={isSaving}
+          style={styles.exportButton}
+        >
           Export Poster
         </Button>
       </View>
@@ -173,6 +452,12 @@ const styles = StyleSheet.create({
   content: {
     padding: Spacing.lg,
   },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
   preview: {
     alignItems: 'center',
     marginBottom: Spacing.xl,
@@ -186,9 +471,42 @@ const styles = StyleSheet.create({
     shadowRadius: 12,
     elevation: 8,
   },
-  posterPreview: {
-    width: PREVIEW_WIDTH,
-    height: PREVIEW_HEIGHT,
+  safeZone: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.muted,
+  },
+  previewSwitcher: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+  previewChip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  previewChipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '08',
+  },
+  previewChipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  previewChipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  previewDimensions: {
+    ...Typography.caption,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
   },
   fallback: {
     backgroundColor: Colors.inputBg,
@@ -207,6 +525,27 @@ const styles = StyleSheet.create({
     ...Typography.h3,
     marginBottom: Spacing.sm,
   },
+  backgroundSection: {
+    marginBottom: Spacing.lg,
+  },
+  addSection: {
+    marginBottom: Spacing.lg,
+  },
+  addRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  addHint: {
+    ...Typography.caption,
+    color: Colors.muted,
+    marginTop: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   templateList: {
     gap: Spacing.sm,
   },
@@ -246,8 +585,16 @@ const styles = StyleSheet.create({
     marginTop: Spacing.md,
   },
   footer: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
     padding: Spacing.lg,
     borderTopWidth: 1,
     borderTopColor: Colors.border,
   },
+  saveButton: {
+    flex: 1,
+  },
+  exportButton: {
+    flex: 2,
+  },
 });
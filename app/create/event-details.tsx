@@ -12,6 +12,8 @@ export default function EventDetailsScreen() {
   const eventDetails = usePosterCreationStore((s) => s.eventDetails);
   const event = usePosterCreationStore((s) => s.event);
   const setEventDetails = usePosterCreationStore((s) => s.setEventDetails);
+  const eventFieldErrors = usePosterCreationStore((s) => s.eventFieldErrors);
+  const setEventFieldErrors = usePosterCreationStore((s) => s.setEventFieldErrors);
 
   const [name, setName] = useState(eventDetails?.name ?? event?.name ?? '');
   const [date, setDate] = useState(eventDetails?.date ?? '');
@@ -25,7 +27,7 @@ export default function EventDetailsScreen() {
   const [brandColor, setBrandColor] = useState(
     eventDetails?.brandColor ?? event?.brandColors?.primary ?? PRESET_COLORS[0]
   );
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>(() => eventFieldErrors ?? {});
 
   useEffect(() => {
     if (event) {
@@ -50,6 +52,7 @@ export default function EventDetailsScreen() {
   const handleNext = () => {
     if (!validate()) return;
 
+    setEventFieldErrors(null);
     setEventDetails({
       name: name.trim(),
       date: date.trim() || undefined,
@@ -86,6 +89,7 @@ export default function EventDetailsScreen() {
         placeholder="e.g., March 15-17, 2025"
         value={date}
         onChangeText={setDate}
+        error={errors.date}
       />
 
       <Input
@@ -93,11 +97,13 @@ export default function EventDetailsScreen() {
         placeholder="e.g., Amsterdam, Netherlands"
         value={location}
         onChangeText={setLocation}
+        error={errors.location}
         autoCapitalize="words"
       />
 
       <View style={styles.colorSection}>
         <Text style={styles.colorLabel}>Brand Color</Text>
+        {errors.brandColor && <Text style={styles.colorError}>{errors.brandColor}</Text>}
         <View style={styles.colorGrid}>
           {PRESET_COLORS.map((color) => (
             <Pressable
@@ -126,6 +132,11 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xs,
     color: Colors.text,
   },
+  colorError: {
+    ...Typography.caption,
+    color: Colors.danger,
+    marginBottom: Spacing.xs,
+  },
   colorGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1,66 +1,296 @@
 import { useState } from 'react';
-import { View, Text, Pressable, StyleSheet, Alert, Share } from 'react-native';
+import { View, Text, Pressable, StyleSheet, Alert, Image, ScrollView, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
-import { Button } from '@/components/ui';
+import { usePosterCreationStore, getPosterUser } from '@/lib/stores/posterCreationStore';
+import { Button, Input } from '@/components/ui';
+import { rasterizePoster, renderPosterPdf, renderPosterSvg } from '@/components/poster';
+import {
+  getExportBaseName,
+  getExportFileName,
+  getPrintLayout,
+  PRINT_BLEED_MM,
+  PRINT_SIZE_LIMITS_MM,
+  saveImage,
+  saveImages,
+  shareImage,
+  shareImages,
+  type ExportFile,
+  type RasterFormat,
+} from '@/lib/export';
+import { useBatchExport, usePosters, type BatchExportItem } from '@/lib/hooks';
+import { getErrorMessage, isCancelledError } from '@/lib/api';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
-import type { ExportPlatform } from '@/types';
-import { EXPORT_SIZES } from '@/types';
-
-interface PlatformOption {
-  id: ExportPlatform;
-  name: string;
-  dimensions: string;
-  icon: string;
+import type {
+  ExportPreset,
+  ExportPresetGroup,
+  ExportPresetId,
+  PrintPaper,
+  PrintSize,
+} from '@/types';
+import {
+  EXPORT_PRESETS,
+  EXPORT_PRESET_GROUP_NAMES,
+  PRINT_PAPER_NAMES,
+  PRINT_PAPER_SIZES,
+} from '@/types';
+
+const PRESET_ICONS: Record<ExportPresetId, string> = {
+  linkedin: 'in',
+  instagram: 'IG',
+  twitter: 'X',
+  facebook: 'f',
+  story: '▯',
+  linkedin_portrait: 'in',
+  x_header: 'X',
+  email_signature: '@',
+};
+
+const PRESETS = Object.values(EXPORT_PRESETS);
+const PRESET_GROUPS = Object.keys(EXPORT_PRESET_GROUP_NAMES) as ExportPresetGroup[];
+
+interface FormatOption {
+  /** SVG keeps text and images editable for design tools */
+  id: RasterFormat | 'svg';
+  label: string;
+  quality?: number;
 }
 
-const PLATFORMS: PlatformOption[] = [
-  { id: 'linkedin', name: 'LinkedIn', dimensions: '1200 × 627', icon: 'in' },
-  { id: 'instagram', name: 'Instagram', dimensions: '1080 × 1080', icon: 'IG' },
-  { id: 'twitter', name: 'Twitter/X', dimensions: '1200 × 675', icon: 'X' },
-  { id: 'facebook', name: 'Facebook', dimensions: '1200 × 630', icon: 'f' },
+const DEFAULT_FORMAT: FormatOption = { id: 'png', label: 'PNG' };
+
+const FORMATS: FormatOption[] = [
+  DEFAULT_FORMAT,
+  { id: 'jpeg', label: 'JPEG · High', quality: 95 },
+  { id: 'jpeg', label: 'JPEG · Small', quality: 75 },
+  { id: 'svg', label: 'SVG · Editable' },
 ];
 
+type ExportMode = 'single' | 'batch' | 'print';
+
+const MODE_LABELS: Record<ExportMode, string> = {
+  single: 'One Format',
+  batch: 'Several at Once',
+  print: 'Print PDF',
+};
+
+const MODE_SUBTITLES: Record<ExportMode, string> = {
+  single: 'Select the format to optimize your poster size',
+  batch: 'Select every format to export at once',
+  print: 'Get a print-ready PDF for booth displays and posters',
+};
+
+type PaperOption = PrintPaper | 'custom';
+
+const PAPER_OPTIONS: PaperOption[] = [
+  ...(Object.keys(PRINT_PAPER_NAMES) as PrintPaper[]),
+  'custom',
+];
+
+const formatMm = (mm: number) => String(Number(mm.toFixed(1)));
+
+const parseCustomSize = (width: string, height: string): PrintSize | string => {
+  const widthMm = Number(width);
+  const heightMm = Number(height);
+  const { min, max } = PRINT_SIZE_LIMITS_MM;
+  const isValid = (mm: number) => Number.isFinite(mm) && mm >= min && mm <= max;
+  if (!width.trim() || !height.trim() || !isValid(widthMm) || !isValid(heightMm)) {
+    return `Width and height must be between ${min} and ${max} mm`;
+  }
+  return { widthMm, heightMm };
+};
+
+// Where posters usually go together
+const DEFAULT_BATCH: ExportPresetId[] = ['linkedin', 'twitter', 'instagram'];
+
+const BATCH_STATUS_LABELS: Record<BatchExportItem['status'], string> = {
+  waiting: 'Waiting',
+  rendering: 'Rendering...',
+  recording: 'Saving to history...',
+  done: 'Ready',
+  failed: 'Failed',
+};
+
+const PREVIEW_HEIGHT = 44;
+
 export default function ExportScreen() {
   const eventDetails = usePosterCreationStore((s) => s.eventDetails);
+  const event = usePosterCreationStore((s) => s.event);
+  const userDetails = usePosterCreationStore((s) => s.userDetails);
+  const profile = usePosterCreationStore((s) => s.profile);
+  const selectedTemplate = usePosterCreationStore((s) => s.selectedTemplate);
+  const customizations = usePosterCreationStore((s) => s.customizations);
+  const poster = usePosterCreationStore((s) => s.poster);
   const reset = usePosterCreationStore((s) => s.reset);
 
-  const [selectedPlatform, setSelectedPlatform] = useState<ExportPlatform>('linkedin');
+  const [mode, setMode] = useState<ExportMode>('single');
+  const [selectedPreset, setSelectedPreset] = useState<ExportPresetId>('linkedin');
+  const [batchPresets, setBatchPresets] = useState<ExportPresetId[]>(DEFAULT_BATCH);
+  const [selectedFormat, setSelectedFormat] = useState(DEFAULT_FORMAT);
+  const [paper, setPaper] = useState<PaperOption>('a4');
+  const [customWidth, setCustomWidth] = useState(formatMm(PRINT_PAPER_SIZES.a4.widthMm));
+  const [customHeight, setCustomHeight] = useState(formatMm(PRINT_PAPER_SIZES.a4.heightMm));
+  const [bleed, setBleed] = useState(true);
+  const [cropMarks, setCropMarks] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const batch = useBatchExport();
+  const { exportPoster } = usePosters();
+
+  const content = {
+    event,
+    user: getPosterUser(userDetails, profile),
+    design: selectedTemplate?.design,
+    customizations,
+  };
+
+  const renderPoster = (preset: ExportPresetId = selectedPreset) => {
+    const { id, quality } = selectedFormat;
+    const { size } = EXPORT_PRESETS[preset];
+    return id === 'svg'
+      ? renderPosterSvg(content, size)
+      : rasterizePoster(content, size, { format: id, quality });
+  };
+
+  const printSize =
+    paper === 'custom' ? parseCustomSize(customWidth, customHeight) : PRINT_PAPER_SIZES[paper];
+  const printLayout =
+    typeof printSize === 'string' ? null : getPrintLayout({ size: printSize, bleed, cropMarks });
+
+  const eventName = eventDetails?.name ?? event?.name;
+  const fileName = getExportFileName([eventName, selectedPreset], selectedFormat.id);
+  const shareMessage = `I'm attending ${eventDetails?.name ?? 'an event'}! 🎉`;
+
+  const finish = () => {
+    reset();
+    router.replace('/(tabs)');
+  };
+
+  const toggleBatchPreset = (preset: ExportPresetId) => {
+    setBatchPresets((previous) =>
+      previous.includes(preset)
+        ? previous.filter((id) => id !== preset)
+        : // Keep the list order so files come out the same way every time
+          PRESETS.map((option) => option.id).filter((id) => id === preset || previous.includes(id))
+    );
+  };
+
+  // Renders every selected preset, then shares or saves the files together
+  const handleBatch = async (action: 'share' | 'save') => {
+    const setBusy = action === 'share' ? setIsExporting : setIsSaving;
+    setBusy(true);
+    let files: ExportFile[];
+    try {
+      files = await batch.run(batchPresets, {
+        posterId: poster?.id ?? null,
+        render: renderPoster,
+        fileName: (preset, image) => getExportFileName([eventName, preset], image.format),
+      });
+    } catch (err) {
+      setBusy(false);
+      if (!isCancelledError(err)) {
+        Alert.alert('Export Failed', 'Failed to export posters. Please try again.');
+      }
+      return;
+    }
+
+    if (files.length === 0) {
+      setBusy(false);
+      Alert.alert('Export Failed', 'None of the posters could be rendered. Please try again.');
+      return;
+    }
+
+    const archiveName = getExportBaseName([eventName, 'posters']);
+    try {
+      if (action === 'share') {
+        await shareImages(files, archiveName, shareMessage);
+      } else {
+        await saveImages(files, archiveName);
+      }
+    } catch {
+      Alert.alert(
+        action === 'share' ? 'Share Failed' : 'Save Failed',
+        `Your posters are ready but could not be ${action === 'share' ? 'shared' : 'saved'}. Please try again.`
+      );
+      return;
+    } finally {
+      setBusy(false);
+    }
+
+    const failed = batchPresets.length - files.length;
+    Alert.alert(
+      'Posters Ready!',
+      `${files.length} poster${files.length === 1 ? '' : 's'} exported` +
+        (failed > 0 ? `, ${failed} failed.` : '.'),
+      [{ text: 'Done', onPress: finish }]
+    );
+  };
+
+  const handlePrint = async (action: 'share' | 'save') => {
+    if (typeof printSize === 'string') return;
+    const setBusy = action === 'share' ? setIsExporting : setIsSaving;
+    setBusy(true);
+    try {
+      const pdf = await renderPosterPdf(content, { size: printSize, bleed, cropMarks });
+      const pdfName = getExportFileName([eventName, paper, 'print'], 'pdf');
+      if (action === 'share') {
+        await shareImage(pdf, pdfName, shareMessage);
+      } else {
+        await saveImage(pdf, pdfName);
+      }
+    } catch {
+      Alert.alert('Export Failed', 'Failed to create the PDF. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Record a single export on the poster, like batch exports, so History shows
+   * it. Resolves with why it couldn't be, or null; the image is kept either way.
+   */
+  const recordExport = async (preset: ExportPresetId): Promise<string | null> => {
+    const { platform } = EXPORT_PRESETS[preset];
+    if (!poster || !platform) return null;
+    try {
+      const format = preset === platform ? undefined : preset;
+      await exportPoster(poster.id, { platform, format });
+      return null;
+    } catch (err) {
+      return getErrorMessage(err, 'Could not record this export');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const image = await renderPoster();
+      const recording = recordExport(selectedPreset);
+      await saveImage(image, fileName);
+      await recording;
+    } catch {
+      Alert.alert('Save Failed', 'Failed to save poster. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   const handleExport = async () => {
     setIsExporting(true);
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const size = EXPORT_SIZES[selectedPlatform];
-      const message = `I'm attending ${eventDetails?.name ?? 'an event'}! 🎉`;
+      const image = await renderPoster();
+      const recording = recordExport(selectedPreset);
 
-      await Share.share({
-        message,
-        title: 'Share your poster',
-      });
+      await shareImage(image, fileName, shareMessage);
+      const recordError = await recording;
 
       Alert.alert(
         'Poster Ready!',
-        `Your ${size.width}×${size.height} poster for ${PLATFORMS.find((p) => p.id === selectedPlatform)?.name} is ready to share.`,
+        `Your ${image.width}×${image.height} poster for ${EXPORT_PRESETS[selectedPreset].name} is ready to share.` +
+          (recordError ? ` It wasn't saved to your history: ${recordError}` : ''),
         [
-          {
-            text: 'Create Another',
-            onPress: () => {
-              reset();
-              router.replace('/(tabs)');
-            },
-          },
-          {
-            text: 'Done',
-            onPress: () => {
-              reset();
-              router.replace('/(tabs)');
-            },
-          },
+          { text: 'Create Another', onPress: finish },
+          { text: 'Done', onPress: finish },
         ]
       );
     } catch {
@@ -70,60 +300,252 @@ export default function ExportScreen() {
     }
   };
 
+  const isBatch = mode === 'batch';
+  const isPrint = mode === 'print';
+  const isBusy = isExporting || isSaving;
+  // Nothing to export: no presets picked, or a custom print size out of range
+  const isEmpty = (isBatch && batchPresets.length === 0) || (isPrint && !printLayout);
+
+  const handleShare = () =>
+    void (isPrint ? handlePrint('share') : isBatch ? handleBatch('share') : handleExport());
+  const handleSaveToDevice = () =>
+    void (isPrint ? handlePrint('save') : isBatch ? handleBatch('save') : handleSave());
+
+  const renderBatchStatus = (preset: ExportPresetId) => {
+    const item = batch.items[preset];
+    if (!item) return null;
+    const { size } = EXPORT_PRESETS[preset];
+    return (
+      <View style={styles.batchStatus}>
+        {item.previewUri ? (
+          <Image
+            source={{ uri: item.previewUri }}
+            style={{ width: (PREVIEW_HEIGHT * size.width) / size.height, height: PREVIEW_HEIGHT }}
+            resizeMode="contain"
+          />
+        ) : null}
+        <Text
+          style={[
+            styles.batchStatusText,
+            item.status === 'done' && styles.batchStatusDone,
+            (item.status === 'failed' || !!item.error) && styles.batchStatusError,
+          ]}
+          numberOfLines={2}
+        >
+          {item.error && item.status === 'done'
+            ? `Ready, not saved to history: ${item.error}`
+            : (item.error ?? BATCH_STATUS_LABELS[item.status])}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderPresetCard = ({ id, name, size }: ExportPreset) => {
+    const isSelected = isBatch ? batchPresets.includes(id) : selectedPreset === id;
+    return (
+      <Pressable
+        key={id}
+        style={[styles.platformCard, isSelected && styles.platformSelected]}
+        onPress={() => (isBatch ? toggleBatchPreset(id) : setSelectedPreset(id))}
+        disabled={isBusy}
+      >
+        <View style={styles.platformRow}>
+          <View style={styles.platformIcon}>
+            <Text style={styles.platformIconText}>{PRESET_ICONS[id]}</Text>
+          </View>
+          <View style={styles.platformInfo}>
+            <Text style={styles.platformName}>{name}</Text>
+            <Text style={styles.platformDimensions}>
+              {size.width} × {size.height}
+              {size.safeZone ? ' · keeps text in the safe zone' : ''}
+            </Text>
+          </View>
+          <View
+            style={[
+              isBatch ? styles.checkbox : styles.radio,
+              isSelected && styles.radioSelected,
+              isBatch && isSelected && styles.checkboxSelected,
+            ]}
+          >
+            {isSelected &&
+              (isBatch ? (
+                <Text style={styles.checkmark}>✓</Text>
+              ) : (
+                <View style={styles.radioInner} />
+              ))}
+          </View>
+        </View>
+        {isBatch && renderBatchStatus(id)}
+      </Pressable>
+    );
+  };
+
+  const renderPrintOptions = () => (
+    <>
+      <Text style={styles.groupLabel}>PAPER SIZE</Text>
+      <View style={styles.formats}>
+        {PAPER_OPTIONS.map((option) => (
+          <Pressable
+            key={option}
+            style={[styles.formatChip, paper === option && styles.formatChipSelected]}
+            onPress={() => setPaper(option)}
+            disabled={isBusy}
+          >
+            <Text style={[styles.formatLabel, paper === option && styles.formatLabelSelected]}>
+              {option === 'custom' ? 'Custom' : PRINT_PAPER_NAMES[option]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {paper === 'custom' && (
+        <View style={styles.customSize}>
+          <Input
+            label="Width (mm)"
+            value={customWidth}
+            onChangeText={setCustomWidth}
+            keyboardType="decimal-pad"
+            containerStyle={styles.customSizeInput}
+          />
+          <Input
+            label="Height (mm)"
+            value={customHeight}
+            onChangeText={setCustomHeight}
+            keyboardType="decimal-pad"
+            containerStyle={styles.customSizeInput}
+          />
+        </View>
+      )}
+
+      <Text style={[styles.printSummary, !printLayout && styles.batchStatusError]}>
+        {typeof printSize === 'string'
+          ? printSize
+          : `${formatMm(printSize.widthMm)} × ${formatMm(printSize.heightMm)} mm` +
+            (printLayout
+              ? ` · ${printLayout.raster.width} × ${printLayout.raster.height} px at ${printLayout.dpi} DPI`
+              : '')}
+      </Text>
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>Bleed</Text>
+          <Text style={styles.switchHelper}>
+            Extend the background {PRINT_BLEED_MM} mm past the edge so no white shows after cutting
+          </Text>
+        </View>
+        <Switch
+          value={bleed}
+          onValueChange={setBleed}
+          disabled={isBusy}
+          trackColor={{ true: Colors.primary, false: Colors.border }}
+        />
+      </View>
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>Crop marks</Text>
+          <Text style={styles.switchHelper}>Show the print shop where to cut</Text>
+        </View>
+        <Switch
+          value={cropMarks}
+          onValueChange={setCropMarks}
+          disabled={isBusy}
+          trackColor={{ true: Colors.primary, false: Colors.border }}
+        />
+      </View>
+    </>
+  );
+
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
-      <View style={styles.content}>
+      <ScrollView style={styles.scroll} contentContainerStyle={styles.content}>
         <Text style={styles.title}>Export Poster</Text>
-        <Text style={styles.subtitle}>
-          Select the platform to optimize your poster size
-        </Text>
+        <Text style={styles.subtitle}>{MODE_SUBTITLES[mode]}</Text>
 
-        <View style={styles.platforms}>
-          {PLATFORMS.map((platform) => (
+        <View style={styles.modes}>
+          {(Object.keys(MODE_LABELS) as ExportMode[]).map((option) => (
             <Pressable
-              key={platform.id}
-              style={[
-                styles.platformCard,
-                selectedPlatform === platform.id && styles.platformSelected,
-              ]}
-              onPress={() => setSelectedPlatform(platform.id)}
+              key={option}
+              style={[styles.modeOption, mode === option && styles.modeOptionSelected]}
+              onPress={() => setMode(option)}
+              disabled={isBusy}
             >
-              <View style={styles.platformIcon}>
-                <Text style={styles.platformIconText}>{platform.icon}</Text>
-              </View>
-              <View style={styles.platformInfo}>
-                <Text style={styles.platformName}>{platform.name}</Text>
-                <Text style={styles.platformDimensions}>{platform.dimensions}</Text>
-              </View>
-              <View
-                style={[
-                  styles.radio,
-                  selectedPlatform === platform.id && styles.radioSelected,
-                ]}
-              >
-                {selectedPlatform === platform.id && (
-                  <View style={styles.radioInner} />
-                )}
-              </View>
+              <Text style={[styles.modeLabel, mode === option && styles.modeLabelSelected]}>
+                {MODE_LABELS[option]}
+              </Text>
             </Pressable>
           ))}
         </View>
-      </View>
+
+        {isPrint ? (
+          renderPrintOptions()
+        ) : (
+          <>
+            {PRESET_GROUPS.map((group) => (
+              <View key={group}>
+                <Text style={styles.groupLabel}>
+                  {EXPORT_PRESET_GROUP_NAMES[group].toUpperCase()}
+                </Text>
+                <View style={styles.platforms}>
+                  {PRESETS.filter((preset) => preset.group === group).map(renderPresetCard)}
+                </View>
+              </View>
+            ))}
+
+            <Text style={styles.sectionLabel}>FILE FORMAT</Text>
+            <View style={styles.formats}>
+              {FORMATS.map((format) => (
+                <Pressable
+                  key={format.label}
+                  style={[
+                    styles.formatChip,
+                    selectedFormat === format && styles.formatChipSelected,
+                  ]}
+                  onPress={() => setSelectedFormat(format)}
+                  disabled={isBusy}
+                >
+                  <Text
+                    style={[
+                      styles.formatLabel,
+                      selectedFormat === format && styles.formatLabelSelected,
+                    ]}
+                  >
+                    {format.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Button
+          variant="ghost"
+          onPress={handleSaveToDevice}
+          loading={isSaving}
+          disabled={isExporting || isEmpty}
+        >
+          {isBatch ? 'Save All to Device' : isPrint ? 'Save PDF to Device' : 'Save to Device'}
+        </Button>
+      </ScrollView>
 
       <View style={styles.footer}>
         <Button
           variant="secondary"
-          onPress={() => router.back()}
+          onPress={() => (batch.isRunning ? batch.cancel() : router.back())}
           style={styles.backButton}
         >
-          Back
+          {batch.isRunning ? 'Stop' : 'Back'}
         </Button>
         <Button
-          onPress={() => void handleExport()}
+          onPress={handleShare}
           loading={isExporting}
+          disabled={isSaving || isEmpty}
           style={styles.exportButton}
         >
-          Export & Share
+          {isBatch
+            ? `Export ${batchPresets.length} & Share`
+            : isPrint
+              ? 'Export PDF & Share'
+              : 'Export & Share'}
         </Button>
       </View>
     </SafeAreaView>
@@ -135,8 +557,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
-  content: {
+  scroll: {
     flex: 1,
+  },
+  content: {
     padding: Spacing.lg,
   },
   title: {
@@ -148,12 +572,42 @@ const styles = StyleSheet.create({
     color: Colors.muted,
     marginBottom: Spacing.xl,
   },
+  modes: {
+    flexDirection: 'row',
+    padding: 2,
+    marginBottom: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.inputBg,
+  },
+  modeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  modeOptionSelected: {
+    backgroundColor: Colors.background,
+  },
+  modeLabel: {
+    ...Typography.bodySmall,
+    color: Colors.muted,
+  },
+  modeLabelSelected: {
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  groupLabel: {
+    ...Typography.caption,
+    color: Colors.muted,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
   platforms: {
     gap: Spacing.sm,
   },
   platformCard: {
-    flexDirection: 'row',
-    alignItems: 'center',
     padding: Spacing.md,
     borderRadius: BorderRadius.md,
     borderWidth: 2,
@@ -164,6 +618,10 @@ const styles = StyleSheet.create({
     borderColor: Colors.primary,
     backgroundColor: Colors.primary + '08',
   },
+  platformRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   platformIcon: {
     width: 44,
     height: 44,
@@ -201,12 +659,107 @@ const styles = StyleSheet.create({
   radioSelected: {
     borderColor: Colors.primary,
   },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: Colors.primary,
+  },
+  checkmark: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.background,
+  },
+  batchStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  batchStatusText: {
+    ...Typography.caption,
+    flex: 1,
+    color: Colors.muted,
+  },
+  batchStatusDone: {
+    color: Colors.success,
+  },
+  batchStatusError: {
+    color: Colors.danger,
+  },
   radioInner: {
     width: 12,
     height: 12,
     borderRadius: 6,
     backgroundColor: Colors.primary,
   },
+  sectionLabel: {
+    ...Typography.caption,
+    color: Colors.muted,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.sm,
+  },
+  formats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  formatChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  formatChipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '08',
+  },
+  formatLabel: {
+    ...Typography.bodySmall,
+  },
+  formatLabelSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  customSize: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  customSizeInput: {
+    flex: 1,
+  },
+  printSummary: {
+    ...Typography.caption,
+    color: Colors.muted,
+    marginBottom: Spacing.lg,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  switchHelper: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
   footer: {
     flexDirection: 'row',
     padding: Spacing.lg,
@@ -1,10 +1,24 @@
 import { useEffect, useState, useRef } from 'react';
-import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
+import { Button } from '@/components/ui';
+import { PosterThumbnail } from '@/components/poster';
+import { GenerationTimeline, getGenerationSteps } from '@/components/create/GenerationTimeline';
+import {
+  usePosterCreationStore,
+  getPosterUser,
+  EVENT_FIELD_ALIASES,
+  EVENT_FORM_FIELDS,
+} from '@/lib/stores/posterCreationStore';
 import { useEvents, useTemplates } from '@/lib/hooks';
-import { Colors, Spacing, Typography } from '@/constants';
+import { getErrorMessage, getFieldErrors, isCancelledError, pickFieldErrors } from '@/lib/api';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import type { Event, Template } from '@/types';
+
+const TEMPLATE_COUNT = 3;
+const PREVIEW_WIDTH = 96;
+const PREVIEW_HEIGHT = 120;
 
 export default function LoadingScreen() {
   const profile = usePosterCreationStore((s) => s.profile);
@@ -14,11 +28,22 @@ export default function LoadingScreen() {
   const setEvent = usePosterCreationStore((s) => s.setEvent);
   const setUserDetails = usePosterCreationStore((s) => s.setUserDetails);
   const setTemplates = usePosterCreationStore((s) => s.setTemplates);
+  const setEventFieldErrors = usePosterCreationStore((s) => s.setEventFieldErrors);
 
-  const { parseEvent, createEvent } = useEvents();
-  const { generateTemplates } = useTemplates();
+  // Leaving the screen aborts in-flight requests, so nothing lands in the store afterwards
+  const { parseEvent, createEvent, parseRetry, parseProgress, cancel: cancelEvent } = useEvents();
+  const {
+    generateTemplates,
+    generateRetry,
+    generateProgress,
+    generatedSoFar,
+    cancel: cancelTemplates,
+  } = useTemplates();
+  const retry = generateRetry ?? parseRetry;
 
   const [error, setError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<'event' | 'templates'>('event');
+  const [createdEvent, setCreatedEvent] = useState<Event | null>(null);
   const isGenerating = useRef(false);
 
   useEffect(() => {
@@ -46,7 +71,7 @@ export default function LoadingScreen() {
       }
 
       try {
-        let event;
+        let event: Event;
 
         // If we have an event URL, parse it with AI
         if (eventUrl) {
@@ -54,16 +79,31 @@ export default function LoadingScreen() {
           setEvent(event);
         } else if (eventDetails) {
           // Manual entry flow - create event from form data
-          event = await createEvent({
-            name: eventDetails.name,
-            startDate: eventDetails.date,
-            location: eventDetails.location
-              ? { city: eventDetails.location, isVirtual: false }
-              : undefined,
-            brandColors: eventDetails.brandColor
-              ? { primary: eventDetails.brandColor }
-              : undefined,
-          });
+          try {
+            event = await createEvent({
+              name: eventDetails.name,
+              startDate: eventDetails.date,
+              location: eventDetails.location
+                ? { city: eventDetails.location, isVirtual: false }
+                : undefined,
+              brandColors: eventDetails.brandColor
+                ? { primary: eventDetails.brandColor }
+                : undefined,
+            });
+          } catch (err) {
+            const fieldErrors = pickFieldErrors(
+              getFieldErrors(err) ?? {},
+              EVENT_FORM_FIELDS,
+              EVENT_FIELD_ALIASES
+            );
+            // Errors the form can't show are reported here instead
+            if (Object.keys(fieldErrors).length === 0) throw err;
+            // Send the user back to fix the fields the server rejected
+            setEventFieldErrors(fieldErrors);
+            isGenerating.current = false;
+            router.replace('/create/event-details');
+            return;
+          }
           setEvent(event);
         } else {
           isGenerating.current = false;
@@ -71,17 +111,18 @@ export default function LoadingScreen() {
           return;
         }
 
+        setCreatedEvent(event);
+        setPhase('templates');
         const templates = await generateTemplates({
           eventId: event.id,
-          count: 3,
+          count: TEMPLATE_COUNT,
         });
 
         setTemplates(templates);
         router.replace('/create/editor');
       } catch (err) {
-        // Backend returns user-friendly messages, just display them
-        const message = err instanceof Error ? err.message : 'Something went wrong. Please try again.';
-        setError(message);
+        if (isCancelledError(err)) return;
+        setError(getErrorMessage(err));
         isGenerating.current = false;
       }
     };
@@ -91,6 +132,34 @@ export default function LoadingScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const handleCancel = () => {
+    cancelEvent();
+    cancelTemplates();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  // Templates that already arrived can be opened without waiting for the rest
+  const handlePickTemplate = (template: Template) => {
+    cancelTemplates();
+    setTemplates(generatedSoFar, template);
+    router.replace('/create/editor');
+  };
+
+  const steps = getGenerationSteps({
+    phase,
+    fromUrl: !!eventUrl,
+    parseProgress,
+    generateProgress,
+    readyCount: generatedSoFar.length,
+    templateCount: TEMPLATE_COUNT,
+  });
+  const posterUser = getPosterUser(userDetails, profile);
+  const placeholderCount = Math.max(TEMPLATE_COUNT - generatedSoFar.length, 0);
+
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
@@ -111,13 +180,49 @@ export default function LoadingScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
-        <ActivityIndicator size="large" color={Colors.primary} style={styles.spinner} />
+      <ScrollView contentContainerStyle={styles.content}>
         <Text style={styles.title}>Creating Your Poster</Text>
         <Text style={styles.message}>
-          Analyzing event and generating designs...
+          {generatedSoFar.length > 0
+            ? 'Tap a design to start editing, or wait for the rest.'
+            : 'Analyzing event and generating designs...'}
         </Text>
-      </View>
+
+        <GenerationTimeline steps={steps} />
+
+        {phase === 'templates' && (
+          <View style={styles.previews}>
+            {generatedSoFar.map((template) => (
+              <Pressable
+                key={template.id}
+                onPress={() => handlePickTemplate(template)}
+                style={({ pressed }) => [styles.preview, pressed && styles.previewPressed]}
+              >
+                <PosterThumbnail
+                  width={PREVIEW_WIDTH}
+                  height={PREVIEW_HEIGHT}
+                  event={createdEvent}
+                  user={posterUser}
+                  design={template.design}
+                  layout={template.design.layout}
+                />
+              </Pressable>
+            ))}
+            {Array.from({ length: placeholderCount }, (_, index) => (
+              <View key={`placeholder-${index}`} style={[styles.preview, styles.placeholder]} />
+            ))}
+          </View>
+        )}
+
+        {retry && (
+          <Text style={styles.retryStatus}>
+            Connection trouble, retrying ({retry.attempt} of {retry.attempts})...
+          </Text>
+        )}
+        <Button variant="ghost" onPress={handleCancel} style={styles.cancelButton}>
+          Cancel
+        </Button>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -128,14 +233,11 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.background,
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
     justifyContent: 'center',
     padding: Spacing.xl,
   },
-  spinner: {
-    marginBottom: Spacing.xl,
-  },
   title: {
     ...Typography.h2,
     marginBottom: Spacing.sm,
@@ -144,6 +246,36 @@ const styles = StyleSheet.create({
     ...Typography.body,
     color: Colors.muted,
     textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+  previews: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  preview: {
+    width: PREVIEW_WIDTH,
+    height: PREVIEW_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+  },
+  previewPressed: {
+    opacity: 0.8,
+  },
+  placeholder: {
+    backgroundColor: Colors.inputBg,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderStyle: 'dashed',
+  },
+  retryStatus: {
+    ...Typography.bodySmall,
+    color: Colors.warning,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+  cancelButton: {
+    marginTop: Spacing.xl,
   },
   errorIcon: {
     fontSize: 48,
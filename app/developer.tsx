@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Switch } from 'react-native';
+import { Redirect, router } from 'expo-router';
+import { Button, Input } from '@/components/ui';
+import { API_CONFIG, getApiSettings, pingServer, type HealthCheckResult } from '@/lib/api';
+import { clearQueryCache } from '@/lib/query';
+import { useDevSettingsStore } from '@/lib/stores/devSettingsStore';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+
+const URL_PATTERN = /^https?:\/\/[^\s/]+(\/\S*)?$/;
+const MIN_TIMEOUT = 1000;
+
+/**
+ * Hidden developer settings: switch the backend at runtime, e.g. to test a
+ * physical device against a tunnel or staging. Opened by long-pressing the
+ * home screen title; not available in production builds.
+ */
+export default function DeveloperSettingsScreen() {
+  const savedBaseUrl = useDevSettingsStore((s) => s.baseUrl);
+  const savedTimeout = useDevSettingsStore((s) => s.timeout);
+  const savedMock = useDevSettingsStore((s) => s.mock);
+  const setApiOverrides = useDevSettingsStore((s) => s.setApiOverrides);
+  const resetApiOverrides = useDevSettingsStore((s) => s.resetApiOverrides);
+
+  const [baseUrl, setBaseUrl] = useState(savedBaseUrl ?? '');
+  const [timeout, setTimeoutText] = useState(savedTimeout ? String(savedTimeout) : '');
+  const [mock, setMock] = useState(savedMock ?? API_CONFIG.mock.enabled);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isPinging, setIsPinging] = useState(false);
+  const [health, setHealth] = useState<HealthCheckResult | null>(null);
+
+  if (!API_CONFIG.allowDevSettings) return <Redirect href="/" />;
+
+  const active = getApiSettings();
+  const trimmedUrl = baseUrl.trim().replace(/\/+$/, '');
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (trimmedUrl && !URL_PATTERN.test(trimmedUrl)) {
+      newErrors.baseUrl = 'Enter a full URL, e.g. http://192.168.1.20:3000';
+    }
+    const timeoutMs = Number(timeout);
+    if (timeout.trim() && (!Number.isInteger(timeoutMs) || timeoutMs < MIN_TIMEOUT)) {
+      newErrors.timeout = `Enter a whole number of milliseconds, at least ${MIN_TIMEOUT}`;
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handlePing = async () => {
+    if (!validate()) return;
+    setIsPinging(true);
+    setHealth(null);
+    try {
+      setHealth(await pingServer(trimmedUrl || active.baseUrl));
+    } finally {
+      setIsPinging(false);
+    }
+  };
+
+  // Cached data came from the previous server, so it's dropped on switch
+  const handleSave = () => {
+    if (!validate()) return;
+    setApiOverrides({
+      baseUrl: trimmedUrl || null,
+      timeout: timeout.trim() ? Number(timeout) : null,
+      mock: mock === API_CONFIG.mock.enabled ? null : mock,
+    });
+    clearQueryCache();
+    router.back();
+  };
+
+  const handleReset = () => {
+    resetApiOverrides();
+    clearQueryCache();
+    setBaseUrl('');
+    setTimeoutText('');
+    setMock(API_CONFIG.mock.enabled);
+    setErrors({});
+    setHealth(null);
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.summary}>
+        <Text style={styles.summaryLabel}>Build profile</Text>
+        <Text style={styles.summaryValue}>{API_CONFIG.env}</Text>
+        <Text style={styles.summaryLabel}>Current server</Text>
+        <Text style={styles.summaryValue}>
+          {active.mock ? 'Mock backend (in the app)' : active.baseUrl}
+        </Text>
+        <Text style={styles.summaryLabel}>Current timeout</Text>
+        <Text style={styles.summaryValue}>{active.timeout} ms</Text>
+      </View>
+
+      <View style={styles.mockRow}>
+        <View style={styles.mockText}>
+          <Text style={styles.mockLabel}>Mock backend</Text>
+          <Text style={styles.mockHelper}>
+            Answer requests in the app with sample data, no server needed
+          </Text>
+        </View>
+        <Switch
+          value={mock}
+          onValueChange={setMock}
+          trackColor={{ true: Colors.primary, false: Colors.border }}
+        />
+      </View>
+
+      <Input
+        label="Base URL"
+        placeholder={API_CONFIG.baseUrl}
+        value={baseUrl}
+        onChangeText={(text) => {
+          setBaseUrl(text);
+          setHealth(null);
+        }}
+        error={errors.baseUrl}
+        helper="Leave empty to use the build's default"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+
+      <Input
+        label="Timeout (ms)"
+        placeholder={String(API_CONFIG.timeout)}
+        value={timeout}
+        onChangeText={setTimeoutText}
+        error={errors.timeout}
+        keyboardType="number-pad"
+      />
+
+      <View style={styles.health}>
+        <Button variant="secondary" onPress={() => void handlePing()} loading={isPinging}>
+          Ping Server
+        </Button>
+        {health && (
+          <Text style={[styles.healthText, health.ok ? styles.healthOk : styles.healthError]}>
+            {health.ok
+              ? `Reachable (${health.status}) in ${health.latencyMs} ms`
+              : `${health.message} after ${health.latencyMs} ms`}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.actions}>
+        <Button onPress={handleSave} fullWidth>
+          Save
+        </Button>
+        <Button variant="ghost" onPress={handleReset} fullWidth>
+          Reset to Defaults
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  summary: {
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.inputBg,
+  },
+  summaryLabel: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+  summaryValue: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+    marginBottom: Spacing.sm,
+  },
+  mockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  mockText: {
+    flex: 1,
+  },
+  mockLabel: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  mockHelper: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+  health: {
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  healthText: {
+    ...Typography.bodySmall,
+  },
+  healthOk: {
+    color: Colors.success,
+  },
+  healthError: {
+    color: Colors.danger,
+  },
+  actions: {
+    gap: Spacing.sm,
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,207 @@
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  Dimensions,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Button } from '@/components/ui';
+import { PosterThumbnail } from '@/components/poster';
+import {
+  STATUS_LABELS,
+  getExportedPresets,
+  getPosterContent,
+  getPosterDate,
+  getPosterTitle,
+} from '@/components/history';
+import { usePosterDetails } from '@/lib/hooks';
+import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
+import { DESIGN_FRAME } from '@/lib/poster';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import { EXPORT_PRESETS } from '@/types';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const PREVIEW_WIDTH = Math.min(SCREEN_WIDTH - Spacing.lg * 2, DESIGN_FRAME.width);
+const PREVIEW_HEIGHT = PREVIEW_WIDTH * (DESIGN_FRAME.height / DESIGN_FRAME.width);
+
+export default function PosterDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { details, isLoading, error, refetch } = usePosterDetails(id);
+  const loadPoster = usePosterCreationStore((s) => s.loadPoster);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>Failed to load poster</Text>
+          <Button onPress={() => void refetch()}>Try Again</Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { poster } = details;
+  const presets = getExportedPresets(details);
+
+  const handleEdit = () => {
+    loadPoster(details);
+    router.push('/create/editor');
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.preview}>
+          <PosterThumbnail
+            width={PREVIEW_WIDTH}
+            height={PREVIEW_HEIGHT}
+            {...getPosterContent(details)}
+          />
+        </View>
+
+        <Text style={styles.title}>{getPosterTitle(details)}</Text>
+        <Text style={styles.subtitle}>{getPosterDate(details)}</Text>
+
+        <View style={styles.row}>
+          <Text style={styles.label}>Status</Text>
+          <Text style={styles.value}>{STATUS_LABELS[poster.status]}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Template</Text>
+          <Text style={styles.value}>{details.template?.name ?? 'Default'}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Last edited</Text>
+          <Text style={styles.value}>{new Date(poster.updatedAt).toLocaleString()}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Exports</Text>
+        {presets.length === 0 ? (
+          <Text style={styles.emptyText}>Not exported yet</Text>
+        ) : (
+          presets.map((preset) => {
+            const url = poster.exportedUrls[preset];
+            return (
+              <Pressable
+                key={preset}
+                style={styles.exportRow}
+                onPress={() => url && void Linking.openURL(url)}
+              >
+                <Text style={styles.exportName}>{EXPORT_PRESETS[preset].name}</Text>
+                <Text style={styles.exportLink}>Open</Text>
+              </Pressable>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button onPress={handleEdit} fullWidth>
+          Edit Poster
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  errorText: {
+    ...Typography.body,
+    color: Colors.danger,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  preview: {
+    alignSelf: 'center',
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    ...Typography.h2,
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.muted,
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  label: {
+    ...Typography.body,
+    color: Colors.muted,
+  },
+  value: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    ...Typography.h3,
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.sm,
+  },
+  emptyText: {
+    ...Typography.body,
+    color: Colors.muted,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.sm,
+  },
+  exportName: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  exportLink: {
+    ...Typography.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  footer: {
+    padding: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+});
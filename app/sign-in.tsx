@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Button, Input } from '@/components/ui';
+import { API_CONFIG, getErrorMessage } from '@/lib/api';
+import { requestMagicLink, signInWithCode } from '@/lib/auth';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Magic link sign-in. The emailed link opens this screen with `email` and
+ * `code` params and signs in straight away; the code can also be typed in.
+ */
+export default function SignInScreen() {
+  const params = useLocalSearchParams<{ email?: string; code?: string }>();
+
+  const [email, setEmail] = useState(params.email ?? '');
+  const [code, setCode] = useState(params.code ?? '');
+  const [isLinkSent, setIsLinkSent] = useState(!!params.code);
+  const [devCode, setDevCode] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const hasUsedLink = useRef(false);
+
+  const trimmedEmail = email.trim().toLowerCase();
+
+  const handleSendLink = async () => {
+    if (!EMAIL_PATTERN.test(trimmedEmail)) {
+      setErrors({ email: 'Enter a valid email address' });
+      return;
+    }
+    setErrors({});
+    setIsSending(true);
+    try {
+      const sent = await requestMagicLink(trimmedEmail);
+      setDevCode(sent.devCode ?? null);
+      setIsLinkSent(true);
+    } catch (err) {
+      setErrors({ email: getErrorMessage(err, 'Could not send the sign-in link') });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // The layout's guard swaps this screen for the app once signed in
+  const signIn = async (signInEmail: string, signInCode: string) => {
+    setErrors({});
+    setIsSigningIn(true);
+    try {
+      await signInWithCode(signInEmail, signInCode.trim());
+    } catch (err) {
+      setErrors({ code: getErrorMessage(err, 'Could not sign in') });
+      setIsSigningIn(false);
+    }
+  };
+
+  // Opened from the emailed link
+  useEffect(() => {
+    if (hasUsedLink.current || !params.email || !params.code) return;
+    hasUsedLink.current = true;
+    void signIn(params.email.trim().toLowerCase(), params.code);
+  }, [params.email, params.code]);
+
+  const handleChangeEmail = () => {
+    setIsLinkSent(false);
+    setCode('');
+    setDevCode(null);
+    setErrors({});
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.content}
+      >
+        <Text style={styles.title}>MeetMeAt</Text>
+        <Text style={styles.subtitle}>
+          {isLinkSent
+            ? `We sent a sign-in link to ${trimmedEmail}. Open it on this device, or enter the code from the email.`
+            : "Sign in with your email. We'll send you a link, no password needed."}
+        </Text>
+
+        {isLinkSent ? (
+          <>
+            {devCode && (
+              <View style={styles.devNotice}>
+                <Text style={styles.devNoticeText}>
+                  Local sign-in: no email is sent. Your code is {devCode}.
+                </Text>
+              </View>
+            )}
+            <Input
+              label="Code"
+              placeholder="6-digit code"
+              value={code}
+              onChangeText={setCode}
+              error={errors.code}
+              keyboardType="number-pad"
+              autoComplete="one-time-code"
+              maxLength={6}
+            />
+            <View style={styles.actions}>
+              <Button
+                onPress={() => void signIn(trimmedEmail, code)}
+                loading={isSigningIn}
+                disabled={!code.trim()}
+                fullWidth
+              >
+                Sign In
+              </Button>
+              <Button variant="ghost" onPress={handleChangeEmail} fullWidth>
+                Use a Different Email
+              </Button>
+            </View>
+          </>
+        ) : (
+          <>
+            <Input
+              label="Email"
+              placeholder="you@example.com"
+              value={email}
+              onChangeText={setEmail}
+              error={errors.email}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              autoCorrect={false}
+            />
+            <View style={styles.actions}>
+              <Button
+                onPress={() => void handleSendLink()}
+                loading={isSending}
+                disabled={!email.trim()}
+                fullWidth
+              >
+                Send Sign-In Link
+              </Button>
+            </View>
+          </>
+        )}
+
+        {API_CONFIG.allowDevSettings && (
+          <Button variant="ghost" size="sm" onPress={() => router.push('/developer')}>
+            Server Settings
+          </Button>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  title: {
+    ...Typography.h1,
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    ...Typography.body,
+    color: Colors.muted,
+    textAlign: 'center',
+    marginBottom: Spacing.xl,
+  },
+  devNotice: {
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.warning + '20',
+  },
+  devNoticeText: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+  },
+  actions: {
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+});
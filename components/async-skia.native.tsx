@@ -2,3 +2,11 @@
 export function AsyncSkia(): null {
   return null;
 }
+
+export function useSkiaLoaded(): void {
+  // Nothing to wait for on native
+}
+
+export function ensureSkiaLoaded(): Promise<void> {
+  return Promise.resolve();
+}
@@ -37,6 +37,13 @@ function wrapPromise<T>(promise: Promise<T>): PromiseWrapper<T> {
 
 const promiseMap = new Map<string, PromiseWrapper<void>>();
 
+let skiaLoadPromise: Promise<void> | null = null;
+
+const loadSkia = (): Promise<void> => {
+  skiaLoadPromise ??= LoadSkiaWeb();
+  return skiaLoadPromise;
+};
+
 const getSuspendingPromise = (): void => {
   const id = 'skia';
   const existing = promiseMap.get(id);
@@ -44,7 +51,7 @@ const getSuspendingPromise = (): void => {
     return existing.read();
   }
 
-  const loader = wrapPromise(LoadSkiaWeb());
+  const loader = wrapPromise(loadSkia());
   promiseMap.set(id, loader);
   return loader.read();
 };
@@ -60,3 +67,8 @@ export function AsyncSkia(): null {
 export function useSkiaLoaded(): void {
   getResolvedPromise();
 }
+
+// Promise-based variant for code running outside of React (e.g. exports)
+export function ensureSkiaLoaded(): Promise<void> {
+  return loadSkia();
+}
@@ -0,0 +1,166 @@
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Colors, Spacing, Typography } from '@/constants';
+import type { GenerationProgress, GenerationStage } from '@/types';
+
+export type TimelineStepStatus = 'pending' | 'active' | 'done';
+
+export interface TimelineStep {
+  key: string;
+  label: string;
+  status: TimelineStepStatus;
+  /** Shown under the label, e.g. "Design 2 of 3" */
+  detail?: string;
+}
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  fetching_page: 'Fetching event page',
+  extracting_metadata: 'Reading event details',
+  extracting_colors: 'Picking brand colours',
+  generating_templates: 'Designing posters',
+};
+
+const PARSE_STAGES: GenerationStage[] = [
+  'fetching_page',
+  'extracting_metadata',
+  'extracting_colors',
+];
+
+const stepStatus = (index: number, activeIndex: number): TimelineStepStatus =>
+  index < activeIndex ? 'done' : index === activeIndex ? 'active' : 'pending';
+
+/**
+ * Timeline steps for creating a poster. `phase` is the request running:
+ * parsing the event URL, saving manually entered details, or generating
+ * templates.
+ */
+export function getGenerationSteps({
+  phase,
+  fromUrl,
+  parseProgress,
+  generateProgress,
+  readyCount,
+  templateCount,
+}: {
+  phase: 'event' | 'templates';
+  fromUrl: boolean;
+  parseProgress: GenerationProgress | null;
+  generateProgress: GenerationProgress | null;
+  readyCount: number;
+  templateCount: number;
+}): TimelineStep[] {
+  const eventSteps = fromUrl
+    ? PARSE_STAGES.map((stage) => ({ key: stage, label: STAGE_LABELS[stage] }))
+    : [{ key: 'saving', label: 'Saving event details' }];
+
+  // Before the first stage report the first step is running
+  const parseIndex = parseProgress ? Math.max(PARSE_STAGES.indexOf(parseProgress.stage), 0) : 0;
+  const activeIndex = phase === 'templates' ? eventSteps.length : fromUrl ? parseIndex : 0;
+
+  const total = generateProgress?.total ?? templateCount;
+  const current = Math.min(Math.max(generateProgress?.current ?? readyCount + 1, 1), total);
+
+  return [
+    ...eventSteps.map((step, index) => ({ ...step, status: stepStatus(index, activeIndex) })),
+    {
+      key: 'generating_templates',
+      label: STAGE_LABELS.generating_templates,
+      status: stepStatus(eventSteps.length, activeIndex),
+      detail: phase === 'templates' ? `Design ${current} of ${total}` : undefined,
+    },
+  ];
+}
+
+interface GenerationTimelineProps {
+  steps: TimelineStep[];
+}
+
+/**
+ * Vertical list of steps, done ones ticked and the running one spinning.
+ */
+export function GenerationTimeline({ steps }: GenerationTimelineProps) {
+  return (
+    <View style={styles.container}>
+      {steps.map((step, index) => (
+        <View key={step.key} style={styles.step}>
+          <View style={styles.marker}>
+            {step.status === 'active' ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <View style={[styles.dot, step.status === 'done' && styles.dotDone]}>
+                {step.status === 'done' && <Text style={styles.check}>✓</Text>}
+              </View>
+            )}
+            {index < steps.length - 1 && (
+              <View style={[styles.line, step.status === 'done' && styles.lineDone]} />
+            )}
+          </View>
+          <View style={styles.body}>
+            <Text style={[styles.label, step.status === 'pending' && styles.labelPending]}>
+              {step.label}
+            </Text>
+            {step.detail && <Text style={styles.detail}>{step.detail}</Text>}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const MARKER_SIZE = 20;
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+  },
+  step: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  marker: {
+    width: MARKER_SIZE,
+    alignItems: 'center',
+  },
+  dot: {
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
+    borderRadius: MARKER_SIZE / 2,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dotDone: {
+    borderColor: Colors.success,
+    backgroundColor: Colors.success,
+  },
+  check: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: Colors.background,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    minHeight: Spacing.md,
+    marginVertical: 2,
+    backgroundColor: Colors.border,
+  },
+  lineDone: {
+    backgroundColor: Colors.success,
+  },
+  body: {
+    flex: 1,
+    paddingBottom: Spacing.md,
+  },
+  label: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  labelPending: {
+    color: Colors.muted,
+  },
+  detail: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+});
@@ -0,0 +1,56 @@
+import { View, Pressable, StyleSheet, type ViewStyle } from 'react-native';
+import { Colors, Spacing, BorderRadius } from '@/constants';
+
+interface ColorSwatchesProps {
+  colors: string[];
+  selected?: string;
+  onSelect: (color: string) => void;
+  style?: ViewStyle;
+}
+
+export const FILL_COLORS = ['#FFFFFF', '#1A1A2E', '#6C5CE7', '#E74C3C', '#27AE60', '#F39C12', '#3498DB'];
+
+/**
+ * Colour choices with `extra` (usually the event brand colour) offered first.
+ */
+export const withSwatch = (colors: string[], extra: string | undefined): string[] =>
+  extra && !colors.some((color) => color.toUpperCase() === extra.toUpperCase())
+    ? [extra, ...colors]
+    : colors;
+
+export function ColorSwatches({ colors, selected, onSelect, style }: ColorSwatchesProps) {
+  return (
+    <View style={[styles.row, style]}>
+      {colors.map((color) => (
+        <Pressable
+          key={color}
+          style={[
+            styles.swatch,
+            { backgroundColor: color },
+            selected?.toUpperCase() === color.toUpperCase() && styles.swatchSelected,
+          ]}
+          onPress={() => onSelect(color)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: Colors.text,
+  },
+});
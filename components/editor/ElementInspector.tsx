@@ -0,0 +1,265 @@
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Button, Input } from '@/components/ui';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import { parseFontWeight } from '@/lib/skia';
+import { SOCIAL_PLATFORMS } from '@/lib/social';
+import { ColorSwatches, FILL_COLORS, withSwatch } from './ColorSwatches';
+import type { SocialLink, SocialPlatform, TemplateElement, TemplateElementProperties } from '@/types';
+
+interface ElementInspectorProps {
+  element: TemplateElement;
+  /** Text currently shown on the poster, with bindings resolved */
+  displayText?: string;
+  /** Extra swatch offered first, usually the event brand colour */
+  brandColor?: string;
+  /** Links on the current profile, offered to social and QR elements */
+  socialLinks?: SocialLink[];
+  isCustomized: boolean;
+  /** Element was added in the editor rather than coming from the template */
+  isAdded?: boolean;
+  onChange: (properties: Partial<TemplateElementProperties>) => void;
+  onReset: () => void;
+  onDone: () => void;
+}
+
+const FONT_WEIGHTS = [
+  { label: 'Light', value: '300' },
+  { label: 'Regular', value: '400' },
+  { label: 'Medium', value: '500' },
+  { label: 'Bold', value: '700' },
+  { label: 'Black', value: '900' },
+];
+
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 96;
+const DEFAULT_FONT_SIZE = 16;
+
+const ELEMENT_LABELS: Record<TemplateElement['type'], string> = {
+  text: 'Text',
+  image: 'Image',
+  shape: 'Shape',
+  logo: 'Logo',
+  socials: 'Social Links',
+  qr: 'QR Code',
+};
+
+const QR_BINDING_PATTERN = /^\{\{user\.social\.(\w+)\}\}$/;
+
+const getLinkedPlatforms = (links: SocialLink[]): SocialPlatform[] =>
+  links
+    .map((link) => link.platform)
+    .filter((platform, index, platforms) => platforms.indexOf(platform) === index);
+
+export function ElementInspector({
+  element,
+  displayText,
+  brandColor,
+  socialLinks = [],
+  isCustomized,
+  isAdded = false,
+  onChange,
+  onReset,
+  onDone,
+}: ElementInspectorProps) {
+  const { properties } = element;
+  const isText = element.type === 'text';
+  const isSocials = element.type === 'socials';
+  const isQr = element.type === 'qr';
+  const linkedPlatforms = getLinkedPlatforms(socialLinks);
+  const shownPlatforms = properties.platforms ?? linkedPlatforms;
+  const qrPlatform = QR_BINDING_PATTERN.exec(properties.content ?? '')?.[1];
+  const fontSize = properties.fontSize ?? DEFAULT_FONT_SIZE;
+  const fontWeight = parseFontWeight(properties.fontWeight);
+
+  const setFontSize = (size: number) =>
+    onChange({ fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, size)) });
+
+  const togglePlatform = (platform: SocialPlatform) => {
+    const next = shownPlatforms.includes(platform)
+      ? shownPlatforms.filter((shown) => shown !== platform)
+      : linkedPlatforms.filter((linked) => linked === platform || shownPlatforms.includes(linked));
+    onChange({ platforms: next });
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{ELEMENT_LABELS[element.type]}</Text>
+        <Pressable onPress={onDone} hitSlop={8}>
+          <Text style={styles.doneButton}>Done</Text>
+        </Pressable>
+      </View>
+
+      {isText && (
+        <Input
+          label="Text"
+          value={displayText ?? properties.content ?? ''}
+          onChangeText={(content) => onChange({ content })}
+          multiline
+        />
+      )}
+
+      {isSocials && (
+        <>
+          <Text style={styles.label}>Show</Text>
+          {linkedPlatforms.length === 0 ? (
+            <Text style={styles.hint}>Add social links to the profile to show them here</Text>
+          ) : (
+            <View style={styles.row}>
+              {linkedPlatforms.map((platform) =>
+                renderChip(
+                  platform,
+                  SOCIAL_PLATFORMS[platform].label,
+                  shownPlatforms.includes(platform),
+                  () => togglePlatform(platform)
+                )
+              )}
+            </View>
+          )}
+        </>
+      )}
+
+      {isQr && (
+        <>
+          <Text style={styles.label}>Link</Text>
+          {linkedPlatforms.length === 0 ? (
+            <Text style={styles.hint}>Add social links to the profile to encode one here</Text>
+          ) : (
+            <View style={styles.row}>
+              {linkedPlatforms.map((platform) =>
+                renderChip(platform, SOCIAL_PLATFORMS[platform].label, qrPlatform === platform, () =>
+                  onChange({ content: `{{user.social.${platform}}}` })
+                )
+              )}
+            </View>
+          )}
+        </>
+      )}
+
+      {(isText || isSocials) && (
+        <>
+          <Text style={styles.label}>Font size</Text>
+          <View style={styles.row}>
+            <Button variant="secondary" size="sm" onPress={() => setFontSize(fontSize - 1)}>
+              −
+            </Button>
+            <Text style={styles.fontSize}>{fontSize}</Text>
+            <Button variant="secondary" size="sm" onPress={() => setFontSize(fontSize + 1)}>
+              +
+            </Button>
+          </View>
+        </>
+      )}
+
+      {isText && (
+        <>
+          <Text style={styles.label}>Weight</Text>
+          <View style={styles.row}>
+            {FONT_WEIGHTS.map((weight) =>
+              renderChip(
+                weight.value,
+                weight.label,
+                parseFontWeight(weight.value) === fontWeight,
+                () => onChange({ fontWeight: weight.value })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      {(isText || isSocials || isQr || element.type === 'shape') && (
+        <>
+          <Text style={styles.label}>Colour</Text>
+          <ColorSwatches
+            colors={withSwatch(FILL_COLORS, brandColor)}
+            selected={properties.fill}
+            onSelect={(color) => onChange({ fill: color })}
+            style={styles.row}
+          />
+        </>
+      )}
+
+      {(isCustomized || isAdded) && (
+        <Button variant="ghost" size="sm" onPress={onReset}>
+          {isAdded ? 'Remove from Poster' : 'Reset to Template'}
+        </Button>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: Spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  title: {
+    ...Typography.h3,
+  },
+  doneButton: {
+    ...Typography.body,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  label: {
+    ...Typography.bodySmall,
+    fontWeight: '500',
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.muted,
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  fontSize: {
+    ...Typography.body,
+    fontWeight: '600',
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '08',
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+});
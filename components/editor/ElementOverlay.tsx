@@ -0,0 +1,189 @@
+import { useMemo, useRef } from 'react';
+import { View, Pressable, StyleSheet, PanResponder, type ViewStyle } from 'react-native';
+import { Colors } from '@/constants';
+import type { SceneElement, SceneRect } from '@/lib/poster';
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface ElementOverlayProps {
+  width: number;
+  height: number;
+  /** Laid-out scene of the poster underneath, in overlay pixels */
+  scene: SceneElement[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  /** Called continuously while an element is dragged or resized */
+  onChange: (id: string, rect: SceneRect) => void;
+}
+
+interface EditableBoxProps {
+  element: SceneElement;
+  bounds: { width: number; height: number };
+  isSelected: boolean;
+  onSelect: (id: string) => void;
+  onChange: (id: string, rect: SceneRect) => void;
+}
+
+const HANDLE_SIZE = 14;
+const MIN_SIZE = 12;
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+// Full-bleed elements (e.g. hero images) would swallow every tap, so they aren't editable
+const isBackgroundElement = (element: SceneElement, width: number, height: number) =>
+  element.rect.width >= width * 0.9 && element.rect.height >= height * 0.9;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const moveRect = (rect: SceneRect, dx: number, dy: number, bounds: EditableBoxProps['bounds']) => ({
+  ...rect,
+  x: clamp(rect.x + dx, -rect.width / 2, bounds.width - rect.width / 2),
+  y: clamp(rect.y + dy, -rect.height / 2, bounds.height - rect.height / 2),
+});
+
+const resizeRect = (rect: SceneRect, corner: Corner, dx: number, dy: number): SceneRect => {
+  const left = corner === 'nw' || corner === 'sw';
+  const top = corner === 'nw' || corner === 'ne';
+  const width = Math.max(MIN_SIZE, rect.width + (left ? -dx : dx));
+  const height = Math.max(MIN_SIZE, rect.height + (top ? -dy : dy));
+  return {
+    x: left ? rect.x + rect.width - width : rect.x,
+    y: top ? rect.y + rect.height - height : rect.y,
+    width,
+    height,
+  };
+};
+
+function EditableBox({ element, bounds, isSelected, onSelect, onChange }: EditableBoxProps) {
+  // Responders live for the whole gesture, so they read the latest props through a ref
+  const latest = useRef({ element, bounds, onSelect, onChange });
+  latest.current = { element, bounds, onSelect, onChange };
+  const startRect = useRef<SceneRect>(element.rect);
+
+  const moveResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        // Don't let a parent ScrollView steal an in-progress drag
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => {
+          startRect.current = latest.current.element.rect;
+          latest.current.onSelect(latest.current.element.id);
+        },
+        onPanResponderMove: (_, gesture) => {
+          const { element: current, bounds: frame } = latest.current;
+          latest.current.onChange(
+            current.id,
+            moveRect(startRect.current, gesture.dx, gesture.dy, frame)
+          );
+        },
+      }),
+    []
+  );
+
+  const resizeResponders = useMemo(
+    () =>
+      Object.fromEntries(
+        CORNERS.map((corner) => [
+          corner,
+          PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => true,
+            onPanResponderTerminationRequest: () => false,
+            onPanResponderGrant: () => {
+              startRect.current = latest.current.element.rect;
+            },
+            onPanResponderMove: (_, gesture) => {
+              latest.current.onChange(
+                latest.current.element.id,
+                resizeRect(startRect.current, corner, gesture.dx, gesture.dy)
+              );
+            },
+          }),
+        ])
+      ) as Record<Corner, ReturnType<typeof PanResponder.create>>,
+    []
+  );
+
+  const { x, y, width, height } = element.rect;
+
+  return (
+    <View
+      style={[styles.box, { left: x, top: y, width, height }, isSelected && styles.boxSelected]}
+      {...moveResponder.panHandlers}
+    >
+      {isSelected &&
+        CORNERS.map((corner) => (
+          <View
+            key={corner}
+            style={[styles.handle, HANDLE_POSITIONS[corner]]}
+            {...resizeResponders[corner].panHandlers}
+          />
+        ))}
+    </View>
+  );
+}
+
+/**
+ * Direct manipulation layer drawn on top of a PosterCanvas: tap to select,
+ * drag to move, corner handles to resize. Works purely in overlay pixels.
+ */
+export function ElementOverlay({
+  width,
+  height,
+  scene,
+  selectedId,
+  onSelect,
+  onChange,
+}: ElementOverlayProps) {
+  const bounds = useMemo(() => ({ width, height }), [width, height]);
+
+  return (
+    <View style={[StyleSheet.absoluteFill, { width, height }]}>
+      <Pressable style={StyleSheet.absoluteFill} onPress={() => onSelect(null)} />
+      {scene
+        // Child primitives (e.g. a social link row) are edited through their container
+        .filter((element) => !element.parentId && !isBackgroundElement(element, width, height))
+        .map((element) => (
+          <EditableBox
+            key={element.id}
+            element={element}
+            bounds={bounds}
+            isSelected={element.id === selectedId}
+            onSelect={onSelect}
+            onChange={onChange}
+          />
+        ))}
+    </View>
+  );
+}
+
+const HANDLE_OFFSET = -HANDLE_SIZE / 2;
+
+const HANDLE_POSITIONS: Record<Corner, ViewStyle> = {
+  nw: { left: HANDLE_OFFSET, top: HANDLE_OFFSET },
+  ne: { right: HANDLE_OFFSET, top: HANDLE_OFFSET },
+  sw: { left: HANDLE_OFFSET, bottom: HANDLE_OFFSET },
+  se: { right: HANDLE_OFFSET, bottom: HANDLE_OFFSET },
+};
+
+const styles = StyleSheet.create({
+  box: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  boxSelected: {
+    borderColor: Colors.primary,
+    borderStyle: 'dashed',
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: Colors.background,
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+});
@@ -0,0 +1,4 @@
+export { ElementOverlay } from './ElementOverlay';
+export { ElementInspector } from './ElementInspector';
+export { ColorSwatches, FILL_COLORS, withSwatch } from './ColorSwatches';
+export { useHistoryShortcuts } from './useHistoryShortcuts';
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Input } from '@/components/ui';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import { isValidDate, type PosterFilters, type PosterGrouping } from '@/lib/history';
+import { EXPORT_PLATFORM_NAMES } from '@/types';
+import type { ExportPlatform, Profile } from '@/types';
+import { STATUS_LABELS } from './posterSummary';
+
+interface HistoryFiltersProps {
+  filters: PosterFilters;
+  profiles: Profile[];
+  onChange: (filters: PosterFilters) => void;
+}
+
+interface ChipOption<T> {
+  value: T | undefined;
+  label: string;
+}
+
+const GROUPINGS: ChipOption<PosterGrouping>[] = [
+  { value: 'none', label: 'None' },
+  { value: 'event', label: 'Event' },
+  { value: 'month', label: 'Month' },
+];
+
+const ALL = { value: undefined, label: 'All' };
+
+function ChipRow<T extends string>({
+  label,
+  options,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  options: ChipOption<T>[];
+  selected: T | undefined;
+  onSelect: (value: T | undefined) => void;
+}) {
+  return (
+    <>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.row}>
+        {options.map((option) => {
+          const isSelected = option.value === selected;
+          return (
+            <Pressable
+              key={option.label}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => onSelect(option.value)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </>
+  );
+}
+
+/**
+ * Date field that only reports complete YYYY-MM-DD dates (or clearing).
+ */
+function DateInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+}) {
+  const [text, setText] = useState(value ?? '');
+
+  // Follow external changes, e.g. navigating to another deep link
+  useEffect(() => {
+    setText(value ?? '');
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const trimmed = next.trim();
+    if (!trimmed) onChange(undefined);
+    else if (isValidDate(trimmed)) onChange(trimmed);
+  };
+
+  const trimmed = text.trim();
+  const isInvalid = trimmed.length >= 10 && !isValidDate(trimmed);
+
+  return (
+    <Input
+      label={label}
+      placeholder="YYYY-MM-DD"
+      value={text}
+      onChangeText={handleChange}
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={10}
+      error={isInvalid ? 'Use YYYY-MM-DD' : undefined}
+      containerStyle={styles.dateInput}
+    />
+  );
+}
+
+export function HistoryFilters({ filters, profiles, onChange }: HistoryFiltersProps) {
+  const update = (changes: Partial<PosterFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <View style={styles.container}>
+      <ChipRow
+        label="Status"
+        options={[
+          ALL,
+          ...(Object.keys(STATUS_LABELS) as (keyof typeof STATUS_LABELS)[]).map((status) => ({
+            value: status,
+            label: STATUS_LABELS[status],
+          })),
+        ]}
+        selected={filters.status}
+        onSelect={(status) => update({ status })}
+      />
+
+      <ChipRow
+        label="Exported to"
+        options={[
+          ALL,
+          ...(Object.keys(EXPORT_PLATFORM_NAMES) as ExportPlatform[]).map((platform) => ({
+            value: platform,
+            label: EXPORT_PLATFORM_NAMES[platform],
+          })),
+        ]}
+        selected={filters.platform}
+        onSelect={(platform) => update({ platform })}
+      />
+
+      {profiles.length > 1 && (
+        <ChipRow
+          label="Profile"
+          options={[ALL, ...profiles.map((profile) => ({ value: profile.id, label: profile.name }))]}
+          selected={filters.profileId}
+          onSelect={(profileId) => update({ profileId })}
+        />
+      )}
+
+      <Text style={styles.label}>Date</Text>
+      <View style={styles.dateRow}>
+        <DateInput label="From" value={filters.from} onChange={(from) => update({ from })} />
+        <DateInput label="To" value={filters.to} onChange={(to) => update({ to })} />
+      </View>
+
+      <ChipRow
+        label="Group by"
+        options={GROUPINGS}
+        selected={filters.groupBy}
+        onSelect={(groupBy) => update({ groupBy: groupBy ?? 'none' })}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  label: {
+    ...Typography.caption,
+    color: Colors.muted,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '08',
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  dateInput: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,141 @@
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { PosterThumbnail } from '@/components/poster';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import { EXPORT_PLATFORM_NAMES } from '@/types';
+import type { PosterHistoryItem } from '@/lib/hooks';
+import {
+  STATUS_LABELS,
+  getExportedPlatforms,
+  getPosterContent,
+  getPosterDate,
+  getPosterTitle,
+} from './posterSummary';
+
+interface PosterHistoryCardProps {
+  item: PosterHistoryItem;
+  onPress: () => void;
+}
+
+const THUMBNAIL_WIDTH = 80;
+const THUMBNAIL_HEIGHT = 96;
+
+export function PosterHistoryCard({ item, onPress }: PosterHistoryCardProps) {
+  const { status } = item.poster;
+  const platforms = getExportedPlatforms(item);
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+    >
+      <View style={styles.thumbnail}>
+        <PosterThumbnail
+          width={THUMBNAIL_WIDTH}
+          height={THUMBNAIL_HEIGHT}
+          {...getPosterContent(item)}
+        />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.name} numberOfLines={2}>
+          {getPosterTitle(item)}
+        </Text>
+        <Text style={styles.date}>{getPosterDate(item)}</Text>
+
+        <View style={styles.badges}>
+          <View style={[styles.statusBadge, status === 'exported' && styles.statusBadgeExported]}>
+            <Text
+              style={[styles.statusText, status === 'exported' && styles.statusTextExported]}
+            >
+              {STATUS_LABELS[status]}
+            </Text>
+          </View>
+          {platforms.map((platform) => (
+            <View key={platform} style={styles.platformBadge}>
+              <Text style={styles.platformText}>{EXPORT_PLATFORM_NAMES[platform]}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <Text style={styles.chevron}>›</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  pressed: {
+    opacity: 0.7,
+    backgroundColor: Colors.inputBg,
+  },
+  thumbnail: {
+    width: THUMBNAIL_WIDTH,
+    height: THUMBNAIL_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+  },
+  content: {
+    flex: 1,
+    marginLeft: Spacing.md,
+    marginRight: Spacing.xs,
+  },
+  name: {
+    ...Typography.body,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  date: {
+    ...Typography.bodySmall,
+    color: Colors.muted,
+    marginTop: 2,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  statusBadge: {
+    backgroundColor: Colors.inputBg,
+    paddingHorizontal: Spacing.xs,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  statusBadgeExported: {
+    backgroundColor: Colors.success,
+  },
+  statusText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: Colors.muted,
+  },
+  statusTextExported: {
+    color: Colors.background,
+  },
+  platformBadge: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: Spacing.xs,
+    paddingVertical: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  platformText: {
+    fontSize: 10,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  chevron: {
+    fontSize: 20,
+    color: Colors.muted,
+  },
+});
@@ -0,0 +1,10 @@
+export { HistoryFilters } from './HistoryFilters';
+export { PosterHistoryCard } from './PosterHistoryCard';
+export {
+  STATUS_LABELS,
+  getExportedPlatforms,
+  getExportedPresets,
+  getPosterContent,
+  getPosterDate,
+  getPosterTitle,
+} from './posterSummary';
@@ -0,0 +1,38 @@
+/**
+ * Display helpers shared by the history list and poster detail screens
+ */
+
+import { getPosterUser } from '@/lib/stores/posterCreationStore';
+import { hasExportFor } from '@/lib/history';
+import { EXPORT_PLATFORM_NAMES, EXPORT_PRESETS } from '@/types';
+import type { PosterContent } from '@/lib/poster';
+import type { PosterHistoryItem } from '@/lib/hooks';
+import type { ExportPlatform, ExportPresetId, PosterStatus } from '@/types';
+
+export const STATUS_LABELS: Record<PosterStatus, string> = {
+  draft: 'Draft',
+  exported: 'Exported',
+};
+
+export const getPosterContent = ({ poster, event, template, profile }: PosterHistoryItem): PosterContent => ({
+  event,
+  user: getPosterUser(null, profile),
+  design: template?.design,
+  customizations: poster.customizations,
+});
+
+export const getPosterTitle = ({ event }: PosterHistoryItem): string => event?.name ?? 'Untitled event';
+
+/** Event date when known, otherwise when the poster was created */
+export const getPosterDate = ({ poster, event }: PosterHistoryItem): string =>
+  event?.startDate
+    ? new Date(event.startDate).toLocaleDateString()
+    : `Created ${new Date(poster.createdAt).toLocaleDateString()}`;
+
+export const getExportedPlatforms = ({ poster }: PosterHistoryItem): ExportPlatform[] =>
+  (Object.keys(EXPORT_PLATFORM_NAMES) as ExportPlatform[]).filter((platform) =>
+    hasExportFor(poster, platform)
+  );
+
+export const getExportedPresets = ({ poster }: PosterHistoryItem): ExportPresetId[] =>
+  (Object.keys(EXPORT_PRESETS) as ExportPresetId[]).filter((preset) => poster.exportedUrls[preset]);
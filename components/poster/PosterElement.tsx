@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import {
+  Group,
+  Image,
+  Paragraph,
+  Path,
+  Rect,
+  Skia,
+  type SkImage,
+  type SkParagraph,
+} from '@shopify/react-native-skia';
+import { createHexagonPath } from '@/lib/skia';
+import {
+  getCenteredSquare,
+  getImageRect,
+  getQrModuleRects,
+  PLACEHOLDER_OPACITY,
+  QR_DARK_COLOR,
+  QR_LIGHT_COLOR,
+  ROUNDED_CORNER_RADIUS,
+  type SceneElement,
+} from '@/lib/poster';
+
+interface PosterElementProps {
+  element: SceneElement;
+  paragraph?: SkParagraph | null;
+  image?: SkImage | null;
+}
+
+const getShapePath = (element: SceneElement) => {
+  const { x, y, width, height } = element.rect;
+  switch (element.shape) {
+    case 'hexagon':
+      return Skia.Path.MakeFromSVGString(
+        createHexagonPath(x + width / 2, y + height / 2, Math.min(width, height) / 2)
+      );
+    case 'ellipse':
+      return Skia.Path.Make().addOval(Skia.XYWHRect(x, y, width, height));
+    case 'rounded':
+      return Skia.Path.Make().addRRect(
+        Skia.RRectXY(
+          Skia.XYWHRect(x, y, width, height),
+          ROUNDED_CORNER_RADIUS,
+          ROUNDED_CORNER_RADIUS
+        )
+      );
+    case 'rect':
+    default:
+      return Skia.Path.Make().addRect(Skia.XYWHRect(x, y, width, height));
+  }
+};
+
+// One path for all the dark modules of a QR code
+const getQrPath = (element: SceneElement) => {
+  if (!element.qr) return null;
+  const path = Skia.Path.Make();
+  getQrModuleRects(element).forEach(({ x, y, width, height }) =>
+    path.addRect(Skia.XYWHRect(x, y, width, height))
+  );
+  return path;
+};
+
+export function PosterElement({ element, paragraph, image }: PosterElementProps) {
+  const shapePath = useMemo(() => getShapePath(element), [element]);
+  const qrPath = useMemo(() => getQrPath(element), [element]);
+  const { x, y, width } = element.rect;
+
+  const outline = element.stroke && shapePath && element.strokeWidth > 0 && (
+    <Path
+      path={shapePath}
+      style="stroke"
+      strokeWidth={element.strokeWidth}
+      color={element.stroke}
+    />
+  );
+
+  switch (element.type) {
+    case 'text':
+      if (!paragraph) return null;
+      return (
+        <Group opacity={element.opacity}>
+          <Paragraph paragraph={paragraph} x={x} y={y} width={width} />
+        </Group>
+      );
+
+    case 'shape':
+      if (!shapePath) return null;
+      return (
+        <Group>
+          {element.fill && <Path path={shapePath} color={element.fill} opacity={element.opacity} />}
+          {outline}
+        </Group>
+      );
+
+    case 'image':
+    case 'logo': {
+      if (!image && !element.fill) return null;
+      const imageRect = getImageRect(element);
+      return (
+        <Group>
+          <Group clip={shapePath ?? undefined} opacity={element.opacity}>
+            {image ? (
+              <Image
+                image={image}
+                {...imageRect}
+                fit={element.type === 'logo' ? 'contain' : 'cover'}
+              />
+            ) : (
+              <Rect {...imageRect} color={element.fill} opacity={PLACEHOLDER_OPACITY} />
+            )}
+          </Group>
+          {outline}
+        </Group>
+      );
+    }
+
+    case 'qr':
+      if (!qrPath) return null;
+      return (
+        <Group opacity={element.opacity}>
+          <Rect {...getCenteredSquare(element.rect)} color={QR_LIGHT_COLOR} />
+          <Path path={qrPath} color={element.fill ?? QR_DARK_COLOR} />
+        </Group>
+      );
+
+    // Composite elements (socials) are drawn through their child primitives
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import {
+  Rect,
+  LinearGradient,
+  vec,
+  Fill,
+  type SkImage,
+  type SkParagraph,
+} from '@shopify/react-native-skia';
+import { PosterElement } from './PosterElement';
+import type { PosterStyle, SceneElement } from '@/lib/poster';
+
+interface PosterSceneProps {
+  width: number;
+  height: number;
+  style: PosterStyle;
+  scene: SceneElement[];
+  /** Index-aligned with `scene` */
+  paragraphs: (SkParagraph | null)[];
+  /** Index-aligned with `scene` */
+  images: (SkImage | null)[];
+}
+
+/**
+ * Pure poster drawing. Takes fully prepared paragraphs and images so it can be
+ * rendered both inside an on-screen Canvas and offscreen for export.
+ */
+export function PosterScene({ width, height, style, scene, paragraphs, images }: PosterSceneProps) {
+  return (
+    <>
+      <Fill color={style.backgroundColor} />
+      <Rect x={0} y={0} width={width} height={height}>
+        <LinearGradient start={vec(0, 0)} end={vec(width, height)} colors={style.gradientColors} />
+      </Rect>
+
+      {scene.map((element, index) => (
+        <PosterElement
+          key={element.id}
+          element={element}
+          paragraph={paragraphs[index]}
+          image={images[index]}
+        />
+      ))}
+    </>
+  );
+}
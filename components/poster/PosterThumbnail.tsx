@@ -0,0 +1,37 @@
+import { Suspense } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { AsyncSkia } from '@/components/async-skia';
+import { Colors } from '@/constants';
+import type { PosterContent } from '@/lib/poster';
+import { PosterCanvas } from './PosterCanvas';
+
+interface PosterThumbnailProps extends PosterContent {
+  width: number;
+  height: number;
+}
+
+/**
+ * PosterCanvas with its own loading state, for lists of posters.
+ */
+export function PosterThumbnail({ width, height, ...content }: PosterThumbnailProps) {
+  return (
+    <Suspense
+      fallback={
+        <View style={[styles.fallback, { width, height }]}>
+          <ActivityIndicator color={Colors.primary} />
+        </View>
+      }
+    >
+      <AsyncSkia />
+      <PosterCanvas width={width} height={height} {...content} />
+    </Suspense>
+  );
+}
+
+const styles = StyleSheet.create({
+  fallback: {
+    backgroundColor: Colors.inputBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
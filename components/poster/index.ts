@@ -1,2 +1,8 @@
 export { PosterCanvas } from './PosterCanvas';
-export { useImageLoader, useMultipleImages, clearImageCache } from './useImageLoader';
+export { useImageLoader, useMultipleImages, loadImage, clearImageCache } from './useImageLoader';
+export { useFontProvider } from './useFontLoader';
+export { PosterScene } from './PosterScene';
+export { rasterizePoster } from './rasterizePoster';
+export { renderPosterPdf } from './renderPosterPdf';
+export { renderPosterSvg } from './renderPosterSvg';
+export { PosterThumbnail } from './PosterThumbnail';
@@ -0,0 +1,65 @@
+import React from 'react';
+import { drawAsImage, ImageFormat } from '@shopify/react-native-skia';
+import { ensureSkiaLoaded } from '@/components/async-skia';
+import { loadFonts } from '@/lib/skia';
+import {
+  buildScene,
+  createBindings,
+  createSceneParagraphs,
+  getPalette,
+  getSceneFontFamilies,
+  resolvePosterStyle,
+  type PosterContent,
+} from '@/lib/poster';
+import { MIME_TYPES, type ExportedImage, type RasterOptions } from '@/lib/export';
+import { PosterScene } from './PosterScene';
+import { loadImage } from './useImageLoader';
+import type { ExportSize } from '@/types';
+
+const DEFAULT_JPEG_QUALITY = 90;
+
+/**
+ * Render a poster offscreen at exact pixel dimensions and encode it.
+ *
+ * Uses the same scene as PosterCanvas, so exports match the preview. Images are
+ * fetched up front because offscreen rendering only performs a single pass.
+ */
+export async function rasterizePoster(
+  content: PosterContent,
+  size: ExportSize,
+  { format = 'png', quality = DEFAULT_JPEG_QUALITY }: RasterOptions = {}
+): Promise<ExportedImage> {
+  await ensureSkiaLoaded();
+
+  const style = resolvePosterStyle(content);
+  const bindings = createBindings(content.event, content.user, getPalette(style));
+  const scene = buildScene(style, bindings, size);
+  const fontProvider = await loadFonts(getSceneFontFamilies(scene));
+  const paragraphs = createSceneParagraphs(scene, style.textColor, fontProvider);
+  const images = await Promise.all(scene.map((element) => loadImage(element.imageUrl)));
+
+  const image = await drawAsImage(
+    <PosterScene
+      width={size.width}
+      height={size.height}
+      style={style}
+      scene={scene}
+      paragraphs={paragraphs}
+      images={images}
+    />,
+    size
+  );
+
+  const bytes =
+    format === 'jpeg'
+      ? image.encodeToBytes(ImageFormat.JPEG, quality)
+      : image.encodeToBytes(ImageFormat.PNG);
+
+  return {
+    bytes,
+    width: size.width,
+    height: size.height,
+    format,
+    mimeType: MIME_TYPES[format],
+  };
+}
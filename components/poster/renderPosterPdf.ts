@@ -0,0 +1,37 @@
+import type { PosterContent } from '@/lib/poster';
+import {
+  createPdf,
+  getPrintLayout,
+  MIME_TYPES,
+  type ExportedImage,
+  type PrintOptions,
+} from '@/lib/export';
+import { rasterizePoster } from './rasterizePoster';
+
+const PRINT_JPEG_QUALITY = 95;
+
+/**
+ * Render a poster as a print-ready PDF page.
+ *
+ * react-native-skia doesn't expose Skia's PDF backend, so the poster is
+ * rasterized at print resolution and placed over the bleed area, with crop
+ * marks drawn as vector lines around it.
+ */
+export async function renderPosterPdf(
+  content: PosterContent,
+  options: PrintOptions
+): Promise<ExportedImage> {
+  const { raster, page } = getPrintLayout(options);
+  const image = await rasterizePoster(content, raster, {
+    format: 'jpeg',
+    quality: PRINT_JPEG_QUALITY,
+  });
+
+  return {
+    bytes: createPdf(page, image),
+    width: image.width,
+    height: image.height,
+    format: 'pdf',
+    mimeType: MIME_TYPES.pdf,
+  };
+}
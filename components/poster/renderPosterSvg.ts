@@ -0,0 +1,72 @@
+import { ensureSkiaLoaded } from '@/components/async-skia';
+import { loadFonts } from '@/lib/skia';
+import {
+  buildScene,
+  createBindings,
+  createPosterSvg,
+  createSceneParagraphs,
+  getPalette,
+  getSceneFontFamilies,
+  resolvePosterStyle,
+  type PosterContent,
+} from '@/lib/poster';
+import { bytesToBase64, MIME_TYPES, type ExportedImage } from '@/lib/export';
+import type { ExportSize } from '@/types';
+
+/**
+ * Fetch an image as a data URI so the SVG doesn't depend on remote URLs.
+ * Resolves to null when it can't be loaded, like loadImage.
+ */
+const toEmbeddedImage = async (url: string | undefined): Promise<string | null> => {
+  if (!url) return null;
+  if (url.startsWith('data:')) return url;
+  if (!url.startsWith('http://') && !url.startsWith('https://')) return null;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const mimeType = response.headers.get('content-type') ?? 'image/png';
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+  } catch (err) {
+    console.warn('Failed to embed image:', url, err);
+    return null;
+  }
+};
+
+/**
+ * Serialize a poster as an editable, self-contained SVG.
+ *
+ * Skia is only used to lay out text, so lines break where they do in the
+ * preview; the text itself stays editable.
+ */
+export async function renderPosterSvg(
+  content: PosterContent,
+  size: ExportSize
+): Promise<ExportedImage> {
+  await ensureSkiaLoaded();
+
+  const style = resolvePosterStyle(content);
+  const bindings = createBindings(content.event, content.user, getPalette(style));
+  const scene = buildScene(style, bindings, size);
+  const fontProvider = await loadFonts(getSceneFontFamilies(scene));
+  const paragraphs = createSceneParagraphs(scene, style.textColor, fontProvider);
+  const images = await Promise.all(scene.map((element) => toEmbeddedImage(element.imageUrl)));
+
+  const svg = createPosterSvg({
+    width: size.width,
+    height: size.height,
+    style,
+    scene,
+    paragraphs,
+    images,
+  });
+
+  return {
+    bytes: new TextEncoder().encode(svg),
+    width: size.width,
+    height: size.height,
+    format: 'svg',
+    mimeType: MIME_TYPES.svg,
+  };
+}
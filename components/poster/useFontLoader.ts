@@ -0,0 +1,27 @@
+import { use } from 'react';
+import type { SkTypefaceFontProvider } from '@shopify/react-native-skia';
+import { isKnownFontFamily, loadFonts } from '@/lib/skia';
+
+// One promise per set of families, so suspending renders wait on the same load
+const fontLoads = new Map<string, Promise<SkTypefaceFontProvider>>();
+
+/**
+ * The shared font provider with the given families loaded. Suspends until
+ * they are, so text is never laid out in a fallback font first. Call only
+ * once Skia is loaded.
+ */
+export function useFontProvider(families: string[]): SkTypefaceFontProvider {
+  const known = [...new Set(families.filter(isKnownFontFamily))].sort();
+  const key = known.join('|');
+
+  let loading = fontLoads.get(key);
+  if (loading) {
+    // Faces that failed last time are fetched again in the background;
+    // loadFonts does nothing for those already loaded
+    void loadFonts(known);
+  } else {
+    loading = loadFonts(known);
+    fontLoads.set(key, loading);
+  }
+  return use(loading);
+}
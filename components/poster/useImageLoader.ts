@@ -5,6 +5,48 @@ type ImageCache = Record<string, SkImage | null>;
 
 const imageCache: ImageCache = {};
 
+const isLoadableUrl = (url: string | undefined): url is string => {
+  if (!url || url === 'null' || url === 'undefined') return false;
+  return url.startsWith('http://') || url.startsWith('https://') || url.startsWith('data:');
+};
+
+// base64 data URIs (picked photos, crops) are decoded directly rather than
+// going through fetch, which not every native runtime supports for data:
+const BASE64_DATA_URI = /^data:[^;,]*;base64,/;
+
+const fetchImageData = async (url: string) => {
+  const base64 = BASE64_DATA_URI.exec(url);
+  if (base64) return Skia.Data.fromBase64(url.slice(base64[0].length));
+
+  const response = await fetch(url);
+  const arrayBuffer = await response.arrayBuffer();
+  return Skia.Data.fromBytes(new Uint8Array(arrayBuffer));
+};
+
+/**
+ * Fetch and decode an image into a Skia image, sharing the hook cache.
+ * Resolves to null instead of throwing so a broken image never blocks a render.
+ */
+export async function loadImage(url: string | undefined): Promise<SkImage | null> {
+  if (!isLoadableUrl(url)) return null;
+
+  const cached = imageCache[url];
+  if (cached) return cached;
+
+  try {
+    const skData = await fetchImageData(url);
+    const loadedImage = Skia.Image.MakeImageFromEncoded(skData);
+
+    if (loadedImage) {
+      imageCache[url] = loadedImage;
+    }
+    return loadedImage;
+  } catch (err) {
+    console.warn('Failed to load image:', url, err);
+    return null;
+  }
+}
+
 export function useImageLoader(url: string | undefined): SkImage | null {
   const [image, setImage] = useState<SkImage | null>(url ? imageCache[url] ?? null : null);
   const mountedRef = useRef(true);
@@ -17,12 +59,7 @@ export function useImageLoader(url: string | undefined): SkImage | null {
   }, []);
 
   useEffect(() => {
-    if (!url || url === 'null' || url === 'undefined') {
-      setImage(null);
-      return;
-    }
-
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    if (!isLoadableUrl(url)) {
       setImage(null);
       return;
     }
@@ -32,26 +69,11 @@ export function useImageLoader(url: string | undefined): SkImage | null {
       return;
     }
 
-    const loadImage = async () => {
-      try {
-        const response = await fetch(url);
-        const arrayBuffer = await response.arrayBuffer();
-        const data = new Uint8Array(arrayBuffer);
-        const skData = Skia.Data.fromBytes(data);
-        const loadedImage = Skia.Image.MakeImageFromEncoded(skData);
-
-        if (loadedImage) {
-          imageCache[url] = loadedImage;
-          if (mountedRef.current) {
-            setImage(loadedImage);
-          }
-        }
-      } catch (err) {
-        console.warn('Failed to load image:', url, err);
+    void loadImage(url).then((loadedImage) => {
+      if (loadedImage && mountedRef.current) {
+        setImage(loadedImage);
       }
-    };
-
-    void loadImage();
+    });
   }, [url]);
 
   return image;
@@ -73,28 +95,7 @@ export function useMultipleImages(urls: (string | undefined)[]): (SkImage | null
 
   useEffect(() => {
     const loadImages = async () => {
-      const results = await Promise.all(
-        urls.map(async (url) => {
-          if (!url) return null;
-          if (imageCache[url]) return imageCache[url];
-
-          try {
-            const response = await fetch(url);
-            const arrayBuffer = await response.arrayBuffer();
-            const data = new Uint8Array(arrayBuffer);
-            const skData = Skia.Data.fromBytes(data);
-            const loadedImage = Skia.Image.MakeImageFromEncoded(skData);
-
-            if (loadedImage) {
-              imageCache[url] = loadedImage;
-              return loadedImage;
-            }
-          } catch (err) {
-            console.warn('Failed to load image:', url, err);
-          }
-          return null;
-        })
-      );
+      const results = await Promise.all(urls.map(loadImage));
 
       if (mountedRef.current) {
         setImages(results);
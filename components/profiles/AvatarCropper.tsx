@@ -0,0 +1,196 @@
+import { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, type GestureResponderEvent } from 'react-native';
+import { Canvas, Group, Image, Path, Skia } from '@shopify/react-native-skia';
+import { useSkiaLoaded } from '@/components/async-skia';
+import { useImageLoader } from '@/components/poster';
+import { Button } from '@/components/ui';
+import { createHexagonPath } from '@/lib/skia';
+import {
+  DEFAULT_CROP,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampCrop,
+  getCropImageRect,
+  panCrop,
+  type AvatarCrop,
+  type ImageSize,
+} from '@/lib/media';
+import { Colors, Spacing, Typography } from '@/constants';
+
+interface AvatarCropperProps {
+  uri: string;
+  size: number;
+  onCancel: () => void;
+  onConfirm: (crop: AvatarCrop) => void;
+  isProcessing?: boolean;
+}
+
+const ZOOM_STEP = 0.25;
+// Photo outside the hexagon is dimmed rather than hidden so it can be dragged in
+const OUTSIDE_OPACITY = 0.3;
+
+const getTouchDistance = (event: GestureResponderEvent): number | null => {
+  const [a, b] = event.nativeEvent.touches;
+  if (!a || !b) return null;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+/**
+ * Drag and pinch (or use the zoom buttons) to frame a photo inside the
+ * hexagon mask used on posters.
+ */
+export function AvatarCropper({
+  uri,
+  size,
+  onCancel,
+  onConfirm,
+  isProcessing = false,
+}: AvatarCropperProps) {
+  useSkiaLoaded();
+  const image = useImageLoader(uri);
+  const [crop, setCrop] = useState<AvatarCrop>(DEFAULT_CROP);
+
+  const imageSize = useMemo<ImageSize | null>(
+    () => (image ? { width: image.width(), height: image.height() } : null),
+    [image]
+  );
+
+  const hexagon = useMemo(
+    () => Skia.Path.MakeFromSVGString(createHexagonPath(size / 2, size / 2, size / 2)),
+    [size]
+  );
+
+  // Gesture handlers are created once; read the latest values through a ref
+  const latest = useRef({ crop, imageSize, size });
+  latest.current = { crop, imageSize, size };
+  const gesture = useRef<{ start: AvatarCrop; distance: number | null }>({
+    start: DEFAULT_CROP,
+    distance: null,
+  });
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: (event) => {
+          gesture.current = { start: latest.current.crop, distance: getTouchDistance(event) };
+        },
+        onPanResponderMove: (event, { dx, dy }) => {
+          const { imageSize: current, size: viewport } = latest.current;
+          if (!current) return;
+
+          const distance = getTouchDistance(event);
+          const { start } = gesture.current;
+          if (distance && gesture.current.distance) {
+            setCrop(
+              clampCrop(current, { ...start, zoom: start.zoom * (distance / gesture.current.distance) })
+            );
+          } else if (distance) {
+            // Second finger just landed: restart from here so the zoom doesn't jump
+            gesture.current = { start: latest.current.crop, distance };
+          } else {
+            setCrop(panCrop(current, start, dx, dy, viewport));
+          }
+        },
+      }),
+    []
+  );
+
+  const setZoom = (zoom: number) => {
+    if (imageSize) setCrop(clampCrop(imageSize, { ...crop, zoom }));
+  };
+
+  const rect = imageSize ? getCropImageRect(imageSize, crop, size) : null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>Drag to position, pinch or use the buttons to zoom</Text>
+
+      <View style={[styles.viewport, { width: size, height: size }]} {...panResponder.panHandlers}>
+        <Canvas style={{ width: size, height: size }}>
+          {image && rect && hexagon && (
+            <>
+              <Image image={image} {...rect} fit="fill" opacity={OUTSIDE_OPACITY} />
+              <Group clip={hexagon}>
+                <Image image={image} {...rect} fit="fill" />
+              </Group>
+              <Path path={hexagon} style="stroke" strokeWidth={2} color={Colors.background} />
+            </>
+          )}
+        </Canvas>
+      </View>
+
+      <View style={styles.zoomRow}>
+        <Button
+          variant="secondary"
+          size="sm"
+          onPress={() => setZoom(crop.zoom - ZOOM_STEP)}
+          disabled={!imageSize || crop.zoom <= MIN_ZOOM}
+        >
+          −
+        </Button>
+        <Text style={styles.zoomText}>{Math.round(crop.zoom * 100)}%</Text>
+        <Button
+          variant="secondary"
+          size="sm"
+          onPress={() => setZoom(crop.zoom + ZOOM_STEP)}
+          disabled={!imageSize || crop.zoom >= MAX_ZOOM}
+        >
+          +
+        </Button>
+      </View>
+
+      <View style={styles.actions}>
+        <Button variant="ghost" onPress={onCancel} style={styles.action}>
+          Cancel
+        </Button>
+        <Button
+          onPress={() => onConfirm(crop)}
+          loading={isProcessing}
+          disabled={!imageSize}
+          style={styles.action}
+        >
+          Use Photo
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  hint: {
+    ...Typography.bodySmall,
+    color: Colors.muted,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  viewport: {
+    backgroundColor: Colors.text,
+    overflow: 'hidden',
+  },
+  zoomRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  zoomText: {
+    ...Typography.body,
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  action: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { Canvas, Group, Image, Path, Skia } from '@shopify/react-native-skia';
+import { useSkiaLoaded } from '@/components/async-skia';
+import { useImageLoader } from '@/components/poster';
+import { createHexagonPath } from '@/lib/skia';
+import { Colors } from '@/constants';
+
+interface AvatarPreviewProps {
+  uri?: string | null;
+  size: number;
+}
+
+/**
+ * Profile photo clipped to the hexagon the poster draws it in.
+ */
+export function AvatarPreview({ uri, size }: AvatarPreviewProps) {
+  useSkiaLoaded();
+  const image = useImageLoader(uri ?? undefined);
+
+  const hexagon = useMemo(
+    () => Skia.Path.MakeFromSVGString(createHexagonPath(size / 2, size / 2, size / 2)),
+    [size]
+  );
+
+  return (
+    <Canvas style={{ width: size, height: size }}>
+      {hexagon && (
+        <Group clip={hexagon}>
+          {image ? (
+            <Image image={image} x={0} y={0} width={size} height={size} fit="cover" />
+          ) : (
+            <Path path={hexagon} color={Colors.inputBg} />
+          )}
+        </Group>
+      )}
+    </Canvas>
+  );
+}
@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import {
   Modal,
+  Alert,
+  ActivityIndicator,
   View,
   Text,
   ScrollView,
@@ -11,18 +13,34 @@ import {
 } from 'react-native';
 import { Colors, Spacing, Typography } from '@/constants';
 import { Button, Input } from '@/components/ui';
-import type { Profile, CreateProfileDto, UpdateProfileDto } from '@/types';
+import { getErrorMessage, getFieldErrors, getIndexedFieldErrors, pickFieldErrors } from '@/lib/api';
+import { AsyncSkia } from '@/components/async-skia';
+import { useAvatarUpload } from '@/lib/hooks/useAvatarUpload';
+import { pickImage, type AvatarCrop } from '@/lib/media';
+import { normalizeSocialLinks } from '@/lib/social';
+import { AvatarCropper } from './AvatarCropper';
+import { AvatarPreview } from './AvatarPreview';
+import { rasterizeAvatar } from './rasterizeAvatar';
+import { SocialLinksEditor } from './SocialLinksEditor';
+import type { Profile, CreateProfileDto, UpdateProfileDto, SocialLink } from '@/types';
 
 interface ProfileFormModalProps {
   visible: boolean;
   profile?: Profile | null;
   onClose: () => void;
+  /** A rejection is shown in the form: field errors on their inputs, anything else in an alert */
   onSave: (data: CreateProfileDto | UpdateProfileDto) => Promise<void>;
   onDelete?: () => void;
   isSaving?: boolean;
   isDeleting?: boolean;
 }
 
+// Inputs that can show a server field error; social link rows are handled separately
+const PROFILE_FORM_FIELDS = ['name', 'title', 'company'];
+
+const AVATAR_PREVIEW_SIZE = 96;
+const CROPPER_SIZE = 280;
+
 export function ProfileFormModal({
   visible,
   profile,
@@ -36,7 +54,15 @@ export function ProfileFormModal({
   const [name, setName] = useState('');
   const [title, setTitle] = useState('');
   const [company, setCompany] = useState('');
+  const [socialLinks, setSocialLinks] = useState<SocialLink[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [linkErrors, setLinkErrors] = useState<Record<number, string>>({});
+  // Photo being framed in the cropper, before it replaces the avatar
+  const [pickedUri, setPickedUri] = useState<string | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [isFinishingUpload, setIsFinishingUpload] = useState(false);
+  const avatar = useAvatarUpload();
+  const resetAvatar = avatar.reset;
 
   useEffect(() => {
     if (visible) {
@@ -44,14 +70,42 @@ export function ProfileFormModal({
         setName(profile.name);
         setTitle(profile.title);
         setCompany(profile.company ?? '');
+        setSocialLinks(profile.socialLinks);
       } else {
         setName('');
         setTitle('');
         setCompany('');
+        setSocialLinks([]);
       }
       setErrors({});
+      setLinkErrors({});
+      setPickedUri(null);
+      resetAvatar();
     }
-  }, [visible, profile]);
+  }, [visible, profile, resetAvatar]);
+
+  const handleChoosePhoto = async () => {
+    try {
+      const picked = await pickImage();
+      if (picked) setPickedUri(picked.uri);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Could not open your photos');
+    }
+  };
+
+  // Crop locally, then upload in the background while the form stays editable
+  const handleCropConfirm = async (crop: AvatarCrop) => {
+    if (!pickedUri) return;
+    setIsCropping(true);
+    try {
+      avatar.upload(await rasterizeAvatar(pickedUri, crop));
+      setPickedUri(null);
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Could not crop the photo');
+    } finally {
+      setIsCropping(false);
+    }
+  };
 
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -61,18 +115,63 @@ export function ProfileFormModal({
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSave = () => {
-    if (!validate()) return;
+  // Empty rows are dropped; the rest are normalized to full URLs
+  const validateLinks = (): SocialLink[] | null => {
+    const filled = socialLinks.filter((link) => link.url.trim());
+    const { links, errors: newLinkErrors } = normalizeSocialLinks(filled);
+    setSocialLinks(links);
+    setLinkErrors(newLinkErrors);
+    return Object.keys(newLinkErrors).length === 0 ? links : null;
+  };
+
+  const handleSave = async () => {
+    const isValid = validate();
+    const links = validateLinks();
+    if (!isValid || !links) return;
+
+    let avatarUrl: string | null;
+    setIsFinishingUpload(true);
+    try {
+      avatarUrl = await avatar.waitForUpload();
+    } catch {
+      // Shown below the photo from the upload hook's error
+      return;
+    } finally {
+      setIsFinishingUpload(false);
+    }
 
     const data: CreateProfileDto | UpdateProfileDto = {
       name: name.trim(),
       title: title.trim(),
       company: company.trim() || undefined,
+      socialLinks: links,
+      // Only sent when a new photo was chosen, so the existing one is kept otherwise
+      ...(avatarUrl && { avatarUrl }),
     };
 
-    void onSave(data);
+    try {
+      await onSave(data);
+    } catch (err) {
+      const fieldErrors = getFieldErrors(err) ?? {};
+      const inputErrors = pickFieldErrors(fieldErrors, PROFILE_FORM_FIELDS);
+      const rowErrors = getIndexedFieldErrors(fieldErrors, 'socialLinks', 'url');
+      // Errors on fields the form doesn't show (e.g. avatarUrl) go to the alert
+      if (Object.keys(inputErrors).length > 0 || Object.keys(rowErrors).length > 0) {
+        setErrors(inputErrors);
+        setLinkErrors(rowErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(err, 'Failed to save profile. Please try again.'));
+    }
   };
 
+  const avatarUri = avatar.previewUri ?? profile?.avatarUrl;
+  const avatarStatus = avatar.isUploading
+    ? 'Uploading photo...'
+    : avatar.error
+      ? 'Upload failed. Choose the photo again to retry.'
+      : null;
+
   return (
     <Modal
       visible={visible}
@@ -88,9 +187,7 @@ export function ProfileFormModal({
           <Pressable onPress={onClose} hitSlop={8}>
             <Text style={styles.cancelButton}>Cancel</Text>
           </Pressable>
-          <Text style={styles.headerTitle}>
-            {isEditing ? 'Edit Profile' : 'New Profile'}
-          </Text>
+          <Text style={styles.headerTitle}>{isEditing ? 'Edit Profile' : 'New Profile'}</Text>
           <View style={styles.headerRight} />
         </View>
 
@@ -99,49 +196,92 @@ export function ProfileFormModal({
           contentContainerStyle={styles.content}
           keyboardShouldPersistTaps="handled"
         >
-          <Input
-            label="Name"
-            placeholder="Your full name"
-            value={name}
-            onChangeText={setName}
-            error={errors.name}
-            autoCapitalize="words"
-            autoCorrect={false}
-          />
-
-          <Input
-            label="Title"
-            placeholder="e.g., Software Engineer"
-            value={title}
-            onChangeText={setTitle}
-            error={errors.title}
-            autoCapitalize="words"
-          />
-
-          <Input
-            label="Company (optional)"
-            placeholder="Where do you work?"
-            value={company}
-            onChangeText={setCompany}
-            autoCapitalize="words"
-          />
-
-          <View style={styles.actions}>
-            <Button onPress={handleSave} loading={isSaving} fullWidth>
-              {isEditing ? 'Save Changes' : 'Create Profile'}
-            </Button>
-
-            {isEditing && onDelete && (
-              <Button
-                variant="danger"
-                onPress={onDelete}
-                loading={isDeleting}
-                fullWidth
-              >
-                Delete Profile
-              </Button>
-            )}
-          </View>
+          {pickedUri ? (
+            <Suspense fallback={<ActivityIndicator color={Colors.primary} />}>
+              <AsyncSkia />
+              <AvatarCropper
+                uri={pickedUri}
+                size={CROPPER_SIZE}
+                onCancel={() => setPickedUri(null)}
+                onConfirm={(crop) => void handleCropConfirm(crop)}
+                isProcessing={isCropping}
+              />
+            </Suspense>
+          ) : (
+            <>
+              <View style={styles.avatarSection}>
+                <Suspense
+                  fallback={
+                    <View style={{ width: AVATAR_PREVIEW_SIZE, height: AVATAR_PREVIEW_SIZE }} />
+                  }
+                >
+                  <AsyncSkia />
+                  <AvatarPreview uri={avatarUri} size={AVATAR_PREVIEW_SIZE} />
+                </Suspense>
+                <Button variant="ghost" size="sm" onPress={() => void handleChoosePhoto()}>
+                  {avatarUri ? 'Change Photo' : 'Choose Photo'}
+                </Button>
+                {avatarStatus && (
+                  <Text style={[styles.avatarStatus, avatar.error && styles.avatarError]}>
+                    {avatarStatus}
+                  </Text>
+                )}
+              </View>
+
+              <Input
+                label="Name"
+                placeholder="Your full name"
+                value={name}
+                onChangeText={setName}
+                error={errors.name}
+                autoCapitalize="words"
+                autoCorrect={false}
+              />
+
+              <Input
+                label="Title"
+                placeholder="e.g., Software Engineer"
+                value={title}
+                onChangeText={setTitle}
+                error={errors.title}
+                autoCapitalize="words"
+              />
+
+              <Input
+                label="Company (optional)"
+                placeholder="Where do you work?"
+                value={company}
+                onChangeText={setCompany}
+                error={errors.company}
+                autoCapitalize="words"
+              />
+
+              <SocialLinksEditor
+                links={socialLinks}
+                errors={linkErrors}
+                onChange={(links) => {
+                  setSocialLinks(links);
+                  setLinkErrors({});
+                }}
+              />
+
+              <View style={styles.actions}>
+                <Button
+                  onPress={() => void handleSave()}
+                  loading={isSaving || isFinishingUpload}
+                  fullWidth
+                >
+                  {isEditing ? 'Save Changes' : 'Create Profile'}
+                </Button>
+
+                {isEditing && onDelete && (
+                  <Button variant="danger" onPress={onDelete} loading={isDeleting} fullWidth>
+                    Delete Profile
+                  </Button>
+                )}
+              </View>
+            </>
+          )}
         </ScrollView>
       </KeyboardAvoidingView>
     </Modal>
@@ -178,6 +318,17 @@ const styles = StyleSheet.create({
   content: {
     padding: Spacing.lg,
   },
+  avatarSection: {
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  avatarStatus: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+  avatarError: {
+    color: Colors.danger,
+  },
   actions: {
     marginTop: Spacing.lg,
     gap: Spacing.sm,
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Button, Input } from '@/components/ui';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+import { SOCIAL_PLATFORMS, SOCIAL_PLATFORM_ORDER, normalizeSocialLink } from '@/lib/social';
+import type { SocialLink, SocialPlatform } from '@/types';
+
+interface SocialLinksEditorProps {
+  links: SocialLink[];
+  /** Errors keyed by row index */
+  errors: Record<number, string>;
+  onChange: (links: SocialLink[]) => void;
+}
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  if (item !== undefined) next.splice(to, 0, item);
+  return next;
+};
+
+export function SocialLinksEditor({ links, errors, onChange }: SocialLinksEditorProps) {
+  // Row whose platform picker is open
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
+
+  const updateLink = (index: number, changes: Partial<SocialLink>) =>
+    onChange(links.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+
+  const handleAdd = () => {
+    const unused =
+      SOCIAL_PLATFORM_ORDER.find((platform) => !links.some((link) => link.platform === platform)) ??
+      'website';
+    onChange([...links, { platform: unused, url: '' }]);
+  };
+
+  const handleRemove = (index: number) => {
+    setPickerIndex(null);
+    onChange(links.filter((_, i) => i !== index));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setPickerIndex(null);
+    onChange(move(links, index, index + offset));
+  };
+
+  const handleSelectPlatform = (index: number, platform: SocialPlatform) => {
+    setPickerIndex(null);
+    updateLink(index, { platform });
+  };
+
+  // Show the normalized URL once the user is done typing
+  const handleBlur = (index: number) => {
+    const link = links[index];
+    if (!link?.url.trim()) return;
+    const result = normalizeSocialLink(link.platform, link.url);
+    if (result.ok && result.url !== link.url) updateLink(index, { url: result.url });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Social Links</Text>
+
+      {links.map((link, index) => (
+        <View key={index} style={styles.linkRow}>
+          <View style={styles.rowHeader}>
+            <Pressable
+              style={styles.platformButton}
+              onPress={() => setPickerIndex(pickerIndex === index ? null : index)}
+            >
+              <Text style={styles.platformText}>{SOCIAL_PLATFORMS[link.platform].label}</Text>
+              <Text style={styles.chevron}>▼</Text>
+            </Pressable>
+
+            <View style={styles.rowActions}>
+              <Pressable
+                onPress={() => handleMove(index, -1)}
+                disabled={index === 0}
+                hitSlop={6}
+                accessibilityLabel="Move up"
+              >
+                <Text style={[styles.actionText, index === 0 && styles.actionDisabled]}>↑</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => handleMove(index, 1)}
+                disabled={index === links.length - 1}
+                hitSlop={6}
+                accessibilityLabel="Move down"
+              >
+                <Text
+                  style={[styles.actionText, index === links.length - 1 && styles.actionDisabled]}
+                >
+                  ↓
+                </Text>
+              </Pressable>
+              <Pressable onPress={() => handleRemove(index)} hitSlop={6} accessibilityLabel="Remove">
+                <Text style={[styles.actionText, styles.removeText]}>✕</Text>
+              </Pressable>
+            </View>
+          </View>
+
+          {pickerIndex === index && (
+            <View style={styles.picker}>
+              {SOCIAL_PLATFORM_ORDER.map((platform) => {
+                const isSelected = platform === link.platform;
+                return (
+                  <Pressable
+                    key={platform}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => handleSelectPlatform(index, platform)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {SOCIAL_PLATFORMS[platform].label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          <Input
+            placeholder={SOCIAL_PLATFORMS[link.platform].placeholder}
+            value={link.url}
+            onChangeText={(url) => updateLink(index, { url })}
+            onBlur={() => handleBlur(index)}
+            error={errors[index]}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            containerStyle={styles.input}
+          />
+        </View>
+      ))}
+
+      <Button variant="ghost" size="sm" onPress={handleAdd}>
+        + Add Link
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+  },
+  label: {
+    ...Typography.bodySmall,
+    fontWeight: '500',
+    marginBottom: Spacing.xs,
+    color: Colors.text,
+  },
+  linkRow: {
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  platformButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: 4,
+  },
+  platformText: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  chevron: {
+    fontSize: 10,
+    color: Colors.muted,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
+  actionText: {
+    fontSize: 16,
+    color: Colors.primary,
+  },
+  actionDisabled: {
+    color: Colors.border,
+  },
+  removeText: {
+    color: Colors.danger,
+  },
+  picker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary + '08',
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  input: {
+    marginBottom: 0,
+  },
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { drawAsImage, Image, ImageFormat } from '@shopify/react-native-skia';
+import { ensureSkiaLoaded } from '@/components/async-skia';
+import { loadImage } from '@/components/poster';
+import { MIME_TYPES, type ExportedImage } from '@/lib/export';
+import { getCropImageRect, type AvatarCrop } from '@/lib/media';
+
+/** Output size of uploaded avatars, comfortably above the largest poster photo */
+export const AVATAR_SIZE = 512;
+const AVATAR_JPEG_QUALITY = 90;
+
+/**
+ * Render the cropped square of a photo offscreen and encode it as JPEG.
+ * The square is stored unmasked; posters apply the hexagon clip when drawing.
+ */
+export async function rasterizeAvatar(
+  uri: string,
+  crop: AvatarCrop,
+  size: number = AVATAR_SIZE
+): Promise<ExportedImage> {
+  await ensureSkiaLoaded();
+
+  const image = await loadImage(uri);
+  if (!image) {
+    throw new Error('Could not read the selected photo');
+  }
+
+  const rect = getCropImageRect({ width: image.width(), height: image.height() }, crop, size);
+  const output = await drawAsImage(<Image image={image} {...rect} fit="fill" />, {
+    width: size,
+    height: size,
+  });
+
+  return {
+    bytes: output.encodeToBytes(ImageFormat.JPEG, AVATAR_JPEG_QUALITY),
+    width: size,
+    height: size,
+    format: 'jpeg',
+    mimeType: MIME_TYPES.jpeg,
+  };
+}
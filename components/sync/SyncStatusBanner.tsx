@@ -0,0 +1,121 @@
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Button } from '@/components/ui';
+import { discardSyncIssue, retrySyncIssue, syncNow } from '@/lib/offline';
+import {
+  usePendingCount,
+  useSyncIssues,
+  useSyncStatus,
+  type QueuedMutation,
+} from '@/lib/stores/syncStore';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants';
+
+const RESOURCE_LABELS: Record<QueuedMutation['resource'], string> = {
+  profiles: 'Profile',
+  posters: 'Poster',
+};
+
+const METHOD_LABELS: Record<QueuedMutation['method'], string> = {
+  create: 'created',
+  update: 'edited',
+  delete: 'deleted',
+};
+
+const pluralize = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+/**
+ * Offline and sync state, plus queued changes the server refused.
+ * Renders nothing while everything is synced.
+ */
+export function SyncStatusBanner() {
+  const status = useSyncStatus();
+  const pendingCount = usePendingCount();
+  const issues = useSyncIssues();
+
+  if (status === 'synced' && issues.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {status === 'offline' && (
+        <View style={[styles.banner, styles.bannerOffline]}>
+          <Text style={styles.text}>
+            {pendingCount > 0
+              ? `You're offline. ${pluralize(pendingCount)} will sync when you reconnect.`
+              : "You're offline. Showing saved data."}
+          </Text>
+        </View>
+      )}
+
+      {status === 'syncing' && (
+        <View style={styles.banner}>
+          <ActivityIndicator size="small" color={Colors.primary} />
+          <Text style={styles.text}>Syncing {pluralize(pendingCount)}...</Text>
+        </View>
+      )}
+
+      {status === 'pending' && (
+        <View style={styles.banner}>
+          <Text style={[styles.text, styles.flex]}>{pluralize(pendingCount)} waiting to sync</Text>
+          <Button variant="ghost" size="sm" onPress={() => void syncNow()}>
+            Sync Now
+          </Button>
+        </View>
+      )}
+
+      {issues.map(({ mutation, reason, message }) => (
+        <View key={mutation.id} style={[styles.banner, styles.bannerIssue]}>
+          <View style={styles.flex}>
+            <Text style={styles.issueTitle}>
+              {RESOURCE_LABELS[mutation.resource]} {METHOD_LABELS[mutation.method]} offline couldn't
+              be synced
+            </Text>
+            <Text style={styles.issueMessage}>{message}</Text>
+          </View>
+          <Button variant="ghost" size="sm" onPress={() => retrySyncIssue(mutation.id)}>
+            {reason === 'conflict' ? 'Keep Mine' : 'Retry'}
+          </Button>
+          <Button variant="ghost" size="sm" onPress={() => discardSyncIssue(mutation.id)}>
+            Discard
+          </Button>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.primary + '08',
+  },
+  bannerOffline: {
+    backgroundColor: Colors.warning + '20',
+  },
+  bannerIssue: {
+    backgroundColor: Colors.danger + '10',
+  },
+  flex: {
+    flex: 1,
+  },
+  text: {
+    ...Typography.bodySmall,
+    color: Colors.text,
+  },
+  issueTitle: {
+    ...Typography.bodySmall,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  issueMessage: {
+    ...Typography.caption,
+    color: Colors.muted,
+  },
+});
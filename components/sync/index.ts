@@ -0,0 +1 @@
+export { SyncStatusBanner } from './SyncStatusBanner';
@@ -0,0 +1,57 @@
+/**
+ * Auth API - magic link sign-in and session refresh
+ *
+ * These calls carry no credentials and never trigger a refresh themselves.
+ */
+
+import { apiClient, type RequestOptions } from './client';
+import { decodeAuthSession, parseResponse } from './schemas';
+import type {
+  AuthSession,
+  ExchangeCodeDto,
+  MagicLinkSent,
+  RefreshSessionDto,
+  RequestMagicLinkDto,
+} from '@/types';
+
+const ENDPOINT = '/auth';
+
+export const authApi = {
+  /**
+   * Email a sign-in link to the user
+   */
+  async requestMagicLink(
+    data: RequestMagicLinkDto,
+    options: RequestOptions = {}
+  ): Promise<MagicLinkSent> {
+    const response = await apiClient.post<MagicLinkSent | null>(`${ENDPOINT}/magic-link`, data, {
+      ...options,
+      skipAuth: true,
+    });
+    return response.data ?? {};
+  },
+
+  /**
+   * Exchange the code from a magic link for a session
+   */
+  async exchangeCode(data: ExchangeCodeDto, options: RequestOptions = {}): Promise<AuthSession> {
+    const response = await apiClient.post<unknown>(`${ENDPOINT}/token`, data, {
+      ...options,
+      skipAuth: true,
+    });
+    return parseResponse('POST /auth/token', response.data, decodeAuthSession);
+  },
+
+  /**
+   * Get a new access token for a refresh token
+   */
+  async refresh(data: RefreshSessionDto, options: RequestOptions = {}): Promise<AuthSession> {
+    const response = await apiClient.post<unknown>(`${ENDPOINT}/refresh`, data, {
+      ...options,
+      skipAuth: true,
+      // A refresh that timed out may have rotated the token already
+      retry: { attempts: 0 },
+    });
+    return parseResponse('POST /auth/refresh', response.data, decodeAuthSession);
+  },
+};
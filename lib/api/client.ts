@@ -1,5 +1,65 @@
-import axios from 'axios';
-import { API_CONFIG } from './config';
+import axios, { type AxiosError } from 'axios';
+import { API_CONFIG, getApiSettings, whenApiSettingsReady } from './config';
+import { mockAdapter } from './mock';
+import {
+  ApiError,
+  CancelledError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  type FieldErrors,
+} from './errors';
+import {
+  getRetryAttempts,
+  getRetryDelay,
+  isRetryableError,
+  waitForRetry,
+  type RetryOptions,
+} from './retry';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    retry?: RetryOptions;
+    /** Sent as Idempotency-Key; lets a non-GET request be retried safely */
+    idempotencyKey?: string;
+    /** Retries made so far, tracked by the response interceptor */
+    retryAttempt?: number;
+    /** Send without credentials and don't refresh on 401, for the auth endpoints themselves */
+    skipAuth?: boolean;
+    /** Already retried once with a refreshed token */
+    authRetried?: boolean;
+  }
+}
+
+/**
+ * Supplies credentials to apiClient, registered by lib/auth so the API layer
+ * doesn't depend on how sessions are stored.
+ */
+export interface AuthHandlers {
+  /** Current access token, refreshed first if it is about to expire */
+  getAccessToken: () => Promise<string | null>;
+  /** Called on 401; resolves with a new token, or null when the session is gone */
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+let authHandlers: AuthHandlers | null = null;
+
+export function setAuthHandlers(handlers: AuthHandlers | null): void {
+  authHandlers = handlers;
+}
+
+/** Per-call options accepted by every API method */
+export interface RequestOptions {
+  /** Aborts the request; the call then rejects with CancelledError */
+  signal?: AbortSignal;
+  /** Overrides the retry policy, see lib/api/retry */
+  retry?: RetryOptions;
+  /** Makes a mutation safe to retry; the server applies repeats of the same key once */
+  idempotencyKey?: string;
+}
 
 export const apiClient = axios.create({
   baseURL: API_CONFIG.baseUrl,
@@ -10,10 +70,24 @@ export const apiClient = axios.create({
 });
 
 apiClient.interceptors.request.use(
-  (config) => {
+  async (config) => {
+    // Developer settings can switch the server at runtime
+    await whenApiSettingsReady();
+    const { baseUrl, timeout, mock } = getApiSettings();
+    config.baseURL = baseUrl;
+    config.timeout = timeout;
+    if (mock) config.adapter = mockAdapter;
+
     if (__DEV__) {
       console.warn(`[API] ${config.method?.toUpperCase()} ${config.url}`);
     }
+    if (config.idempotencyKey) {
+      config.headers.set('Idempotency-Key', config.idempotencyKey);
+    }
+    if (authHandlers && !config.skipAuth) {
+      const token = await authHandlers.getAccessToken();
+      if (token) config.headers.set('Authorization', `Bearer ${token}`);
+    }
     return config;
   },
   (error: unknown) => {
@@ -22,22 +96,126 @@ apiClient.interceptors.request.use(
   }
 );
 
+/**
+ * Backend error body: { success: false, error: { code, message, statusCode, details } }.
+ * Validation details are either a field map or a list of { field, message };
+ * some endpoints still answer in the framework's { message: string[] } form.
+ */
+interface ErrorBody {
+  message?: string | string[];
+  error?: {
+    code?: string;
+    message?: string;
+    details?: unknown;
+  };
+}
+
+const toFieldErrors = (details: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(details)) {
+    details.forEach((detail: unknown) => {
+      if (typeof detail !== 'object' || detail === null) return;
+      const { field, path, property, message } = detail as Record<string, unknown>;
+      const name = field ?? path ?? property;
+      const fieldPath = Array.isArray(name) ? name.join('.') : name;
+      if (typeof fieldPath === 'string' && typeof message === 'string') {
+        fieldErrors[fieldPath] ??= message;
+      }
+    });
+  } else if (typeof details === 'object' && details !== null) {
+    Object.entries(details).forEach(([fieldPath, message]) => {
+      const first: unknown = Array.isArray(message) ? message[0] : message;
+      if (typeof first === 'string') fieldErrors[fieldPath] = first;
+    });
+  }
+  return fieldErrors;
+};
+
+/** Retry-After is either a number of seconds or an HTTP date */
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const toApiError = (error: AxiosError): ApiError => {
+  if (!error.response) {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+      ? new TimeoutError()
+      : new NetworkError(error.message);
+  }
+
+  const { status, headers } = error.response;
+  const data = error.response.data as ErrorBody | undefined;
+  const code = data?.error?.code;
+  const rawMessage = data?.error?.message ?? data?.message;
+  const message = (Array.isArray(rawMessage) ? rawMessage[0] : rawMessage) ?? error.message;
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, toFieldErrors(data?.error?.details), { status, code });
+  }
+  if (status === 404) return new NotFoundError(message, { code });
+  if (status === 429) {
+    return new RateLimitedError(message, parseRetryAfter(headers['retry-after']), { code });
+  }
+  if (status >= 500) {
+    const retryAfterMs = status === 503 ? parseRetryAfter(headers['retry-after']) : undefined;
+    return new ServerError(message, { status, code }, retryAfterMs);
+  }
+  return new ApiError(message, { status, code });
+};
+
+/**
+ * An expired token is refreshed and the request sent once more. Resolves with
+ * the retried response, or null when there's nothing to refresh.
+ */
+const retryWithFreshToken = async (error: AxiosError) => {
+  const { config } = error;
+  if (!config || !authHandlers || config.skipAuth || config.authRetried) return null;
+
+  const token = await authHandlers.refreshAccessToken();
+  if (!token) return null;
+  return apiClient.request({ ...config, authRetried: true });
+};
+
+/**
+ * Repeat a failed request if the retry policy allows it. Resolves with the
+ * retried response, or null when the request shouldn't be retried.
+ */
+const retryRequest = async (error: AxiosError, apiError: ApiError) => {
+  const { config } = error;
+  if (!config || !isRetryableError(apiError)) return null;
+
+  const attempts = getRetryAttempts(config);
+  const attempt = (config.retryAttempt ?? 0) + 1;
+  if (attempt > attempts) return null;
+
+  const delayMs = getRetryDelay(attempt, apiError);
+  if (delayMs === null) return null;
+
+  config.retry?.onRetry?.({ attempt, attempts, delayMs, error: apiError });
+  await waitForRetry(delayMs, config.signal);
+  return apiClient.request({ ...config, retryAttempt: attempt });
+};
+
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: unknown) => {
+  async (error: unknown) => {
+    if (axios.isCancel(error)) {
+      return Promise.reject(new CancelledError());
+    }
+
     if (axios.isAxiosError(error)) {
       if (__DEV__) {
         console.error('[API Error]', error.response?.status, error.response?.data);
       }
-
-      // Extract user-friendly message from backend error response
-      // Backend returns: { success: false, error: { code, message, statusCode } }
-      const data = error.response?.data as {
-        message?: string;
-        error?: { message?: string };
-      } | undefined;
-      const message = data?.error?.message ?? data?.message ?? error.message;
-      return Promise.reject(new Error(message));
+      const apiError = toApiError(error);
+      if (apiError.status === 401) {
+        return (await retryWithFreshToken(error)) ?? Promise.reject(apiError);
+      }
+      return (await retryRequest(error, apiError)) ?? Promise.reject(apiError);
     }
     const err = error instanceof Error ? error : new Error('Unknown error');
     return Promise.reject(err);
@@ -1,15 +1,31 @@
 /**
  * API Configuration
- * Backend runs on port 3000 by default
+ *
+ * Defaults come from the build profile (EXPO_PUBLIC_APP_ENV, set per EAS build
+ * profile in eas.json) and can be overridden with EXPO_PUBLIC_API_URL and
+ * EXPO_PUBLIC_API_TIMEOUT, e.g. in .env.local. EXPO_PUBLIC_API_AI_RETRIES sets
+ * how often the AI endpoints are retried. EXPO_PUBLIC_API_MOCK=true answers
+ * every request from the in-app mock backend instead, see lib/api/mock.
+ * Outside production builds the developer settings screen can override the
+ * URL, timeout and mock backend again at runtime, see getApiSettings.
  */
 
 import { Platform } from 'react-native';
+import { useDevSettingsStore } from '@/lib/stores/devSettingsStore';
+
+export type AppEnv = 'development' | 'staging' | 'production';
+
+/** `local` signs in against an in-app stand-in instead of the backend's /auth endpoints */
+export type AuthProvider = 'local' | 'remote';
+
+const APP_ENVS: readonly AppEnv[] = ['development', 'staging', 'production'];
 
 // For web development, localhost works directly
 // For mobile emulators/simulators:
 // - iOS Simulator: localhost works
 // - Android Emulator: use 10.0.2.2 (maps to host machine localhost)
-const getBaseUrl = (): string => {
+// Physical devices need EXPO_PUBLIC_API_URL or the developer settings
+const getLocalBaseUrl = (): string => {
   if (Platform.OS === 'android') {
     return 'http://10.0.2.2:3000';
   }
@@ -17,7 +33,89 @@ const getBaseUrl = (): string => {
   return 'http://localhost:3000';
 };
 
+// EXPO_PUBLIC_* variables are inlined at build time, so each is read by its full name
+const envAppEnv = process.env.EXPO_PUBLIC_APP_ENV as AppEnv | undefined;
+const envBaseUrl = process.env.EXPO_PUBLIC_API_URL as string | undefined;
+const envTimeout = Number(process.env.EXPO_PUBLIC_API_TIMEOUT as string | undefined);
+const envAiRetries = process.env.EXPO_PUBLIC_API_AI_RETRIES as string | undefined;
+const envAuthProvider = process.env.EXPO_PUBLIC_AUTH_PROVIDER as AuthProvider | undefined;
+const envMock = process.env.EXPO_PUBLIC_API_MOCK as string | undefined;
+const envMockLatency = process.env.EXPO_PUBLIC_API_MOCK_LATENCY as string | undefined;
+const envMockErrorRate = Number(process.env.EXPO_PUBLIC_API_MOCK_ERROR_RATE as string | undefined);
+const appEnv: AppEnv = envAppEnv && APP_ENVS.includes(envAppEnv) ? envAppEnv : 'development';
+
 export const API_CONFIG = {
-  baseUrl: getBaseUrl(),
-  timeout: 60000, // 60 seconds - AI operations can take longer
+  env: appEnv,
+  // Staging and production builds get their URL from the build profile
+  baseUrl: envBaseUrl?.trim() ? envBaseUrl.trim() : getLocalBaseUrl(),
+  timeout: envTimeout > 0 ? envTimeout : 60000, // 60 seconds - AI operations can take longer
+  /** Pinged by the developer settings health check */
+  healthPath: '/health',
+  /** Development builds default to the local sign-in stand-in */
+  authProvider:
+    envAuthProvider === 'local' || envAuthProvider === 'remote'
+      ? envAuthProvider
+      : appEnv === 'development'
+        ? 'local'
+        : 'remote',
+  /** In-app mock backend, for running without the real one; see lib/api/mock */
+  mock: {
+    enabled: envMock === 'true',
+    /** Added to every response; each streamed stage waits this long again */
+    latencyMs: envMockLatency?.trim() && Number(envMockLatency) >= 0 ? Number(envMockLatency) : 400,
+    /** Share of requests, 0 to 1, that fail with a 503 */
+    errorRate: envMockErrorRate > 0 && envMockErrorRate <= 1 ? envMockErrorRate : 0,
+  },
+  /** Whether the hidden developer settings screen can be opened */
+  allowDevSettings: appEnv !== 'production',
+  retry: {
+    /** Automatic retries for GETs and requests with an idempotency key */
+    attempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    /** A longer Retry-After fails the request instead of waiting */
+    maxRetryAfterMs: 30000,
+  },
+  /** Retries for the AI endpoints (event parsing, template generation), shown to the user */
+  aiRetryAttempts:
+    envAiRetries?.trim() && Number.isInteger(Number(envAiRetries)) && Number(envAiRetries) >= 0
+      ? Number(envAiRetries)
+      : 2,
 } as const;
+
+export interface ApiSettings {
+  baseUrl: string;
+  timeout: number;
+  /** Answer requests from the mock backend instead of sending them */
+  mock: boolean;
+}
+
+/**
+ * Settings requests are sent with: the developer settings overrides when
+ * set, API_CONFIG otherwise.
+ */
+export function getApiSettings(): ApiSettings {
+  const { baseUrl, timeout, mock } = API_CONFIG.allowDevSettings
+    ? useDevSettingsStore.getState()
+    : { baseUrl: null, timeout: null, mock: null };
+  return {
+    baseUrl: baseUrl ?? API_CONFIG.baseUrl,
+    timeout: timeout ?? API_CONFIG.timeout,
+    mock: mock ?? API_CONFIG.mock.enabled,
+  };
+}
+
+/**
+ * Resolves once saved developer settings are loaded, so the first requests
+ * after launch don't go to the default server.
+ */
+export function whenApiSettingsReady(): Promise<void> {
+  const { persist } = useDevSettingsStore;
+  if (!API_CONFIG.allowDevSettings || persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
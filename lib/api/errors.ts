@@ -0,0 +1,163 @@
+/**
+ * API errors
+ *
+ * Every failed API call rejects with an ApiError subclass, so callers can
+ * branch on the kind of failure instead of parsing messages:
+ *
+ * - NetworkError: no response (offline, backend unreachable)
+ * - TimeoutError: no response within API_CONFIG.timeout
+ * - ValidationError: the backend rejected the input, with per-field messages
+ * - NotFoundError, RateLimitedError, ServerError: by status code
+ * - ApiError itself for any other status (401, 403, 409...)
+ */
+
+/** Field path (e.g. `name`, `socialLinks.0.url`) to its error message */
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorDetails {
+  /** HTTP status, undefined when there was no response */
+  status?: number;
+  /** Backend error code, e.g. `VALIDATION_ERROR` */
+  code?: string;
+}
+
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+
+  constructor(message: string, { status, code }: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * The request never got a response: the device is offline or the backend is
+ * unreachable.
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Network request failed') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No response within the timeout. The request may still have been processed,
+ * so writes that time out must not be blindly repeated.
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message = 'Request timed out') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', details: ApiErrorDetails = {}) {
+    super(message, { status: 404, ...details });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  /** How long to wait before retrying, from the Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, details: ApiErrorDetails = {}) {
+    super(message, { status: 429, ...details });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends ApiError {
+  /** Sent with 503 when the server knows when it will be back */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails = {}, retryAfterMs?: number) {
+    super(message, details);
+    this.name = 'ServerError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The response didn't have the shape the app needs and couldn't be repaired,
+ * see lib/api/schemas.
+ */
+export class InvalidResponseError extends ApiError {
+  /** Request the response came from, e.g. `GET /profiles` */
+  readonly source: string;
+
+  constructor(source: string) {
+    super("The server sent data the app couldn't read. Please try again later.", {
+      code: 'INVALID_RESPONSE',
+    });
+    this.name = 'InvalidResponseError';
+    this.source = source;
+  }
+}
+
+/**
+ * The request was aborted by the caller, e.g. the screen that started it
+ * was closed. Not a failure: callers should drop the result silently.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelledError = (error: unknown): error is CancelledError =>
+  error instanceof CancelledError;
+
+/**
+ * The backend has no such endpoint, e.g. an older deployment without a newer
+ * route. A missing record is a 404 too, but with the `NOT_FOUND` code.
+ */
+export const isRouteNotFound = (error: unknown): boolean =>
+  error instanceof NotFoundError && error.code === 'ROUTE_NOT_FOUND';
+
+/**
+ * Message to show the user for a failed call. Validation and not-found
+ * messages come from the backend; the rest are replaced with friendlier
+ * wording since their raw messages are technical.
+ */
+export function getErrorMessage(
+  error: unknown,
+  fallback = 'Something went wrong. Please try again.'
+): string {
+  if (error instanceof TimeoutError) {
+    return 'The server took too long to respond. Please try again.';
+  }
+  if (error instanceof NetworkError) {
+    return "Can't reach the server. Check your connection and try again.";
+  }
+  if (error instanceof RateLimitedError) {
+    const seconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+    return seconds
+      ? `Too many requests. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`
+      : 'Too many requests. Please wait a moment and try again.';
+  }
+  if (error instanceof ServerError) {
+    return fallback;
+  }
+  if (error instanceof ApiError) {
+    return error.message || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
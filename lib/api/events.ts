@@ -2,41 +2,88 @@
  * Events API - Event parsing and management
  */
 
-import { apiClient } from './client';
-import type { Event, ParseEventDto, CreateEventDto } from '@/types';
+import { readThrough } from '@/lib/offline';
+import { apiClient, type RequestOptions } from './client';
+import { API_CONFIG } from './config';
+import { isRouteNotFound } from './errors';
+import {
+  decodeEvent,
+  decodeGenerationProgress,
+  parseListResponse,
+  parseResponse,
+  parseStreamEvent,
+} from './schemas';
+import { postEventStream } from './stream';
+import type { Event, ParseEventDto, CreateEventDto, GenerationProgress } from '@/types';
 
 const ENDPOINT = '/events';
 
 export const eventsApi = {
   /**
-   * Parse event from URL using AI
+   * Parse event from URL using AI. Retried on transient failures, see API_CONFIG.aiRetryAttempts
    */
-  async parse(data: ParseEventDto): Promise<Event> {
-    const response = await apiClient.post<Event>(`${ENDPOINT}/parse`, data);
-    return response.data;
+  async parse(data: ParseEventDto, options: RequestOptions = {}): Promise<Event> {
+    const response = await apiClient.post<unknown>(`${ENDPOINT}/parse`, data, {
+      ...options,
+      retry: { attempts: API_CONFIG.aiRetryAttempts, ...options.retry },
+    });
+    return parseResponse('POST /events/parse', response.data, decodeEvent);
+  },
+
+  /**
+   * Parse event from URL using AI, streaming progress through the stages.
+   * Falls back to parse, without progress, when the backend can't stream.
+   */
+  async parseStream(
+    data: ParseEventDto,
+    onProgress: (progress: GenerationProgress) => void,
+    options: RequestOptions = {}
+  ): Promise<Event> {
+    const source = 'POST /events/parse/stream';
+    try {
+      const result = await postEventStream(
+        `${ENDPOINT}/parse/stream`,
+        data,
+        ({ event, data: payload }) => {
+          const progress =
+            event === 'stage' && parseStreamEvent(source, payload, decodeGenerationProgress);
+          if (progress) onProgress(progress);
+        },
+        { ...options, retry: { attempts: API_CONFIG.aiRetryAttempts, ...options.retry } }
+      );
+      return parseResponse(source, result, decodeEvent);
+    } catch (err) {
+      if (isRouteNotFound(err)) return eventsApi.parse(data, options);
+      throw err;
+    }
   },
 
   /**
    * Get all events
    */
-  async getAll(): Promise<Event[]> {
-    const response = await apiClient.get<Event[]>(ENDPOINT);
-    return response.data;
+  async getAll(options: RequestOptions = {}): Promise<Event[]> {
+    return readThrough('events', ENDPOINT, async () => {
+      const response = await apiClient.get<unknown>(ENDPOINT, options);
+      return parseListResponse('GET /events', response.data, decodeEvent);
+    });
   },
 
   /**
    * Get event by ID
    */
-  async getById(id: string): Promise<Event> {
-    const response = await apiClient.get<Event>(`${ENDPOINT}/${id}`);
-    return response.data;
+  async getById(id: string, options: RequestOptions = {}): Promise<Event> {
+    const url = `${ENDPOINT}/${id}`;
+    return readThrough('events', url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseResponse('GET /events/:id', response.data, decodeEvent);
+    });
   },
 
   /**
    * Create event manually
    */
-  async create(data: CreateEventDto): Promise<Event> {
-    const response = await apiClient.post<Event>(ENDPOINT, data);
-    return response.data;
+  async create(data: CreateEventDto, options: RequestOptions = {}): Promise<Event> {
+    const response = await apiClient.post<unknown>(ENDPOINT, data, options);
+    return parseResponse('POST /events', response.data, decodeEvent);
   },
 };
@@ -0,0 +1,70 @@
+/**
+ * Helpers for showing a ValidationError's field errors on form inputs.
+ * Server field paths are dotted (`socialLinks.0.url`); forms key their
+ * errors by their own input names.
+ */
+
+import { ValidationError, type FieldErrors } from './errors';
+
+/**
+ * Field errors of a failed call, or null if it wasn't a validation error
+ * with any field messages.
+ */
+export function getFieldErrors(error: unknown): FieldErrors | null {
+  if (!(error instanceof ValidationError)) return null;
+  return Object.keys(error.fieldErrors).length > 0 ? error.fieldErrors : null;
+}
+
+/**
+ * Rename server field paths to form input names. Fields without an alias
+ * keep their path; a path and its alias both set keeps the first one.
+ *
+ * @example mapFieldErrors(errors, { startDate: 'date', 'location.city': 'location' })
+ */
+export function mapFieldErrors(
+  fieldErrors: FieldErrors,
+  aliases: Record<string, string> = {}
+): FieldErrors {
+  const mapped: FieldErrors = {};
+  Object.entries(fieldErrors).forEach(([path, message]) => {
+    mapped[aliases[path] ?? path] ??= message;
+  });
+  return mapped;
+}
+
+/**
+ * The errors a form can show: paths renamed with `aliases`, then only those
+ * with an input in `fields`. Empty when none of them would be visible, in
+ * which case the form should fall back to a general message.
+ */
+export function pickFieldErrors(
+  fieldErrors: FieldErrors,
+  fields: readonly string[],
+  aliases: Record<string, string> = {}
+): FieldErrors {
+  return Object.fromEntries(
+    Object.entries(mapFieldErrors(fieldErrors, aliases)).filter(([field]) =>
+      fields.includes(field)
+    )
+  );
+}
+
+/**
+ * Errors for rows of an array field, keyed by row index, e.g. the
+ * `socialLinks.<index>.url` errors for SocialLinksEditor. An error on the
+ * row itself (`socialLinks.<index>`) is included too.
+ */
+export function getIndexedFieldErrors(
+  fieldErrors: FieldErrors,
+  field: string,
+  subField?: string
+): Record<number, string> {
+  const indexed: Record<number, string> = {};
+  Object.entries(fieldErrors).forEach(([path, message]) => {
+    const [name, index, child] = path.split('.');
+    if (name !== field || index === undefined || !/^\d+$/.test(index)) return;
+    if (child !== undefined && child !== subField) return;
+    indexed[Number(index)] ??= message;
+  });
+  return indexed;
+}
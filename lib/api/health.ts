@@ -0,0 +1,46 @@
+/**
+ * Health check - pings a server directly, bypassing apiClient, so a base URL
+ * can be tested before switching to it.
+ */
+
+import axios from 'axios';
+import { API_CONFIG } from './config';
+
+export type HealthCheckResult =
+  | { ok: true; status: number; latencyMs: number }
+  | { ok: false; status?: number; latencyMs: number; message: string };
+
+/** Health checks answer quickly or not at all */
+const PING_TIMEOUT = 10000;
+
+export async function pingServer(baseUrl: string): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  try {
+    const response = await axios.get<unknown>(
+      `${baseUrl.replace(/\/+$/, '')}${API_CONFIG.healthPath}`,
+      {
+        timeout: PING_TIMEOUT,
+        // Any answer means the server is reachable; the status says if it's healthy
+        validateStatus: () => true,
+      }
+    );
+    const latencyMs = Date.now() - startedAt;
+    return response.status < 400
+      ? { ok: true, status: response.status, latencyMs }
+      : {
+          ok: false,
+          status: response.status,
+          latencyMs,
+          message: `Server answered ${response.status}`,
+        };
+  } catch (err) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      message:
+        axios.isAxiosError(err) && err.code === 'ECONNABORTED'
+          ? `No answer within ${PING_TIMEOUT / 1000} seconds`
+          : 'Server unreachable',
+    };
+  }
+}
@@ -3,9 +3,44 @@
  * Clean barrel export for all API services
  */
 
-export { apiClient } from './client';
-export { API_CONFIG } from './config';
+export { apiClient, setAuthHandlers } from './client';
+export type { RequestOptions, AuthHandlers } from './client';
+export type { RetryInfo, RetryOptions } from './retry';
+export { API_CONFIG, getApiSettings } from './config';
+export type { AppEnv, ApiSettings, AuthProvider } from './config';
+export { pingServer } from './health';
+export {
+  configureMockBackend,
+  failNextRequest,
+  resetMockBackend,
+  SAMPLE_EVENT_PAGES,
+} from './mock';
+export type { MockBackendOptions } from './mock';
+export type { HealthCheckResult } from './health';
+export {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  InvalidResponseError,
+  CancelledError,
+  isCancelledError,
+  isRouteNotFound,
+  getErrorMessage,
+} from './errors';
+export type { FieldErrors } from './errors';
+export {
+  getFieldErrors,
+  mapFieldErrors,
+  pickFieldErrors,
+  getIndexedFieldErrors,
+} from './fieldErrors';
 export { profilesApi } from './profiles';
 export { eventsApi } from './events';
 export { templatesApi } from './templates';
 export { postersApi } from './posters';
+export { uploadsApi } from './uploads';
+export { authApi } from './auth';
@@ -0,0 +1,175 @@
+/**
+ * Axios adapter that answers from the mock backend instead of the network.
+ * Responses and errors look like the real backend's, so everything after the
+ * adapter (interceptors, retries, schemas) runs unchanged.
+ */
+
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosProgressEvent,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { API_CONFIG } from '../config';
+import { ApiError, isCancelledError } from '../errors';
+import { waitForRetry } from '../retry';
+import { handleMockRequest, MockHttpError, MockStream, type MockRequest } from './routes';
+
+export interface MockBackendOptions {
+  /** Delay before every response, in ms; streams wait this long per event */
+  latencyMs: number;
+  /** Share of requests, 0 to 1, that fail with a 503 */
+  errorRate: number;
+}
+
+interface PlannedFailure {
+  /** `METHOD /path`, matched against the path without its query */
+  route: string;
+  status: number;
+  remaining: number;
+}
+
+let options: MockBackendOptions = {
+  latencyMs: API_CONFIG.mock.latencyMs,
+  errorRate: API_CONFIG.mock.errorRate,
+};
+let plannedFailures: PlannedFailure[] = [];
+
+// Idempotency key to the answer it got, so a repeated mutation isn't applied twice
+const idempotentResults = new Map<string, unknown>();
+
+export function configureMockBackend(overrides: Partial<MockBackendOptions>): void {
+  options = { ...options, ...overrides };
+}
+
+/**
+ * Make the next `times` requests to a route fail with `status`, e.g.
+ * `failNextRequest('POST /templates/generate/stream', 503)`.
+ */
+export function failNextRequest(route: string, status = 500, times = 1): void {
+  plannedFailures = [...plannedFailures, { route, status, remaining: times }];
+}
+
+export function resetMockAdapter(): void {
+  options = { latencyMs: API_CONFIG.mock.latencyMs, errorRate: API_CONFIG.mock.errorRate };
+  plannedFailures = [];
+  idempotentResults.clear();
+}
+
+const takePlannedFailure = (route: string): number | null => {
+  const failure = plannedFailures.find((planned) => planned.route === route);
+  if (!failure) return null;
+  failure.remaining -= 1;
+  if (failure.remaining <= 0) plannedFailures = plannedFailures.filter((p) => p !== failure);
+  return failure.status;
+};
+
+const toMockRequest = (config: InternalAxiosRequestConfig): MockRequest => {
+  const [path = '', search = ''] = (config.url ?? '').replace(/^https?:\/\/[^/]+/i, '').split('?');
+  const query: Record<string, string> = {};
+  search
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key = '', value = ''] = pair.split('=');
+      query[decodeURIComponent(key)] = decodeURIComponent(value);
+    });
+  // Request bodies arrive already serialized by axios
+  const body: unknown =
+    typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data;
+  return { method: (config.method ?? 'get').toUpperCase(), path, query, body };
+};
+
+const toResponse = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown
+): AxiosResponse => ({
+  data,
+  status,
+  statusText: String(status),
+  headers: new AxiosHeaders(),
+  config,
+  request: null,
+});
+
+const toErrorResponse = (config: InternalAxiosRequestConfig, error: MockHttpError) => {
+  const response = toResponse(config, error.status, {
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      statusCode: error.status,
+      details: error.details,
+    },
+  });
+  return new AxiosError(
+    error.message,
+    error.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+};
+
+const toHttpError = (err: unknown): MockHttpError => {
+  if (err instanceof MockHttpError) return err;
+  // The auth stand-in rejects with ApiError
+  if (err instanceof ApiError) {
+    return new MockHttpError(err.status ?? 500, err.code ?? 'ERROR', err.message);
+  }
+  const message = err instanceof Error ? err.message : 'Mock backend failed';
+  return new MockHttpError(500, 'INTERNAL_SERVER_ERROR', message);
+};
+
+const toEventText = ({ event, data }: { event: string; data: unknown }) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/** Send a stream's events one by one through the download progress callback */
+const streamEvents = async (config: InternalAxiosRequestConfig, stream: MockStream) => {
+  let text = '';
+  for (const event of stream.events) {
+    await waitForRetry(options.latencyMs, config.signal);
+    text += toEventText(event);
+    const progress = {
+      loaded: text.length,
+      bytes: text.length,
+      event: { target: { responseText: text } },
+    };
+    config.onDownloadProgress?.(progress as AxiosProgressEvent);
+  }
+  return text;
+};
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const request = toMockRequest(config);
+  const route = `${request.method} ${request.path}`;
+  const idempotencyKey = config.headers.get('Idempotency-Key');
+
+  try {
+    await waitForRetry(options.latencyMs, config.signal);
+
+    const failureStatus =
+      takePlannedFailure(route) ?? (Math.random() < options.errorRate ? 503 : null);
+    if (failureStatus !== null) {
+      throw new MockHttpError(failureStatus, 'MOCK_FAILURE', `Mock failure for ${route}`);
+    }
+
+    const key = typeof idempotencyKey === 'string' ? idempotencyKey : null;
+    const result =
+      key && idempotentResults.has(key)
+        ? idempotentResults.get(key)
+        : await Promise.resolve(handleMockRequest(request));
+    if (key) idempotentResults.set(key, result);
+
+    if (result instanceof MockStream) {
+      return toResponse(config, 200, await streamEvents(config, result));
+    }
+    return result === undefined ? toResponse(config, 204, '') : toResponse(config, 200, result);
+  } catch (err) {
+    if (isCancelledError(err)) throw err;
+    throw toErrorResponse(config, toHttpError(err));
+  }
+};
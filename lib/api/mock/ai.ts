@@ -0,0 +1,95 @@
+/**
+ * Fake "AI" for the mock backend. Output depends only on the input, so the
+ * same URL always parses to the same event and the same event always gets
+ * the same designs.
+ */
+
+import type { Event, TemplateDesign, TemplateLayout, VisualStyle } from '@/types';
+import { SAMPLE_EVENT_PAGES, type SampleEventPage } from './fixtures';
+
+const PALETTE = ['#2563EB', '#DC2626', '#059669', '#7C3AED', '#EA580C', '#0891B2', '#DB2777'];
+const STYLES: VisualStyle['style'][] = ['modern', 'classic', 'minimal', 'bold', 'playful'];
+const LAYOUTS: TemplateLayout[] = ['modern', 'classic', 'bold', 'minimal'];
+
+const LAYOUT_NAMES: Record<TemplateLayout, string> = {
+  classic: 'Classic',
+  modern: 'Modern',
+  minimal: 'Minimal',
+  bold: 'Bold',
+};
+
+const pick = <T>(list: readonly T[], index: number) => list[index % list.length] as T;
+
+const hash = (text: string) => {
+  let value = 0;
+  for (const char of text) value = (value * 31 + char.charCodeAt(0)) | 0;
+  return value >>> 0;
+};
+
+/** `https://www.Example.com/a/b/?x=1` -> `example.com/a/b` */
+export const normalizeEventUrl = (url: string) =>
+  url
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/^www\./i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/^[^/]+/, (host) => host.toLowerCase());
+
+const titleCase = (slug: string) =>
+  slug
+    .split(/[-_+]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * Event details "read" from a page. Known sample pages return their
+ * fixture; any other URL gets an event named after its last path segment.
+ */
+export function readEventPage(url: string): SampleEventPage {
+  const key = normalizeEventUrl(url);
+  const sample = (SAMPLE_EVENT_PAGES as Record<string, SampleEventPage | undefined>)[key];
+  if (sample) return sample;
+
+  const [host = '', ...path] = key.split('/');
+  const slug = path.at(-1) ?? host.split('.')[0] ?? '';
+  const seed = hash(key);
+  return {
+    name: titleCase(decodeURIComponent(slug)) || 'Untitled Event',
+    organizerName: host,
+    location: { isVirtual: false },
+    brandColors: { primary: pick(PALETTE, seed) },
+    visualStyle: {
+      style: pick(STYLES, seed),
+      typography: { headingStyle: 'sans-serif', bodyStyle: 'sans-serif', weight: 'bold' },
+      designElements: [],
+    },
+  };
+}
+
+/**
+ * Designs for an event: layouts in turn, on the brand colours. Elements are
+ * left empty, so posters use the default arrangement for the layout.
+ */
+export function designTemplates(
+  event: Event,
+  count: number
+): { name: string; design: TemplateDesign }[] {
+  const { primary = pick(PALETTE, 0), secondary, accent } = event.brandColors ?? {};
+  const backgrounds = [primary, secondary ?? accent ?? '#111827', accent ?? '#FFFFFF'];
+  const offset = hash(event.id) % LAYOUTS.length;
+
+  return Array.from({ length: count }, (_, index) => {
+    const layout = pick(LAYOUTS, offset + index);
+    const round = Math.floor(index / LAYOUTS.length);
+    return {
+      name: round > 0 ? `${LAYOUT_NAMES[layout]} ${round + 1}` : LAYOUT_NAMES[layout],
+      design: {
+        layout,
+        backgroundColor: pick(backgrounds, index),
+        elements: [],
+      },
+    };
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Seed data for the mock backend, and the sample event pages its fake AI
+ * knows. Every URL is on example.com, so nothing real is ever fetched.
+ */
+
+import type { Event, Poster, Profile, Template } from '@/types';
+
+const SEEDED_AT = '2026-09-01T09:00:00.000Z';
+
+/** Event data the fake AI "reads" from a page, keyed by host and path */
+export type SampleEventPage = Omit<Event, 'id' | 'sourceUrl' | 'createdAt' | 'updatedAt'>;
+
+export const SAMPLE_EVENT_PAGES = {
+  'conf.example.com/frontend-forward-2026': {
+    name: 'Frontend Forward 2026',
+    description: 'Two days of talks on the web platform, design systems and performance.',
+    startDate: '2026-11-12T09:00:00.000Z',
+    endDate: '2026-11-13T18:00:00.000Z',
+    location: {
+      venue: 'Beurs van Berlage',
+      city: 'Amsterdam',
+      country: 'Netherlands',
+      isVirtual: false,
+    },
+    organizerName: 'Frontend Forward',
+    brandColors: { primary: '#5B21B6', secondary: '#F59E0B', accent: '#10B981' },
+    visualStyle: {
+      style: 'modern',
+      typography: { headingStyle: 'sans-serif', bodyStyle: 'sans-serif', weight: 'bold' },
+      designElements: ['gradients', 'rounded shapes'],
+    },
+  },
+  'events.example.com/northwind-data-summit': {
+    name: 'Northwind Data Summit',
+    description: 'The yearly gathering for data engineering and analytics teams.',
+    startDate: '2026-12-03T08:30:00.000Z',
+    location: { venue: 'ExCeL', city: 'London', country: 'United Kingdom', isVirtual: false },
+    organizerName: 'Northwind',
+    brandColors: { primary: '#0F4C81', secondary: '#E2E8F0' },
+    visualStyle: {
+      style: 'corporate',
+      typography: { headingStyle: 'serif', bodyStyle: 'sans-serif', weight: 'regular' },
+      designElements: ['grid', 'thin rules'],
+    },
+  },
+  'meetup.example.com/rust-berlin/october': {
+    name: 'Rust Berlin: October Meetup',
+    startDate: '2026-10-28T18:30:00.000Z',
+    location: { city: 'Berlin', country: 'Germany', isVirtual: false },
+    organizerName: 'Rust Berlin',
+    brandColors: { primary: '#B7410E', accent: '#FDE68A' },
+    visualStyle: {
+      style: 'playful',
+      typography: { headingStyle: 'display', bodyStyle: 'sans-serif', weight: 'heavy' },
+      designElements: ['stickers'],
+    },
+  },
+  'online.example.com/design-systems-day': {
+    name: 'Design Systems Day',
+    description: 'A free online conference about building and scaling design systems.',
+    startDate: '2027-01-21T15:00:00.000Z',
+    location: { isVirtual: true },
+    organizerName: 'Design Systems Collective',
+    brandColors: { primary: '#111827', secondary: '#F472B6' },
+    visualStyle: {
+      style: 'minimal',
+      typography: { headingStyle: 'monospace', bodyStyle: 'sans-serif', weight: 'light' },
+      designElements: ['whitespace'],
+    },
+  },
+} satisfies Record<string, SampleEventPage>;
+
+/** Pages on this host "can't be read", to try the parse error path */
+export const UNREADABLE_HOST = 'broken.example.com';
+
+export interface MockData {
+  profiles: Profile[];
+  events: Event[];
+  templates: Template[];
+  posters: Poster[];
+}
+
+const seededEvent = (id: string, path: keyof typeof SAMPLE_EVENT_PAGES): Event => ({
+  ...SAMPLE_EVENT_PAGES[path],
+  id,
+  sourceUrl: `https://${path}`,
+  createdAt: SEEDED_AT,
+  updatedAt: SEEDED_AT,
+});
+
+const seededTemplate = (
+  id: string,
+  eventId: string,
+  name: string,
+  design: Template['design']
+): Template => ({
+  id,
+  name,
+  eventId,
+  design,
+  status: 'active',
+  usageCount: 0,
+  createdAt: SEEDED_AT,
+  updatedAt: SEEDED_AT,
+});
+
+/** Fresh copy of the seed data; the mock backend mutates what it gets */
+export function createSeedData(): MockData {
+  return {
+    profiles: [
+      {
+        id: 'mock-profile-1',
+        name: 'Alex Morgan',
+        title: 'Frontend Engineer',
+        company: 'Acme',
+        socialLinks: [
+          { platform: 'linkedin', url: 'https://www.linkedin.com/in/example' },
+          { platform: 'github', url: 'https://github.com/example' },
+        ],
+        isDefault: true,
+        createdAt: SEEDED_AT,
+        updatedAt: SEEDED_AT,
+      },
+      {
+        id: 'mock-profile-2',
+        name: 'Alex Morgan',
+        title: 'Speaker',
+        socialLinks: [{ platform: 'website', url: 'https://example.com' }],
+        isDefault: false,
+        createdAt: SEEDED_AT,
+        updatedAt: SEEDED_AT,
+      },
+    ],
+    events: [
+      seededEvent('mock-event-1', 'conf.example.com/frontend-forward-2026'),
+      seededEvent('mock-event-2', 'events.example.com/northwind-data-summit'),
+    ],
+    templates: [
+      seededTemplate('mock-template-1', 'mock-event-1', 'Modern', {
+        layout: 'modern',
+        backgroundColor: '#5B21B6',
+        elements: [],
+      }),
+      seededTemplate('mock-template-2', 'mock-event-1', 'Bold', {
+        layout: 'bold',
+        backgroundColor: '#F59E0B',
+        elements: [],
+      }),
+      seededTemplate('mock-template-3', 'mock-event-2', 'Classic', {
+        layout: 'classic',
+        backgroundColor: '#0F4C81',
+        elements: [],
+      }),
+    ],
+    posters: [
+      {
+        id: 'mock-poster-1',
+        profileId: 'mock-profile-1',
+        eventId: 'mock-event-1',
+        templateId: 'mock-template-1',
+        customizations: [],
+        status: 'exported',
+        exportedUrls: {
+          linkedin: 'https://example.com/mock-exports/mock-poster-1/linkedin.png',
+        },
+        createdAt: SEEDED_AT,
+        updatedAt: SEEDED_AT,
+      },
+      {
+        id: 'mock-poster-2',
+        profileId: 'mock-profile-1',
+        eventId: 'mock-event-2',
+        templateId: 'mock-template-3',
+        customizations: [],
+        status: 'draft',
+        exportedUrls: {},
+        createdAt: SEEDED_AT,
+        updatedAt: SEEDED_AT,
+      },
+    ],
+  };
+}
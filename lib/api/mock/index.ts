@@ -0,0 +1,25 @@
+/**
+ * Mock backend - answers every endpoint the app uses from memory, with
+ * seeded fixtures and a deterministic fake AI, so the whole create flow runs
+ * without the real backend or a network.
+ *
+ * Turned on with EXPO_PUBLIC_API_MOCK=true or from the developer settings;
+ * apiClient then sends requests to mockAdapter. Latency and error injection
+ * come from API_CONFIG.mock and can be changed with configureMockBackend.
+ *
+ * Sample event URLs the fake AI knows are in SAMPLE_EVENT_PAGES; any other
+ * URL still parses, and pages on broken.example.com fail to parse.
+ */
+
+import { resetMockAdapter } from './adapter';
+import { resetMockData } from './routes';
+
+export { mockAdapter, configureMockBackend, failNextRequest } from './adapter';
+export type { MockBackendOptions } from './adapter';
+export { SAMPLE_EVENT_PAGES } from './fixtures';
+
+/** Back to the seed data and the configured options, with no planned failures */
+export function resetMockBackend(): void {
+  resetMockData();
+  resetMockAdapter();
+}
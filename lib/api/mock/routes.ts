@@ -0,0 +1,403 @@
+/**
+ * Mock backend endpoints. Records live in memory: changes last until the app
+ * reloads or resetMockBackend is called. Errors are thrown as MockHttpError
+ * and sent with the backend's error body, so apiClient maps them as usual.
+ */
+
+import { standInAuth } from '@/lib/auth/standIn';
+import {
+  EXPORT_PRESETS,
+  EXPORT_SIZES,
+  type CreateEventDto,
+  type CreatePosterDto,
+  type CreateProfileDto,
+  type Event,
+  type ExportPosterDto,
+  type GenerateTemplatesDto,
+  type GenerationProgress,
+  type ParseEventDto,
+  type Poster,
+  type Profile,
+  type Template,
+  type UpdatePosterDto,
+  type UpdateProfileDto,
+  type UploadImageDto,
+  type RequestMagicLinkDto,
+  type ExchangeCodeDto,
+  type RefreshSessionDto,
+} from '@/types';
+import { designTemplates, normalizeEventUrl, readEventPage } from './ai';
+import { createSeedData, UNREADABLE_HOST, type MockData } from './fixtures';
+
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Answered as server-sent events, see lib/api/stream */
+export class MockStream {
+  constructor(readonly events: { event: string; data: unknown }[]) {}
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+type Handler = (request: MockRequest, params: Record<string, string>) => unknown;
+
+const DEFAULT_TEMPLATE_COUNT = 3;
+const MAX_TEMPLATE_COUNT = 6;
+
+let data: MockData = createSeedData();
+let nextId = 1;
+
+export function resetMockData(): void {
+  data = createSeedData();
+  nextId = 1;
+}
+
+const createId = (kind: string) => `mock-${kind}-new-${nextId++}`;
+const now = () => new Date().toISOString();
+
+const notFound = (kind: string): never => {
+  throw new MockHttpError(404, 'NOT_FOUND', `${kind} not found`);
+};
+
+/** Field errors in the backend's list form */
+const invalid = (errors: { field: string; message: string }[]): never => {
+  throw new MockHttpError(400, 'VALIDATION_ERROR', errors[0]?.message ?? 'Invalid input', errors);
+};
+
+const findById = <T extends { id: string }>(records: T[], id: string | undefined, kind: string) =>
+  records.find((record) => record.id === id) ?? notFound(kind);
+
+const replace = <T extends { id: string }>(records: T[], record: T) =>
+  records.map((existing) => (existing.id === record.id ? record : existing));
+
+const isHttpUrl = (value: unknown) => typeof value === 'string' && /^https?:\/\/\S+$/i.test(value);
+
+const isBlank = (value: unknown) => typeof value !== 'string' || !value.trim();
+
+// Profiles
+
+const validateProfile = (body: UpdateProfileDto, isCreate: boolean) => {
+  const errors: { field: string; message: string }[] = [];
+  if ((isCreate || body.name !== undefined) && isBlank(body.name)) {
+    errors.push({ field: 'name', message: 'name should not be empty' });
+  }
+  if ((isCreate || body.title !== undefined) && isBlank(body.title)) {
+    errors.push({ field: 'title', message: 'title should not be empty' });
+  }
+  body.socialLinks?.forEach((link, index) => {
+    if (!isHttpUrl(link.url)) {
+      errors.push({ field: `socialLinks.${index}.url`, message: 'url must be a URL address' });
+    }
+  });
+  if (errors.length > 0) invalid(errors);
+};
+
+// Only one profile is the default
+const withDefault = (profiles: Profile[], defaultId: string) =>
+  profiles.map((profile) =>
+    profile.isDefault === (profile.id === defaultId)
+      ? profile
+      : { ...profile, isDefault: profile.id === defaultId }
+  );
+
+const profileRoutes: Record<string, Handler> = {
+  'GET /profiles': () => data.profiles,
+
+  'GET /profiles/default': () => data.profiles.find((profile) => profile.isDefault) ?? null,
+
+  'GET /profiles/:id': (_, { id }) => findById(data.profiles, id, 'Profile'),
+
+  'POST /profiles': ({ body }) => {
+    const dto = body as CreateProfileDto;
+    validateProfile(dto, true);
+    const createdAt = now();
+    const profile: Profile = {
+      ...dto,
+      socialLinks: dto.socialLinks ?? [],
+      // The first profile becomes the default
+      isDefault: dto.isDefault ?? data.profiles.length === 0,
+      id: createId('profile'),
+      createdAt,
+      updatedAt: createdAt,
+    };
+    data.profiles = [...data.profiles, profile];
+    if (profile.isDefault) data.profiles = withDefault(data.profiles, profile.id);
+    return profile;
+  },
+
+  'PATCH /profiles/:id': ({ body }, { id }) => {
+    const dto = body as UpdateProfileDto;
+    validateProfile(dto, false);
+    const profile = { ...findById(data.profiles, id, 'Profile'), ...dto, updatedAt: now() };
+    data.profiles = replace(data.profiles, profile);
+    if (dto.isDefault) data.profiles = withDefault(data.profiles, profile.id);
+    return profile;
+  },
+
+  'PATCH /profiles/:id/default': (_, { id }) => {
+    const profile = findById(data.profiles, id, 'Profile');
+    data.profiles = withDefault(data.profiles, profile.id);
+    return findById(data.profiles, id, 'Profile');
+  },
+
+  'DELETE /profiles/:id': (_, { id }) => {
+    findById(data.profiles, id, 'Profile');
+    data.profiles = data.profiles.filter((profile) => profile.id !== id);
+    data.posters = data.posters.filter((poster) => poster.profileId !== id);
+  },
+};
+
+// Events
+
+const parseEvent = (body: unknown): Event => {
+  const { url } = (body ?? {}) as Partial<ParseEventDto>;
+  if (!isHttpUrl(url)) invalid([{ field: 'url', message: 'url must be a URL address' }]);
+  const sourceUrl = String(url).trim();
+  if (normalizeEventUrl(sourceUrl).startsWith(`${UNREADABLE_HOST}/`)) {
+    throw new MockHttpError(422, 'EVENT_PARSE_FAILED', "We couldn't find an event on that page");
+  }
+
+  const createdAt = now();
+  const event: Event = {
+    ...readEventPage(sourceUrl),
+    id: createId('event'),
+    sourceUrl,
+    createdAt,
+    updatedAt: createdAt,
+  };
+  data.events = [...data.events, event];
+  return event;
+};
+
+const PARSE_STAGES: GenerationProgress['stage'][] = [
+  'fetching_page',
+  'extracting_metadata',
+  'extracting_colors',
+];
+
+const eventRoutes: Record<string, Handler> = {
+  'GET /events': () => data.events,
+
+  'GET /events/:id': (_, { id }) => findById(data.events, id, 'Event'),
+
+  'POST /events': ({ body }) => {
+    const dto = body as CreateEventDto;
+    const errors: { field: string; message: string }[] = [];
+    if (isBlank(dto.name)) errors.push({ field: 'name', message: 'name should not be empty' });
+    if (dto.startDate !== undefined && Number.isNaN(Date.parse(dto.startDate))) {
+      errors.push({
+        field: 'startDate',
+        message: 'startDate must be a valid ISO 8601 date string',
+      });
+    }
+    if (errors.length > 0) invalid(errors);
+
+    const createdAt = now();
+    const event: Event = { ...dto, id: createId('event'), createdAt, updatedAt: createdAt };
+    data.events = [...data.events, event];
+    return event;
+  },
+
+  'POST /events/parse': ({ body }) => parseEvent(body),
+
+  // Validation happens before the stream starts, like the real endpoint
+  'POST /events/parse/stream': ({ body }) => {
+    const event = parseEvent(body);
+    return new MockStream([
+      ...PARSE_STAGES.map((stage) => ({ event: 'stage', data: { stage } })),
+      { event: 'result', data: event },
+    ]);
+  },
+};
+
+// Templates
+
+const generateTemplates = (body: unknown): Template[] => {
+  const { eventId, count = DEFAULT_TEMPLATE_COUNT } = (body ?? {}) as GenerateTemplatesDto;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_TEMPLATE_COUNT) {
+    invalid([{ field: 'count', message: `count must be between 1 and ${MAX_TEMPLATE_COUNT}` }]);
+  }
+  const event = findById(data.events, eventId, 'Event');
+
+  const createdAt = now();
+  const templates = designTemplates(event, count).map(
+    ({ name, design }): Template => ({
+      id: createId('template'),
+      name,
+      eventId: event.id,
+      design,
+      status: 'active',
+      usageCount: 0,
+      createdAt,
+      updatedAt: createdAt,
+    })
+  );
+  data.templates = [...data.templates, ...templates];
+  return templates;
+};
+
+const templateRoutes: Record<string, Handler> = {
+  'GET /templates': ({ query }) =>
+    query.eventId
+      ? data.templates.filter((template) => template.eventId === query.eventId)
+      : data.templates,
+
+  'GET /templates/:id': (_, { id }) => findById(data.templates, id, 'Template'),
+
+  'POST /templates/generate': ({ body }) => generateTemplates(body),
+
+  'POST /templates/generate/stream': ({ body }) => {
+    const templates = generateTemplates(body);
+    const total = templates.length;
+    return new MockStream([
+      ...templates.flatMap((template, index) => [
+        { event: 'stage', data: { stage: 'generating_templates', current: index + 1, total } },
+        { event: 'template', data: template },
+      ]),
+      { event: 'result', data: templates },
+    ]);
+  },
+};
+
+// Posters
+
+const posterRoutes: Record<string, Handler> = {
+  'GET /posters': ({ query }) =>
+    query.profileId
+      ? data.posters.filter((poster) => poster.profileId === query.profileId)
+      : data.posters,
+
+  'GET /posters/:id': (_, { id }) => findById(data.posters, id, 'Poster'),
+
+  'POST /posters': ({ body }) => {
+    const dto = body as CreatePosterDto;
+    const errors = (['profileId', 'eventId', 'templateId'] as const)
+      .filter((field) => isBlank(dto[field]))
+      .map((field) => ({ field, message: `${field} should not be empty` }));
+    if (errors.length > 0) invalid(errors);
+    findById(data.profiles, dto.profileId, 'Profile');
+    findById(data.events, dto.eventId, 'Event');
+
+    const createdAt = now();
+    const poster: Poster = {
+      customizations: [],
+      ...dto,
+      id: createId('poster'),
+      status: 'draft',
+      exportedUrls: {},
+      createdAt,
+      updatedAt: createdAt,
+    };
+    data.posters = [...data.posters, poster];
+    return poster;
+  },
+
+  'PATCH /posters/:id': ({ body }, { id }) => {
+    const poster = {
+      ...findById(data.posters, id, 'Poster'),
+      ...(body as UpdatePosterDto),
+      updatedAt: now(),
+    };
+    data.posters = replace(data.posters, poster);
+    return poster;
+  },
+
+  'POST /posters/:id/export': ({ body }, { id }) => {
+    const { platform, format } = (body ?? {}) as Partial<ExportPosterDto>;
+    if (!platform || !(platform in EXPORT_SIZES)) {
+      return invalid([{ field: 'platform', message: 'platform must be a supported platform' }]);
+    }
+    if (format && !(format in EXPORT_PRESETS)) {
+      return invalid([{ field: 'format', message: 'format must be a supported export preset' }]);
+    }
+    const existing = findById(data.posters, id, 'Poster');
+    const url = `https://example.com/mock-exports/${existing.id}/${format ?? platform}.png`;
+    data.posters = replace(data.posters, {
+      ...existing,
+      status: 'exported',
+      exportedUrls: { ...existing.exportedUrls, [format ?? platform]: url },
+      updatedAt: now(),
+    });
+    return { url, platform };
+  },
+
+  'DELETE /posters/:id': (_, { id }) => {
+    findById(data.posters, id, 'Poster');
+    data.posters = data.posters.filter((poster) => poster.id !== id);
+  },
+};
+
+// Uploads and auth
+
+const otherRoutes: Record<string, Handler> = {
+  // Served back as a data URI, nothing is stored
+  'POST /uploads/avatars': ({ body }) => {
+    const { data: image, mimeType } = (body ?? {}) as Partial<UploadImageDto>;
+    if (isBlank(image) || isBlank(mimeType)) {
+      invalid([{ field: 'data', message: 'data should not be empty' }]);
+    }
+    return { url: `data:${mimeType};base64,${image}` };
+  },
+
+  'POST /auth/magic-link': ({ body }) => standInAuth.requestMagicLink(body as RequestMagicLinkDto),
+
+  'POST /auth/token': ({ body }) => standInAuth.exchangeCode(body as ExchangeCodeDto),
+
+  'POST /auth/refresh': ({ body }) => standInAuth.refresh(body as RefreshSessionDto),
+};
+
+const ROUTES = Object.entries({
+  ...profileRoutes,
+  ...eventRoutes,
+  ...templateRoutes,
+  ...posterRoutes,
+  ...otherRoutes,
+}).map(([route, handler]) => {
+  const [method = '', pattern = ''] = route.split(' ');
+  return { method, segments: pattern.split('/').filter(Boolean), handler };
+});
+
+const matchSegments = (segments: string[], path: string[]): Record<string, string> | null => {
+  if (segments.length !== path.length) return null;
+  const params: Record<string, string> = {};
+  for (const [index, segment] of segments.entries()) {
+    const value = path[index] ?? '';
+    if (segment.startsWith(':')) params[segment.slice(1)] = decodeURIComponent(value);
+    else if (segment !== value) return null;
+  }
+  return params;
+};
+
+/**
+ * Answer a request. Literal paths win over parameters, so `/profiles/default`
+ * isn't read as a profile id.
+ */
+export function handleMockRequest(request: MockRequest): unknown {
+  const path = request.path.split('/').filter(Boolean);
+  const candidates = ROUTES.filter(({ method }) => method === request.method)
+    .map((route) => ({ route, params: matchSegments(route.segments, path) }))
+    .filter((match) => match.params !== null)
+    .sort((a, b) => Object.keys(a.params ?? {}).length - Object.keys(b.params ?? {}).length);
+
+  const [match] = candidates;
+  if (!match?.params) {
+    throw new MockHttpError(404, 'ROUTE_NOT_FOUND', `Cannot ${request.method} ${request.path}`);
+  }
+  return match.route.handler(request, match.params);
+}
@@ -1,8 +1,13 @@
 /**
  * Posters API - Poster CRUD and export operations
+ *
+ * Works offline: reads fall back to the last stored response and writes are
+ * queued until the backend is reachable again. Exporting needs the backend.
  */
 
-import { apiClient } from './client';
+import { createOfflineResource } from '@/lib/offline';
+import { apiClient, type RequestOptions } from './client';
+import { decodeExportResult, decodePoster, parseListResponse, parseResponse } from './schemas';
 import type {
   Poster,
   CreatePosterDto,
@@ -13,55 +18,98 @@ import type {
 
 const ENDPOINT = '/posters';
 
+const offline = createOfflineResource<Poster, CreatePosterDto, UpdatePosterDto>('posters', {
+  async getById(id, options) {
+    const response = await apiClient.get<unknown>(`${ENDPOINT}/${id}`, options);
+    return parseResponse('GET /posters/:id', response.data, decodePoster);
+  },
+  async create(data, options) {
+    const response = await apiClient.post<unknown>(ENDPOINT, data, options);
+    return parseResponse('POST /posters', response.data, decodePoster);
+  },
+  async update(id, data, options) {
+    const response = await apiClient.patch<unknown>(`${ENDPOINT}/${id}`, data, options);
+    return parseResponse('PATCH /posters/:id', response.data, decodePoster);
+  },
+  async delete(id, options) {
+    await apiClient.delete(`${ENDPOINT}/${id}`, options);
+  },
+  createLocal: (id, data, createdAt) => ({
+    customizations: [],
+    ...data,
+    id,
+    status: 'draft',
+    exportedUrls: {},
+    createdAt,
+    updatedAt: createdAt,
+  }),
+});
+
 export const postersApi = {
   /**
    * Get all posters (optionally filtered by profileId)
    */
-  async getAll(profileId?: string): Promise<Poster[]> {
-    const params = profileId ? `?profileId=${profileId}` : '';
-    const response = await apiClient.get<Poster[]>(`${ENDPOINT}${params}`);
-    return response.data;
+  async getAll(profileId?: string, options: RequestOptions = {}): Promise<Poster[]> {
+    const url = profileId ? `${ENDPOINT}?profileId=${offline.resolveId(profileId)}` : ENDPOINT;
+    return offline.read(
+      url,
+      async () => {
+        const response = await apiClient.get<unknown>(url, options);
+        return parseListResponse('GET /posters', response.data, decodePoster);
+      },
+      { profileId }
+    );
   },
 
   /**
    * Get poster by ID
    */
-  async getById(id: string): Promise<Poster> {
-    const response = await apiClient.get<Poster>(`${ENDPOINT}/${id}`);
-    return response.data;
+  async getById(id: string, options: RequestOptions = {}): Promise<Poster> {
+    // Not on the server until the offline queue has synced it
+    const local = offline.getLocal(id);
+    if (local) return local;
+
+    const url = `${ENDPOINT}/${offline.resolveId(id)}`;
+    return offline.read(url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseResponse('GET /posters/:id', response.data, decodePoster);
+    });
   },
 
   /**
-   * Create a new poster
+   * Create a new poster (queued while offline)
    */
-  async create(data: CreatePosterDto): Promise<Poster> {
-    const response = await apiClient.post<Poster>(ENDPOINT, data);
-    return response.data;
+  async create(data: CreatePosterDto, options: RequestOptions = {}): Promise<Poster> {
+    return offline.create(data, options);
   },
 
   /**
-   * Update poster customizations
+   * Update poster customizations (queued while offline)
    */
-  async update(id: string, data: UpdatePosterDto): Promise<Poster> {
-    const response = await apiClient.patch<Poster>(`${ENDPOINT}/${id}`, data);
-    return response.data;
+  async update(id: string, data: UpdatePosterDto, options: RequestOptions = {}): Promise<Poster> {
+    return offline.update(id, data, options);
   },
 
   /**
    * Export poster to a platform (generates image)
    */
-  async export(id: string, data: ExportPosterDto): Promise<{ url: string; platform: ExportPlatform }> {
-    const response = await apiClient.post<{ url: string; platform: ExportPlatform }>(
-      `${ENDPOINT}/${id}/export`,
-      data
+  async export(
+    id: string,
+    data: ExportPosterDto,
+    options: RequestOptions = {}
+  ): Promise<{ url: string; platform: ExportPlatform }> {
+    const response = await apiClient.post<unknown>(
+      `${ENDPOINT}/${offline.resolveId(id)}/export`,
+      data,
+      options
     );
-    return response.data;
+    return parseResponse('POST /posters/:id/export', response.data, decodeExportResult);
   },
 
   /**
-   * Delete a poster (soft delete)
+   * Delete a poster (soft delete, queued while offline)
    */
-  async delete(id: string): Promise<void> {
-    await apiClient.delete(`${ENDPOINT}/${id}`);
+  async delete(id: string, options: RequestOptions = {}): Promise<void> {
+    return offline.delete(id, options);
   },
 };
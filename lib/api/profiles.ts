@@ -1,65 +1,110 @@
 /**
  * Profiles API - CRUD operations for user profiles
+ *
+ * Works offline: reads fall back to the last stored response and writes are
+ * queued until the backend is reachable again.
  */
 
-import { apiClient } from './client';
+import { createOfflineResource } from '@/lib/offline';
+import { apiClient, type RequestOptions } from './client';
+import { decodeProfile, parseListResponse, parseNullableResponse, parseResponse } from './schemas';
 import type { Profile, CreateProfileDto, UpdateProfileDto } from '@/types';
 
 const ENDPOINT = '/profiles';
 
+const offline = createOfflineResource<Profile, CreateProfileDto, UpdateProfileDto>('profiles', {
+  async getById(id, options) {
+    const response = await apiClient.get<unknown>(`${ENDPOINT}/${id}`, options);
+    return parseResponse('GET /profiles/:id', response.data, decodeProfile);
+  },
+  async create(data, options) {
+    const response = await apiClient.post<unknown>(ENDPOINT, data, options);
+    return parseResponse('POST /profiles', response.data, decodeProfile);
+  },
+  async update(id, data, options) {
+    const response = await apiClient.patch<unknown>(`${ENDPOINT}/${id}`, data, options);
+    return parseResponse('PATCH /profiles/:id', response.data, decodeProfile);
+  },
+  async delete(id, options) {
+    await apiClient.delete(`${ENDPOINT}/${id}`, options);
+  },
+  createLocal: (id, data, createdAt) => ({
+    socialLinks: [],
+    isDefault: false,
+    ...data,
+    id,
+    createdAt,
+    updatedAt: createdAt,
+  }),
+});
+
 export const profilesApi = {
   /**
    * Get all profiles
    */
-  async getAll(): Promise<Profile[]> {
-    const response = await apiClient.get<Profile[]>(ENDPOINT);
-    return response.data;
+  async getAll(options: RequestOptions = {}): Promise<Profile[]> {
+    return offline.read(ENDPOINT, async () => {
+      const response = await apiClient.get<unknown>(ENDPOINT, options);
+      return parseListResponse('GET /profiles', response.data, decodeProfile);
+    });
   },
 
   /**
    * Get profile by ID
    */
-  async getById(id: string): Promise<Profile> {
-    const response = await apiClient.get<Profile>(`${ENDPOINT}/${id}`);
-    return response.data;
+  async getById(id: string, options: RequestOptions = {}): Promise<Profile> {
+    // Not on the server until the offline queue has synced it
+    const local = offline.getLocal(id);
+    if (local) return local;
+
+    const url = `${ENDPOINT}/${offline.resolveId(id)}`;
+    return offline.read(url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseResponse('GET /profiles/:id', response.data, decodeProfile);
+    });
   },
 
   /**
    * Get the default profile
    */
-  async getDefault(): Promise<Profile | null> {
-    const response = await apiClient.get<Profile | null>(`${ENDPOINT}/default`);
-    return response.data;
+  async getDefault(options: RequestOptions = {}): Promise<Profile | null> {
+    const url = `${ENDPOINT}/default`;
+    return offline.read(url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseNullableResponse('GET /profiles/default', response.data, decodeProfile);
+    });
   },
 
   /**
-   * Create a new profile
+   * Create a new profile (queued while offline)
    */
-  async create(data: CreateProfileDto): Promise<Profile> {
-    const response = await apiClient.post<Profile>(ENDPOINT, data);
-    return response.data;
+  async create(data: CreateProfileDto, options: RequestOptions = {}): Promise<Profile> {
+    return offline.create(data, options);
   },
 
   /**
-   * Update an existing profile
+   * Update an existing profile (queued while offline)
    */
-  async update(id: string, data: UpdateProfileDto): Promise<Profile> {
-    const response = await apiClient.patch<Profile>(`${ENDPOINT}/${id}`, data);
-    return response.data;
+  async update(id: string, data: UpdateProfileDto, options: RequestOptions = {}): Promise<Profile> {
+    return offline.update(id, data, options);
   },
 
   /**
-   * Delete a profile (soft delete)
+   * Delete a profile (soft delete, queued while offline)
    */
-  async delete(id: string): Promise<void> {
-    await apiClient.delete(`${ENDPOINT}/${id}`);
+  async delete(id: string, options: RequestOptions = {}): Promise<void> {
+    return offline.delete(id, options);
   },
 
   /**
    * Set a profile as default
    */
-  async setDefault(id: string): Promise<Profile> {
-    const response = await apiClient.patch<Profile>(`${ENDPOINT}/${id}/default`);
-    return response.data;
+  async setDefault(id: string, options: RequestOptions = {}): Promise<Profile> {
+    const response = await apiClient.patch<unknown>(
+      `${ENDPOINT}/${offline.resolveId(id)}/default`,
+      undefined,
+      options
+    );
+    return parseResponse('PATCH /profiles/:id/default', response.data, decodeProfile);
   },
 };
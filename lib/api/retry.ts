@@ -0,0 +1,92 @@
+/**
+ * Retry policy for apiClient
+ *
+ * GETs are retried automatically. Other methods only when they carry an
+ * idempotency key, since repeating a write the server already processed
+ * would apply it twice; the AI endpoints opt in per call. Delays grow
+ * exponentially with full jitter so clients that failed together don't retry
+ * together, and a Retry-After from the server takes precedence.
+ */
+
+import type { GenericAbortSignal, InternalAxiosRequestConfig } from 'axios';
+import { API_CONFIG } from './config';
+import { ApiError, CancelledError, NetworkError, RateLimitedError, ServerError } from './errors';
+
+/** A retry about to happen, for showing progress to the user */
+export interface RetryInfo {
+  /** 1 for the first retry */
+  attempt: number;
+  /** Retries allowed in total */
+  attempts: number;
+  delayMs: number;
+  error: ApiError;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt, 0 to disable */
+  attempts?: number;
+  /** Called before each retry is scheduled */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+
+/**
+ * Whether a failure is worth retrying: no response, the server is
+ * overloaded or restarting, or rate limited.
+ */
+export const isRetryableError = (error: ApiError): boolean =>
+  error instanceof NetworkError ||
+  error instanceof RateLimitedError ||
+  (error.status !== undefined && RETRYABLE_STATUSES.has(error.status));
+
+/** Retries allowed for a request, see the module comment */
+export function getRetryAttempts(config: InternalAxiosRequestConfig): number {
+  if (config.retry?.attempts !== undefined) return config.retry.attempts;
+  const method = (config.method ?? 'get').toLowerCase();
+  return IDEMPOTENT_METHODS.has(method) || config.idempotencyKey ? API_CONFIG.retry.attempts : 0;
+}
+
+/**
+ * Delay before a retry, or null when the server asked for a longer wait than
+ * we're willing to block the user for.
+ */
+export function getRetryDelay(attempt: number, error: ApiError): number | null {
+  const retryAfterMs =
+    error instanceof RateLimitedError || error instanceof ServerError
+      ? error.retryAfterMs
+      : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= API_CONFIG.retry.maxRetryAfterMs ? retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(
+    API_CONFIG.retry.baseDelayMs * 2 ** (attempt - 1),
+    API_CONFIG.retry.maxDelayMs
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait before retrying. Rejects with CancelledError as soon as the request is
+ * aborted, so a cancelled call doesn't sit out the delay.
+ */
+export function waitForRetry(delayMs: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+}
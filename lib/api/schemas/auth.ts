@@ -0,0 +1,27 @@
+import { optionalString, readObject, requiredString, timestamp, type Decoder } from './primitives';
+import type { AuthSession, AuthUser } from '@/types';
+
+const decodeUser: Decoder<AuthUser> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  const id = object && requiredString(object, 'id', path, issues);
+  const email = object && requiredString(object, 'email', path, issues);
+  if (!object || !id || !email) return null;
+  return { id, email, name: optionalString(object, 'name', path, issues) };
+};
+
+/** Sessions without tokens or a user can't be used and are rejected */
+export const decodeAuthSession: Decoder<AuthSession> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  if (!object) return null;
+  const accessToken = requiredString(object, 'accessToken', path, issues);
+  const refreshToken = requiredString(object, 'refreshToken', path, issues);
+  const user = decodeUser(object.user, path ? `${path}.user` : 'user', issues);
+  if (!accessToken || !refreshToken || !user) return null;
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresAt: timestamp(object, 'expiresAt', path, issues),
+    user,
+  };
+};
@@ -0,0 +1,111 @@
+import { Colors } from '@/constants';
+import {
+  booleanOr,
+  hexColorOr,
+  isObject,
+  listOf,
+  oneOfOr,
+  optionalColor,
+  optionalObject,
+  optionalString,
+  readObject,
+  requiredString,
+  stringOr,
+  timestamp,
+  type Decoder,
+  type SchemaIssue,
+  type UnknownObject,
+} from './primitives';
+import type { BrandColors, Event, EventLocation, VisualStyle } from '@/types';
+
+const VISUAL_STYLES = ['modern', 'classic', 'minimal', 'bold', 'playful', 'corporate'] as const;
+const HEADING_STYLES = ['sans-serif', 'serif', 'display', 'monospace'] as const;
+const BODY_STYLES = ['sans-serif', 'serif'] as const;
+const WEIGHTS = ['light', 'regular', 'bold', 'heavy'] as const;
+
+const decodeString: Decoder<string> = (value) => (typeof value === 'string' ? value : null);
+
+// The renderer does colour maths on the primary colour, so it falls back to the app's
+const decodeBrandColors = (
+  object: UnknownObject,
+  path: string,
+  issues: SchemaIssue[]
+): BrandColors => ({
+  primary: hexColorOr(object, 'primary', path, issues, Colors.primary),
+  secondary: optionalColor(object, 'secondary', path, issues),
+  accent: optionalColor(object, 'accent', path, issues),
+  background: optionalColor(object, 'background', path, issues),
+  text: optionalColor(object, 'text', path, issues),
+});
+
+const decodeLocation = (
+  object: UnknownObject,
+  path: string,
+  issues: SchemaIssue[]
+): EventLocation => ({
+  venue: optionalString(object, 'venue', path, issues),
+  city: optionalString(object, 'city', path, issues),
+  country: optionalString(object, 'country', path, issues),
+  isVirtual: booleanOr(object, 'isVirtual', path, issues, false),
+});
+
+const decodeVisualStyle = (
+  object: UnknownObject,
+  path: string,
+  issues: SchemaIssue[]
+): VisualStyle => {
+  const typographyPath = `${path}.typography`;
+  const typography = optionalObject(object, 'typography', path, issues) ?? {};
+  return {
+    style: oneOfOr(object, 'style', path, issues, VISUAL_STYLES, 'modern'),
+    typography: {
+      headingStyle: oneOfOr(
+        typography,
+        'headingStyle',
+        typographyPath,
+        issues,
+        HEADING_STYLES,
+        'sans-serif'
+      ),
+      bodyStyle: oneOfOr(
+        typography,
+        'bodyStyle',
+        typographyPath,
+        issues,
+        BODY_STYLES,
+        'sans-serif'
+      ),
+      weight: oneOfOr(typography, 'weight', typographyPath, issues, WEIGHTS, 'regular'),
+    },
+    designElements: listOf(object, 'designElements', path, issues, decodeString),
+  };
+};
+
+export const decodeEvent: Decoder<Event> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  const id = object && requiredString(object, 'id', path, issues);
+  if (!object || !id) return null;
+
+  const brandColors = optionalObject(object, 'brandColors', path, issues);
+  const location = optionalObject(object, 'location', path, issues);
+  const visualStyle = optionalObject(object, 'visualStyle', path, issues);
+  const rawMetadata = object.rawMetadata;
+
+  return {
+    id,
+    name: stringOr(object, 'name', path, issues, 'Untitled event'),
+    description: optionalString(object, 'description', path, issues),
+    startDate: optionalString(object, 'startDate', path, issues),
+    endDate: optionalString(object, 'endDate', path, issues),
+    location: location && decodeLocation(location, `${path}.location`, issues),
+    sourceUrl: optionalString(object, 'sourceUrl', path, issues),
+    logoUrl: optionalString(object, 'logoUrl', path, issues),
+    brandColors: brandColors && decodeBrandColors(brandColors, `${path}.brandColors`, issues),
+    organizerName: optionalString(object, 'organizerName', path, issues),
+    visualStyle: visualStyle && decodeVisualStyle(visualStyle, `${path}.visualStyle`, issues),
+    heroImageUrl: optionalString(object, 'heroImageUrl', path, issues),
+    rawMetadata: isObject(rawMetadata) ? rawMetadata : undefined,
+    createdAt: timestamp(object, 'createdAt', path, issues),
+    updatedAt: timestamp(object, 'updatedAt', path, issues),
+  };
+};
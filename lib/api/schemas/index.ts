@@ -0,0 +1,84 @@
+/**
+ * Response schemas - runtime checks for what the backend sends, since the
+ * types on apiClient calls are only assertions.
+ *
+ * Decoding recovers where it safely can: unusable colours fall back to
+ * defaults, invalid elements and links are dropped, and list items that
+ * can't be used are skipped. Only a response with nothing usable rejects,
+ * with InvalidResponseError. Whatever was fixed is logged in development so
+ * schema drift gets noticed.
+ */
+
+import { InvalidResponseError } from '../errors';
+import type { Decoder, SchemaIssue } from './primitives';
+
+export { decodeProfile, decodeSocialLink } from './profile';
+export { decodeEvent } from './event';
+export { decodeTemplate, decodeTemplateElement } from './template';
+export { decodePoster, decodeExportResult } from './poster';
+export { decodeAuthSession } from './auth';
+export { decodeGenerationProgress } from './progress';
+export type { Decoder, SchemaIssue } from './primitives';
+
+// Issues are listed up to this many per response, the rest are counted
+const MAX_REPORTED_ISSUES = 10;
+
+const reportIssues = (source: string, issues: SchemaIssue[]) => {
+  if (!__DEV__ || issues.length === 0) return;
+  const listed = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(({ path, message }) => `  ${path}: ${message}`);
+  const more = issues.length - listed.length;
+  console.warn(
+    `[API Schema] ${source} didn't match the expected shape:\n${listed.join('\n')}` +
+      (more > 0 ? `\n  ...and ${more} more` : '')
+  );
+};
+
+/**
+ * Decode a single-record response. `source` names the request in reports,
+ * e.g. `GET /profiles/:id`.
+ */
+export function parseResponse<T>(source: string, data: unknown, decode: Decoder<T>): T {
+  const issues: SchemaIssue[] = [];
+  const result = decode(data, '', issues);
+  reportIssues(source, issues);
+  if (result === null) throw new InvalidResponseError(source);
+  return result;
+}
+
+/** Decode a list response, skipping items that can't be used */
+export function parseListResponse<T>(source: string, data: unknown, decode: Decoder<T>): T[] {
+  const issues: SchemaIssue[] = [];
+  if (!Array.isArray(data)) {
+    reportIssues(source, [{ path: '', message: 'expected an array' }]);
+    throw new InvalidResponseError(source);
+  }
+  const items = data
+    .map((item: unknown, index) => decode(item, String(index), issues))
+    .filter((item): item is T => item !== null);
+  reportIssues(source, issues);
+  return items;
+}
+
+/**
+ * Decode one event of a stream. Unusable events are reported and skipped
+ * rather than failing the whole stream.
+ */
+export function parseStreamEvent<T>(source: string, data: unknown, decode: Decoder<T>): T | null {
+  const issues: SchemaIssue[] = [];
+  const result = decode(data, '', issues);
+  reportIssues(source, issues);
+  return result;
+}
+
+/** Decode a response that may be null, e.g. the default profile when there is none */
+export function parseNullableResponse<T>(
+  source: string,
+  data: unknown,
+  decode: Decoder<T>
+): T | null {
+  return data === null || data === undefined || data === ''
+    ? null
+    : parseResponse(source, data, decode);
+}
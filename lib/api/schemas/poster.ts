@@ -0,0 +1,80 @@
+import {
+  EXPORT_PLATFORM_NAMES,
+  EXPORT_PRESETS,
+  DEFAULT_TEMPLATE_ID,
+  type ExportPlatform,
+  type ExportPresetId,
+  type Poster,
+} from '@/types';
+import {
+  listOf,
+  oneOfOr,
+  optionalObject,
+  readObject,
+  requiredString,
+  stringOr,
+  timestamp,
+  type Decoder,
+  type SchemaIssue,
+  type UnknownObject,
+} from './primitives';
+import { decodeTemplateElement } from './template';
+
+const STATUSES = ['draft', 'exported'] as const;
+const EXPORT_PLATFORMS = Object.keys(EXPORT_PLATFORM_NAMES) as ExportPlatform[];
+const EXPORT_PRESET_IDS = Object.keys(EXPORT_PRESETS) as ExportPresetId[];
+
+const decodeExportedUrls = (
+  object: UnknownObject | undefined,
+  path: string,
+  issues: SchemaIssue[]
+): Poster['exportedUrls'] => {
+  const urls: Poster['exportedUrls'] = {};
+  if (!object) return urls;
+  Object.entries(object).forEach(([preset, url]) => {
+    if (EXPORT_PRESET_IDS.includes(preset as ExportPresetId) && typeof url === 'string') {
+      urls[preset as ExportPresetId] = url;
+    } else {
+      issues.push({ path: `${path}.${preset}`, message: 'unknown export preset or URL' });
+    }
+  });
+  return urls;
+};
+
+export const decodePoster: Decoder<Poster> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  if (!object) return null;
+  // A poster can't be reopened without the records it was made from
+  const id = requiredString(object, 'id', path, issues);
+  const profileId = requiredString(object, 'profileId', path, issues);
+  const eventId = requiredString(object, 'eventId', path, issues);
+  if (!id || !profileId || !eventId) return null;
+
+  return {
+    id,
+    profileId,
+    eventId,
+    templateId: stringOr(object, 'templateId', path, issues, DEFAULT_TEMPLATE_ID),
+    customizations: listOf(object, 'customizations', path, issues, decodeTemplateElement),
+    status: oneOfOr(object, 'status', path, issues, STATUSES, 'draft'),
+    exportedUrls: decodeExportedUrls(
+      optionalObject(object, 'exportedUrls', path, issues),
+      `${path}.exportedUrls`,
+      issues
+    ),
+    createdAt: timestamp(object, 'createdAt', path, issues),
+    updatedAt: timestamp(object, 'updatedAt', path, issues),
+  };
+};
+
+export const decodeExportResult: Decoder<{ url: string; platform: ExportPlatform }> = (
+  value,
+  path,
+  issues
+) => {
+  const object = readObject(value, path, issues);
+  const url = object && requiredString(object, 'url', path, issues);
+  const platform = object && requiredString(object, 'platform', path, issues);
+  if (!url || !platform || !EXPORT_PLATFORMS.includes(platform as ExportPlatform)) return null;
+  return { url, platform: platform as ExportPlatform };
+};
@@ -0,0 +1,239 @@
+/**
+ * Building blocks for the response schemas. Each reader takes the parent
+ * object, the key and the key's path for reporting; values of the wrong type
+ * are reported and replaced by a fallback or dropped, never thrown.
+ */
+
+import { parseHexColor } from '@/lib/skia/colors';
+
+/** A place where the response didn't match the expected shape */
+export interface SchemaIssue {
+  /** Dotted path into the response, e.g. `design.elements.2.properties.x` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Decodes an untrusted value, recording anything it had to fix or drop.
+ * Returns null when the value can't be used at all.
+ */
+export type Decoder<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T | null;
+
+export type UnknownObject = Record<string, unknown>;
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const join = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+export const isObject = (value: unknown): value is UnknownObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function readObject(
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): UnknownObject | null {
+  if (isObject(value)) return value;
+  issues.push({ path, message: `expected an object, got ${describe(value)}` });
+  return null;
+}
+
+/** Nested object that may be absent; anything else is reported and dropped */
+export function optionalObject(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): UnknownObject | undefined {
+  const value = object[key];
+  if (value === undefined || value === null) return undefined;
+  return readObject(value, join(path, key), issues) ?? undefined;
+}
+
+/** Required string, null (and reported) when missing or empty */
+export function requiredString(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): string | null {
+  const value = object[key];
+  if (typeof value === 'string' && value) return value;
+  issues.push({ path: join(path, key), message: `required string, got ${describe(value)}` });
+  return null;
+}
+
+/** Optional string; null is treated as absent */
+export function optionalString(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): string | undefined {
+  const value = object[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  issues.push({ path: join(path, key), message: `expected a string, got ${describe(value)}` });
+  return undefined;
+}
+
+/** String with a fallback when missing or of the wrong type */
+export function stringOr(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  fallback: string
+): string {
+  return requiredString(object, key, path, issues) ?? fallback;
+}
+
+/** Optional finite number; numeric strings are accepted */
+export function optionalNumber(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): number | undefined {
+  const value = object[key];
+  if (value === undefined || value === null) return undefined;
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof number === 'number' && Number.isFinite(number)) return number;
+  issues.push({ path: join(path, key), message: `expected a number, got ${describe(value)}` });
+  return undefined;
+}
+
+/** Required finite number, null (and reported) when missing */
+export function requiredNumber(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): number | null {
+  if (object[key] === undefined || object[key] === null) {
+    issues.push({ path: join(path, key), message: 'required number is missing' });
+    return null;
+  }
+  return optionalNumber(object, key, path, issues) ?? null;
+}
+
+export function booleanOr(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  fallback: boolean
+): boolean {
+  const value = object[key];
+  if (typeof value === 'boolean') return value;
+  if (value !== undefined && value !== null) {
+    issues.push({ path: join(path, key), message: `expected a boolean, got ${describe(value)}` });
+  }
+  return fallback;
+}
+
+/** One of a fixed set of strings, undefined (and reported if present) otherwise */
+export function optionalOneOf<T extends string>(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  allowed: readonly T[]
+): T | undefined {
+  const value = object[key];
+  if (value === undefined || value === null) return undefined;
+  if (allowed.includes(value as T)) return value as T;
+  issues.push({
+    path: join(path, key),
+    message: `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`,
+  });
+  return undefined;
+}
+
+export function oneOfOr<T extends string>(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  allowed: readonly T[],
+  fallback: T
+): T {
+  return optionalOneOf(object, key, path, issues, allowed) ?? fallback;
+}
+
+/**
+ * Array of decoded items. Items the decoder rejects are dropped; a missing
+ * array is empty.
+ */
+export function listOf<T>(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  decode: Decoder<T>
+): T[] {
+  const value = object[key];
+  if (value === undefined || value === null) return [];
+  const listPath = join(path, key);
+  if (!Array.isArray(value)) {
+    issues.push({ path: listPath, message: `expected an array, got ${describe(value)}` });
+    return [];
+  }
+  return value
+    .map((item: unknown, index) => decode(item, join(listPath, index), issues))
+    .filter((item): item is T => item !== null);
+}
+
+/** ISO timestamp; the epoch when missing so ordering and conflict checks still work */
+export function timestamp(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): string {
+  const value = object[key];
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+  issues.push({ path: join(path, key), message: `expected a timestamp, got ${describe(value)}` });
+  return new Date(0).toISOString();
+}
+
+/**
+ * Whether a string can be drawn as a colour: hex, rgb()/hsl() functions,
+ * `transparent`, or a `{{...}}` binding resolved at render time.
+ */
+export const isDrawableColor = (color: string): boolean =>
+  parseHexColor(color) !== null ||
+  /^(rgba?|hsla?)\(.+\)$/i.test(color.trim()) ||
+  color.trim() === 'transparent' ||
+  /^\{\{[^}]+\}\}$/.test(color.trim());
+
+/** Optional colour; invalid colours are reported and dropped */
+export function optionalColor(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[]
+): string | undefined {
+  const value = optionalString(object, key, path, issues);
+  if (value === undefined || isDrawableColor(value)) return value;
+  issues.push({ path: join(path, key), message: `invalid colour ${JSON.stringify(value)}` });
+  return undefined;
+}
+
+/** Hex colour that colour maths is done on, with a fallback when missing or invalid */
+export function hexColorOr(
+  object: UnknownObject,
+  key: string,
+  path: string,
+  issues: SchemaIssue[],
+  fallback: string
+): string {
+  const value = object[key];
+  if (typeof value === 'string' && parseHexColor(value)) return value;
+  issues.push({
+    path: join(path, key),
+    message: `expected a hex colour, got ${JSON.stringify(value)}`,
+  });
+  return fallback;
+}
@@ -0,0 +1,40 @@
+import { SOCIAL_PLATFORM_ORDER } from '@/lib/social';
+import {
+  booleanOr,
+  listOf,
+  optionalOneOf,
+  optionalString,
+  readObject,
+  requiredString,
+  stringOr,
+  timestamp,
+  type Decoder,
+} from './primitives';
+import type { Profile, SocialLink } from '@/types';
+
+/** Links for unknown platforms or without a URL are dropped */
+export const decodeSocialLink: Decoder<SocialLink> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  if (!object) return null;
+  const platform = optionalOneOf(object, 'platform', path, issues, SOCIAL_PLATFORM_ORDER);
+  const url = requiredString(object, 'url', path, issues);
+  return platform && url ? { platform, url } : null;
+};
+
+export const decodeProfile: Decoder<Profile> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  const id = object && requiredString(object, 'id', path, issues);
+  if (!object || !id) return null;
+
+  return {
+    id,
+    name: stringOr(object, 'name', path, issues, ''),
+    title: stringOr(object, 'title', path, issues, ''),
+    company: optionalString(object, 'company', path, issues),
+    avatarUrl: optionalString(object, 'avatarUrl', path, issues),
+    socialLinks: listOf(object, 'socialLinks', path, issues, decodeSocialLink),
+    isDefault: booleanOr(object, 'isDefault', path, issues, false),
+    createdAt: timestamp(object, 'createdAt', path, issues),
+    updatedAt: timestamp(object, 'updatedAt', path, issues),
+  };
+};
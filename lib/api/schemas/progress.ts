@@ -0,0 +1,19 @@
+import { oneOfOr, optionalNumber, readObject, type Decoder } from './primitives';
+import type { GenerationProgress, GenerationStage } from '@/types';
+
+const STAGES: readonly GenerationStage[] = [
+  'fetching_page',
+  'extracting_metadata',
+  'extracting_colors',
+  'generating_templates',
+];
+
+export const decodeGenerationProgress: Decoder<GenerationProgress> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  if (!object) return null;
+  return {
+    stage: oneOfOr(object, 'stage', path, issues, STAGES, 'extracting_metadata'),
+    current: optionalNumber(object, 'current', path, issues),
+    total: optionalNumber(object, 'total', path, issues),
+  };
+};
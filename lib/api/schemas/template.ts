@@ -0,0 +1,141 @@
+import { Colors } from '@/constants';
+import { SOCIAL_PLATFORM_ORDER } from '@/lib/social';
+import {
+  hexColorOr,
+  listOf,
+  oneOfOr,
+  optionalColor,
+  optionalNumber,
+  optionalObject,
+  optionalOneOf,
+  optionalString,
+  readObject,
+  requiredNumber,
+  requiredString,
+  stringOr,
+  timestamp,
+  type Decoder,
+  type SchemaIssue,
+  type UnknownObject,
+} from './primitives';
+import type {
+  SocialPlatform,
+  Template,
+  TemplateDesign,
+  TemplateElement,
+  TemplateElementProperties,
+  TemplateElementType,
+} from '@/types';
+
+const ELEMENT_TYPES: readonly TemplateElementType[] = [
+  'text',
+  'image',
+  'shape',
+  'logo',
+  'socials',
+  'qr',
+];
+const SHAPES = ['rect', 'rounded', 'ellipse', 'hexagon'] as const;
+const TEXT_ALIGNMENTS = ['left', 'center', 'right'] as const;
+const LAYOUTS = ['classic', 'modern', 'minimal', 'bold'] as const;
+const STATUSES = ['active', 'archived'] as const;
+
+const decodePlatform: Decoder<SocialPlatform> = (value, path, issues) => {
+  if (SOCIAL_PLATFORM_ORDER.includes(value as SocialPlatform)) return value as SocialPlatform;
+  issues.push({ path, message: `unknown platform ${JSON.stringify(value)}` });
+  return null;
+};
+
+const positive = (value: number | undefined) =>
+  value !== undefined && value > 0 ? value : undefined;
+
+// Elements without usable geometry can't be placed, so they're dropped
+const decodeProperties = (
+  object: UnknownObject,
+  path: string,
+  issues: SchemaIssue[]
+): TemplateElementProperties | null => {
+  const x = requiredNumber(object, 'x', path, issues);
+  const y = requiredNumber(object, 'y', path, issues);
+  const width = requiredNumber(object, 'width', path, issues);
+  const height = requiredNumber(object, 'height', path, issues);
+  if (x === null || y === null || width === null || height === null) return null;
+
+  const opacity = optionalNumber(object, 'opacity', path, issues);
+  const fontWeight = object.fontWeight;
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    content: optionalString(object, 'content', path, issues),
+    fill: optionalColor(object, 'fill', path, issues),
+    fontSize: positive(optionalNumber(object, 'fontSize', path, issues)),
+    fontFamily: optionalString(object, 'fontFamily', path, issues),
+    // Weights are often sent as numbers, e.g. 700
+    fontWeight:
+      typeof fontWeight === 'number'
+        ? String(fontWeight)
+        : optionalString(object, 'fontWeight', path, issues),
+    textAlign: optionalOneOf(object, 'textAlign', path, issues, TEXT_ALIGNMENTS),
+    shape: optionalOneOf(object, 'shape', path, issues, SHAPES),
+    stroke: optionalColor(object, 'stroke', path, issues),
+    strokeWidth: optionalNumber(object, 'strokeWidth', path, issues),
+    opacity: opacity === undefined ? undefined : Math.min(Math.max(opacity, 0), 1),
+    platforms:
+      object.platforms === undefined
+        ? undefined
+        : listOf(object, 'platforms', path, issues, decodePlatform),
+  };
+};
+
+/** Elements of unknown types or without geometry are dropped */
+export const decodeTemplateElement: Decoder<TemplateElement> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  if (!object) return null;
+  const id = requiredString(object, 'id', path, issues);
+  const type = optionalOneOf(object, 'type', path, issues, ELEMENT_TYPES);
+  const properties = optionalObject(object, 'properties', path, issues);
+  if (!properties)
+    issues.push({ path: `${path}.properties`, message: 'required object is missing' });
+  if (!id || !type || !properties) return null;
+
+  const decoded = decodeProperties(properties, `${path}.properties`, issues);
+  return decoded && { id, type, properties: decoded };
+};
+
+const decodeDesign = (
+  object: UnknownObject | undefined,
+  path: string,
+  issues: SchemaIssue[]
+): TemplateDesign => {
+  // Without a design the poster is drawn with the default arrangement
+  if (!object) return { layout: 'modern', backgroundColor: Colors.primary, elements: [] };
+  return {
+    layout: oneOfOr(object, 'layout', path, issues, LAYOUTS, 'modern'),
+    backgroundColor: hexColorOr(object, 'backgroundColor', path, issues, Colors.primary),
+    elements: listOf(object, 'elements', path, issues, decodeTemplateElement),
+  };
+};
+
+export const decodeTemplate: Decoder<Template> = (value, path, issues) => {
+  const object = readObject(value, path, issues);
+  const id = object && requiredString(object, 'id', path, issues);
+  if (!object || !id) return null;
+
+  const design = optionalObject(object, 'design', path, issues);
+  if (!design) issues.push({ path: `${path}.design`, message: 'required object is missing' });
+
+  return {
+    id,
+    name: stringOr(object, 'name', path, issues, 'Untitled template'),
+    eventId: optionalString(object, 'eventId', path, issues),
+    design: decodeDesign(design, `${path}.design`, issues),
+    previewImageUrl: optionalString(object, 'previewImageUrl', path, issues),
+    status: oneOfOr(object, 'status', path, issues, STATUSES, 'active'),
+    usageCount: optionalNumber(object, 'usageCount', path, issues) ?? 0,
+    createdAt: timestamp(object, 'createdAt', path, issues),
+    updatedAt: timestamp(object, 'updatedAt', path, issues),
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Server-sent events over apiClient
+ *
+ * React Native's fetch can't read a response body as it arrives, but XHR
+ * exposes the partial text on every progress event, on native and web alike.
+ * Going through apiClient keeps the base URL, auth and error handling of
+ * ordinary requests.
+ *
+ * Streams end with a `result` event carrying the final payload; an `error`
+ * event carries the same body as an error response.
+ */
+
+import type { AxiosProgressEvent } from 'axios';
+import { apiClient, type RequestOptions } from './client';
+import { ApiError, ServerError, ValidationError } from './errors';
+
+export interface ServerSentEvent {
+  /** `message` when the server didn't name the event */
+  event: string;
+  data: unknown;
+}
+
+interface StreamErrorBody {
+  code?: string;
+  message?: string;
+  statusCode?: number;
+}
+
+const parseData = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Parse complete events out of a buffer. Returns them with the unparsed tail,
+ * which is kept until the rest of its event arrives.
+ */
+export function parseServerSentEvents(buffer: string): {
+  events: ServerSentEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks.flatMap((block) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach((line) => {
+      if (line.startsWith(':')) return;
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      if (field === 'data') data.push(value);
+    });
+    return data.length > 0 ? [{ event, data: parseData(data.join('\n')) }] : [];
+  });
+  return { events, rest };
+}
+
+const toStreamError = (data: unknown): ApiError => {
+  const { code, message = 'Something went wrong', statusCode } = (data ?? {}) as StreamErrorBody;
+  if (statusCode === 400 || statusCode === 422) {
+    return new ValidationError(message, {}, { status: statusCode, code });
+  }
+  return statusCode && statusCode < 500
+    ? new ApiError(message, { status: statusCode, code })
+    : new ServerError(message, { status: statusCode, code });
+};
+
+/**
+ * POST and stream the response as server-sent events. Every event except
+ * `result` and `error` is passed to onEvent; resolves with the `result` data.
+ */
+export async function postEventStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: ServerSentEvent) => void,
+  options: RequestOptions = {}
+): Promise<unknown> {
+  let consumed = 0;
+  let buffer = '';
+  // Filled in by consume, which TypeScript can't follow into the callbacks
+  const outcome: { result: { data: unknown } | null; error: ApiError | null } = {
+    result: null,
+    error: null,
+  };
+
+  const consume = (text: string, isComplete: boolean) => {
+    // A retried request starts a new response
+    if (text.length < consumed) {
+      consumed = 0;
+      buffer = '';
+    }
+    buffer += text.slice(consumed);
+    consumed = text.length;
+
+    const parsed = parseServerSentEvents(isComplete ? `${buffer}\n\n` : buffer);
+    buffer = isComplete ? '' : parsed.rest;
+    parsed.events.forEach((event) => {
+      if (event.event === 'result') outcome.result = { data: event.data };
+      else if (event.event === 'error') outcome.error ??= toStreamError(event.data);
+      else if (!outcome.error) onEvent(event);
+    });
+  };
+
+  const response = await apiClient.post<string>(url, body, {
+    ...options,
+    responseType: 'text',
+    headers: { Accept: 'text/event-stream' },
+    onDownloadProgress: ({ event }: AxiosProgressEvent) => {
+      const target = (event as { target?: { responseText?: unknown } } | undefined)?.target;
+      if (typeof target?.responseText === 'string') consume(target.responseText, false);
+    },
+  });
+  consume(typeof response.data === 'string' ? response.data : '', true);
+
+  if (outcome.error) throw outcome.error;
+  if (!outcome.result) throw new ServerError('The stream ended without a result');
+  return outcome.result.data;
+}
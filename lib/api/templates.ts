@@ -2,41 +2,99 @@
  * Templates API - Template generation and management
  */
 
-import { apiClient } from './client';
-import type { Template, GenerateTemplatesDto } from '@/types';
+import { readThrough } from '@/lib/offline';
+import { apiClient, type RequestOptions } from './client';
+import { API_CONFIG } from './config';
+import { isRouteNotFound } from './errors';
+import {
+  decodeGenerationProgress,
+  decodeTemplate,
+  parseListResponse,
+  parseResponse,
+  parseStreamEvent,
+} from './schemas';
+import { postEventStream } from './stream';
+import type { Template, GenerateTemplatesDto, GenerationProgress } from '@/types';
 
 const ENDPOINT = '/templates';
 
 export const templatesApi = {
   /**
-   * Generate templates for an event using AI
+   * Generate templates for an event using AI. Retried on transient failures, see API_CONFIG.aiRetryAttempts
    */
-  async generate(data: GenerateTemplatesDto): Promise<Template[]> {
-    const response = await apiClient.post<Template[]>(`${ENDPOINT}/generate`, data);
-    return response.data;
+  async generate(data: GenerateTemplatesDto, options: RequestOptions = {}): Promise<Template[]> {
+    const response = await apiClient.post<unknown>(`${ENDPOINT}/generate`, data, {
+      ...options,
+      retry: { attempts: API_CONFIG.aiRetryAttempts, ...options.retry },
+    });
+    return parseListResponse('POST /templates/generate', response.data, decodeTemplate);
+  },
+
+  /**
+   * Generate templates for an event using AI, streaming progress and each
+   * template as soon as it is ready. Falls back to generate, without
+   * progress, when the backend can't stream.
+   */
+  async generateStream(
+    data: GenerateTemplatesDto,
+    callbacks: {
+      onProgress: (progress: GenerationProgress) => void;
+      onTemplate: (template: Template) => void;
+    },
+    options: RequestOptions = {}
+  ): Promise<Template[]> {
+    const source = 'POST /templates/generate/stream';
+    try {
+      const result = await postEventStream(
+        `${ENDPOINT}/generate/stream`,
+        data,
+        ({ event, data: payload }) => {
+          if (event === 'stage') {
+            const progress = parseStreamEvent(source, payload, decodeGenerationProgress);
+            if (progress) callbacks.onProgress(progress);
+          } else if (event === 'template') {
+            const template = parseStreamEvent(source, payload, decodeTemplate);
+            if (template) callbacks.onTemplate(template);
+          }
+        },
+        { ...options, retry: { attempts: API_CONFIG.aiRetryAttempts, ...options.retry } }
+      );
+      return parseListResponse(source, result, decodeTemplate);
+    } catch (err) {
+      if (isRouteNotFound(err)) return templatesApi.generate(data, options);
+      throw err;
+    }
   },
 
   /**
    * Get all templates
    */
-  async getAll(): Promise<Template[]> {
-    const response = await apiClient.get<Template[]>(ENDPOINT);
-    return response.data;
+  async getAll(options: RequestOptions = {}): Promise<Template[]> {
+    return readThrough('templates', ENDPOINT, async () => {
+      const response = await apiClient.get<unknown>(ENDPOINT, options);
+      return parseListResponse('GET /templates', response.data, decodeTemplate);
+    });
   },
 
   /**
    * Get templates for a specific event
    */
-  async getByEventId(eventId: string): Promise<Template[]> {
-    const response = await apiClient.get<Template[]>(`${ENDPOINT}?eventId=${eventId}`);
-    return response.data;
+  async getByEventId(eventId: string, options: RequestOptions = {}): Promise<Template[]> {
+    const url = `${ENDPOINT}?eventId=${eventId}`;
+    return readThrough('templates', url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseListResponse('GET /templates?eventId', response.data, decodeTemplate);
+    });
   },
 
   /**
    * Get template by ID
    */
-  async getById(id: string): Promise<Template> {
-    const response = await apiClient.get<Template>(`${ENDPOINT}/${id}`);
-    return response.data;
+  async getById(id: string, options: RequestOptions = {}): Promise<Template> {
+    const url = `${ENDPOINT}/${id}`;
+    return readThrough('templates', url, async () => {
+      const response = await apiClient.get<unknown>(url, options);
+      return parseResponse('GET /templates/:id', response.data, decodeTemplate);
+    });
   },
 };
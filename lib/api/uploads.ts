@@ -0,0 +1,18 @@
+/**
+ * Uploads API - Image uploads for profile photos
+ */
+
+import { apiClient, type RequestOptions } from './client';
+import type { UploadImageDto, UploadedImage } from '@/types';
+
+const ENDPOINT = '/uploads';
+
+export const uploadsApi = {
+  /**
+   * Upload a profile photo, returns its public URL
+   */
+  async uploadAvatar(data: UploadImageDto, options: RequestOptions = {}): Promise<UploadedImage> {
+    const response = await apiClient.post<UploadedImage>(`${ENDPOINT}/avatars`, data, options);
+    return response.data;
+  },
+};
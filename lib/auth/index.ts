@@ -0,0 +1,8 @@
+export {
+  restoreSession,
+  requestMagicLink,
+  signInWithCode,
+  signOut,
+  refreshSession,
+} from './session';
+export type { AuthProvider } from './session';
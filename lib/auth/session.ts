@@ -0,0 +1,121 @@
+/**
+ * Session lifecycle - restoring on launch, magic link sign-in, token refresh
+ * and sign-out. Registers itself with apiClient, so every request carries the
+ * access token and a 401 triggers one refresh.
+ */
+
+import * as Linking from 'expo-linking';
+import { API_CONFIG, ApiError, authApi, setAuthHandlers } from '@/lib/api';
+import { clearOfflineData } from '@/lib/offline';
+import { clearQueryCache } from '@/lib/query';
+import { useAuthStore } from '@/lib/stores/authStore';
+import { usePosterCreationStore } from '@/lib/stores/posterCreationStore';
+import { standInAuth } from './standIn';
+import { deleteSession, loadSession, saveSession } from './tokenStorage';
+import type { AuthSession, MagicLinkSent } from '@/types';
+
+/** Issues sessions: the backend, or the local stand-in in development */
+export type AuthProvider = Pick<typeof authApi, 'requestMagicLink' | 'exchangeCode' | 'refresh'>;
+
+// Refresh a little early so requests don't race the expiry
+const EXPIRY_MARGIN = 30 * 1000;
+
+const getProvider = (): AuthProvider =>
+  API_CONFIG.authProvider === 'local' ? standInAuth : authApi;
+
+const getSession = () => useAuthStore.getState().session;
+
+let refreshing: Promise<AuthSession | null> | null = null;
+
+// The refresh token itself was refused, as opposed to the backend being unavailable
+const isSessionRejected = (error: unknown) =>
+  error instanceof ApiError && [400, 401, 403].includes(error.status ?? 0);
+
+const startSession = async (session: AuthSession) => {
+  await saveSession(session);
+  useAuthStore.getState().setSession(session);
+};
+
+/**
+ * Read the stored session on launch. Until this resolves the auth status is
+ * `restoring`.
+ */
+export async function restoreSession(): Promise<void> {
+  const session = await loadSession();
+  useAuthStore.getState().setSession(session);
+}
+
+/**
+ * Send a sign-in link to an email address. The link opens the sign-in
+ * screen with the code filled in.
+ */
+export function requestMagicLink(email: string): Promise<MagicLinkSent> {
+  return getProvider().requestMagicLink({
+    email,
+    redirectUrl: Linking.createURL('/sign-in'),
+  });
+}
+
+/**
+ * Finish signing in with the code from a magic link.
+ */
+export async function signInWithCode(email: string, code: string): Promise<void> {
+  await startSession(await getProvider().exchangeCode({ email, code }));
+}
+
+/**
+ * Sign out and drop everything belonging to the user: cached and offline
+ * data, unsynced changes and the poster being created.
+ */
+export async function signOut(): Promise<void> {
+  await deleteSession();
+  useAuthStore.getState().setSession(null);
+  clearQueryCache();
+  usePosterCreationStore.getState().reset();
+  await clearOfflineData();
+}
+
+/**
+ * Get a new access token. Concurrent calls share one refresh. Resolves with
+ * null and signs out when the session was rejected; rejects, keeping the
+ * session, on any other failure such as being offline.
+ */
+export function refreshSession(): Promise<AuthSession | null> {
+  refreshing ??= (async () => {
+    const session = getSession();
+    if (!session) return null;
+    try {
+      const refreshed = await getProvider().refresh({ refreshToken: session.refreshToken });
+      await startSession(refreshed);
+      return refreshed;
+    } catch (err) {
+      if (!isSessionRejected(err)) throw err;
+      await signOut();
+      return null;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+}
+
+setAuthHandlers({
+  async getAccessToken() {
+    const session = getSession();
+    if (!session) return null;
+    if (Date.parse(session.expiresAt) - EXPIRY_MARGIN > Date.now()) return session.accessToken;
+    try {
+      return (await refreshSession())?.accessToken ?? null;
+    } catch {
+      // Offline: send the old token and let the request fail on its own
+      return session.accessToken;
+    }
+  },
+  async refreshAccessToken() {
+    try {
+      return (await refreshSession())?.accessToken ?? null;
+    } catch {
+      return null;
+    }
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * Local sign-in stand-in - issues sessions in the app, for development
+ * without the backend's auth endpoints. No email is sent: the code is
+ * returned as `devCode` and shown on the sign-in screen.
+ *
+ * Tokens are unsigned and encode the user, so a backend stand-in can read
+ * the user id from them. Codes live in memory and are lost on reload.
+ */
+
+import { ApiError } from '@/lib/api/errors';
+import type { AuthProvider } from './session';
+import type { AuthSession, AuthUser } from '@/types';
+
+const CODE_TTL = 10 * 60 * 1000;
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+
+const pendingCodes = new Map<string, { code: string; expiresAt: number }>();
+
+const toHex = (text: string) =>
+  Array.from(new TextEncoder().encode(text), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new TextDecoder().decode(
+    new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)))
+  );
+
+// Stable per email, so signing in again finds the same data
+const userIdFor = (email: string) => {
+  let hash = 0;
+  for (const char of email) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return `local-user-${(hash >>> 0).toString(36)}`;
+};
+
+const createSession = (email: string): AuthSession => {
+  const user: AuthUser = { id: userIdFor(email), email };
+  const expiresAt = Date.now() + ACCESS_TOKEN_TTL;
+  return {
+    accessToken: `standin.${toHex(JSON.stringify({ sub: user.id, email, exp: expiresAt }))}`,
+    refreshToken: `standin-refresh.${toHex(email)}`,
+    expiresAt: new Date(expiresAt).toISOString(),
+    user,
+  };
+};
+
+// Rejected like the backend would, so callers handle both the same way
+const rejectSignIn = (message: string) =>
+  Promise.reject(new ApiError(message, { status: 401, code: 'UNAUTHORIZED' }));
+
+export const standInAuth: AuthProvider = {
+  requestMagicLink({ email }) {
+    const code = String(Math.floor(100000 + Math.random() * 900000));
+    pendingCodes.set(email, { code, expiresAt: Date.now() + CODE_TTL });
+    return Promise.resolve({ devCode: code });
+  },
+
+  exchangeCode({ email, code }) {
+    const pending = pendingCodes.get(email);
+    if (!pending || pending.expiresAt < Date.now()) {
+      return rejectSignIn('This sign-in link has expired. Request a new one.');
+    }
+    if (pending.code !== code.trim()) {
+      return rejectSignIn("That code doesn't match. Check it and try again.");
+    }
+    pendingCodes.delete(email);
+    return Promise.resolve(createSession(email));
+  },
+
+  refresh({ refreshToken }) {
+    const [kind, encoded] = refreshToken.split('.');
+    if (kind !== 'standin-refresh' || !encoded) return rejectSignIn('Session expired');
+    return Promise.resolve(createSession(fromHex(encoded)));
+  },
+};
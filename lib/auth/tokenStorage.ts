@@ -0,0 +1,47 @@
+/**
+ * Session storage - the keychain/keystore via SecureStore on native. Web has
+ * no secure storage, so the session falls back to AsyncStorage there.
+ */
+
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AuthSession } from '@/types';
+
+// SecureStore keys may only contain letters, digits, '.', '-' and '_'
+const KEY = 'meetmeat.session';
+
+const isSecureStoreAvailable = Platform.OS !== 'web';
+
+export async function loadSession(): Promise<AuthSession | null> {
+  try {
+    const value = isSecureStoreAvailable
+      ? await SecureStore.getItemAsync(KEY)
+      : await AsyncStorage.getItem(KEY);
+    return value === null ? null : (JSON.parse(value) as AuthSession);
+  } catch (err) {
+    if (__DEV__) console.warn('[Auth] Failed to load session', err);
+    return null;
+  }
+}
+
+export async function saveSession(session: AuthSession): Promise<void> {
+  const value = JSON.stringify(session);
+  if (isSecureStoreAvailable) {
+    await SecureStore.setItemAsync(KEY, value);
+  } else {
+    await AsyncStorage.setItem(KEY, value);
+  }
+}
+
+export async function deleteSession(): Promise<void> {
+  try {
+    if (isSecureStoreAvailable) {
+      await SecureStore.deleteItemAsync(KEY);
+    } else {
+      await AsyncStorage.removeItem(KEY);
+    }
+  } catch (err) {
+    if (__DEV__) console.warn('[Auth] Failed to delete session', err);
+  }
+}
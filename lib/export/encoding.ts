@@ -0,0 +1,54 @@
+/**
+ * Encoding helpers for exported images
+ */
+
+import type { ExportedImage, ExportFormat } from './types';
+
+export const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  pdf: 'application/pdf',
+  svg: 'image/svg+xml',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  pdf: 'pdf',
+  svg: 'svg',
+};
+
+// Keep String.fromCharCode below the engine's argument limit
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function toDataUri(image: ExportedImage): string {
+  return `data:${image.mimeType};base64,${bytesToBase64(image.bytes)}`;
+}
+
+/**
+ * Build a filesystem-safe name without extension, e.g. "react-summit-posters"
+ */
+export function getExportBaseName(parts: (string | undefined)[]): string {
+  const base = parts
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return base || 'poster';
+}
+
+/**
+ * Build a filesystem-safe file name, e.g. "react-summit-linkedin.png"
+ */
+export function getExportFileName(parts: (string | undefined)[], format: ExportFormat): string {
+  return `${getExportBaseName(parts)}.${FILE_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,21 @@
+export {
+  bytesToBase64,
+  toDataUri,
+  getExportBaseName,
+  getExportFileName,
+  MIME_TYPES,
+} from './encoding';
+export { shareImage, saveImage, shareImages, saveImages } from './share';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
+export { createPdf } from './pdf';
+export type { PdfBox, PdfLine, PdfPage } from './pdf';
+export { getPrintLayout, PRINT_DPI, PRINT_BLEED_MM, PRINT_SIZE_LIMITS_MM } from './print';
+export type { PrintOptions, PrintLayout } from './print';
+export type {
+  RasterFormat,
+  ExportFormat,
+  RasterOptions,
+  ExportedImage,
+  ExportFile,
+} from './types';
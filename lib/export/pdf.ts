@@ -0,0 +1,101 @@
+/**
+ * Minimal PDF writer for print exports: one page holding a JPEG and a few
+ * hairlines (crop marks). JPEG goes in as-is, PDF decodes it natively.
+ */
+
+import type { ExportedImage } from './types';
+
+/** A rectangle in PDF points, origin at the bottom left */
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  /** Finished page after cutting, for print shops' imposition software */
+  trimBox: PdfBox;
+  /** Trim plus bleed; the image is drawn over this area */
+  bleedBox: PdfBox;
+  lines: PdfLine[];
+}
+
+// Hairline, the usual weight for crop marks
+const LINE_WIDTH = 0.25;
+
+const num = (value: number) => String(Number(value.toFixed(2)));
+
+const box = ({ x, y, width, height }: PdfBox) =>
+  `[${num(x)} ${num(y)} ${num(x + width)} ${num(y + height)}]`;
+
+export function createPdf(page: PdfPage, image: ExportedImage): Uint8Array {
+  if (image.format !== 'jpeg') throw new Error('PDF pages embed JPEG images only');
+
+  const encoder = new TextEncoder();
+  const { bleedBox } = page;
+  const content = [
+    `q ${num(bleedBox.width)} 0 0 ${num(bleedBox.height)} ${num(bleedBox.x)} ${num(bleedBox.y)} cm /Im0 Do Q`,
+    ...(page.lines.length > 0 ? [`0 G ${LINE_WIDTH} w`] : []),
+    ...page.lines.map(({ x1, y1, x2, y2 }) => `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`),
+  ].join('\n');
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${box({ x: 0, y: 0, width: page.width, height: page.height })}` +
+        ` /TrimBox ${box(page.trimBox)} /BleedBox ${box(bleedBox)}` +
+        ' /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}` +
+        ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`,
+      image.bytes,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+  ];
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment tells transfer tools the file isn't plain text
+  write('%PDF-1.4\n%âãÏÓ\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+}
@@ -0,0 +1,98 @@
+/**
+ * Print layout - page geometry for PDF exports at print resolution
+ */
+
+import type { ExportSize, PrintSize } from '@/types';
+import type { PdfBox, PdfLine, PdfPage } from './pdf';
+
+export interface PrintOptions {
+  size: PrintSize;
+  /** Extend the background PRINT_BLEED_MM past the trim on every side */
+  bleed: boolean;
+  cropMarks: boolean;
+}
+
+export interface PrintLayout {
+  /** Pixel size to render, bleed included; the safe zone keeps content inside the trim */
+  raster: ExportSize;
+  /** Resolution the raster is rendered at, PRINT_DPI unless the page is very large */
+  dpi: number;
+  page: PdfPage;
+}
+
+export const PRINT_DPI = 300;
+export const PRINT_BLEED_MM = 3;
+export const PRINT_SIZE_LIMITS_MM = { min: 50, max: 1000 };
+
+// Crop marks start clear of the bleed so they never show on the cut page
+const CROP_MARK_OFFSET_MM = 3;
+const CROP_MARK_LENGTH_MM = 5;
+// Keep the offscreen surface within what phones can allocate, about A2 at 300 DPI
+const MAX_PRINT_PIXELS = 35_000_000;
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+const toPoints = (mm: number) => (mm / MM_PER_INCH) * POINTS_PER_INCH;
+
+const getCropMarks = ({ x, y, width, height }: PdfBox): PdfLine[] => {
+  const offset = toPoints(CROP_MARK_OFFSET_MM);
+  const length = toPoints(CROP_MARK_LENGTH_MM);
+  const xs = [x, x + width];
+  const ys = [y, y + height];
+  return [
+    // Vertical marks below and above each trim edge
+    ...xs.flatMap((lineX) => [
+      { x1: lineX, y1: y - offset - length, x2: lineX, y2: y - offset },
+      { x1: lineX, y1: y + height + offset, x2: lineX, y2: y + height + offset + length },
+    ]),
+    // Horizontal marks left and right of each trim edge
+    ...ys.flatMap((lineY) => [
+      { x1: x - offset - length, y1: lineY, x2: x - offset, y2: lineY },
+      { x1: x + width + offset, y1: lineY, x2: x + width + offset + length, y2: lineY },
+    ]),
+  ];
+};
+
+export function getPrintLayout({ size, bleed, cropMarks }: PrintOptions): PrintLayout {
+  const { widthMm, heightMm } = size;
+  const bleedMm = bleed ? PRINT_BLEED_MM : 0;
+  const fullWidthMm = widthMm + bleedMm * 2;
+  const fullHeightMm = heightMm + bleedMm * 2;
+
+  const area = (fullWidthMm / MM_PER_INCH) * (fullHeightMm / MM_PER_INCH);
+  const dpi = Math.min(PRINT_DPI, Math.floor(Math.sqrt(MAX_PRINT_PIXELS / area)));
+  const bleedWidth = (bleedMm / fullWidthMm) * 100;
+  const bleedHeight = (bleedMm / fullHeightMm) * 100;
+
+  const marginMm = cropMarks ? CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM : bleedMm;
+  const trimBox = {
+    x: toPoints(marginMm),
+    y: toPoints(marginMm),
+    width: toPoints(widthMm),
+    height: toPoints(heightMm),
+  };
+
+  return {
+    raster: {
+      width: Math.round((fullWidthMm / MM_PER_INCH) * dpi),
+      height: Math.round((fullHeightMm / MM_PER_INCH) * dpi),
+      safeZone: bleed
+        ? { top: bleedHeight, right: bleedWidth, bottom: bleedHeight, left: bleedWidth }
+        : undefined,
+    },
+    dpi,
+    page: {
+      width: toPoints(widthMm + marginMm * 2),
+      height: toPoints(heightMm + marginMm * 2),
+      trimBox,
+      bleedBox: {
+        x: toPoints(marginMm - bleedMm),
+        y: toPoints(marginMm - bleedMm),
+        width: toPoints(fullWidthMm),
+        height: toPoints(fullHeightMm),
+      },
+      lines: cropMarks ? getCropMarks(trimBox) : [],
+    },
+  };
+}
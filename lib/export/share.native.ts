@@ -0,0 +1,72 @@
+/**
+ * Share/save exported images on iOS and Android
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { ExportedImage, ExportFile } from './types';
+
+const UTIS: Record<string, string> = {
+  'image/png': 'public.png',
+  'image/jpeg': 'public.jpeg',
+  'application/pdf': 'com.adobe.pdf',
+  'image/svg+xml': 'public.svg-image',
+};
+
+const writeImage = (image: ExportedImage, directory: Directory, fileName: string): File => {
+  const file = new File(directory, fileName);
+  file.create({ overwrite: true });
+  file.write(image.bytes);
+  return file;
+};
+
+/**
+ * Write the image to the app's documents directory. Resolves to the file URI.
+ */
+export function saveImage(image: ExportedImage, fileName: string): Promise<string> {
+  return Promise.resolve(writeImage(image, Paths.document, fileName).uri);
+}
+
+/**
+ * Write several images to the documents directory, in a folder named
+ * `archiveName`. Resolves to the folder URI.
+ */
+export function saveImages(files: ExportFile[], archiveName: string): Promise<string> {
+  const directory = new Directory(Paths.document, archiveName);
+  directory.create({ idempotent: true });
+  files.forEach(({ image, fileName }) => writeImage(image, directory, fileName));
+  return Promise.resolve(directory.uri);
+}
+
+/**
+ * Open the native share sheet with the image (which also offers "Save Image").
+ */
+export async function shareImage(
+  image: ExportedImage,
+  fileName: string,
+  title?: string
+): Promise<void> {
+  const file = writeImage(image, Paths.cache, fileName);
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, {
+    mimeType: image.mimeType,
+    UTI: UTIS[image.mimeType],
+    dialogTitle: title,
+  });
+}
+
+/**
+ * Share several images. The native share sheet takes one file at a time, so
+ * a sheet opens for each image once the previous one is closed.
+ */
+export async function shareImages(
+  files: ExportFile[],
+  _archiveName: string,
+  title?: string
+): Promise<void> {
+  for (const { image, fileName } of files) {
+    await shareImage(image, fileName, title);
+  }
+}
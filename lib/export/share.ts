@@ -0,0 +1,76 @@
+/**
+ * Share/save exported images on web
+ */
+
+import { createZip } from './zip';
+import type { ExportedImage, ExportFile } from './types';
+
+const toFile = (image: ExportedImage, fileName: string): File =>
+  new File([image.bytes as BlobPart], fileName, { type: image.mimeType });
+
+const download = (file: File) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Trigger a browser download of the image.
+ */
+export function saveImage(image: ExportedImage, fileName: string): Promise<string> {
+  download(toFile(image, fileName));
+  return Promise.resolve(fileName);
+}
+
+/**
+ * Download several images as one ZIP archive, `archiveName` without the
+ * extension. Resolves to the archive's file name.
+ */
+export function saveImages(files: ExportFile[], archiveName: string): Promise<string> {
+  const zip = createZip(
+    files.map(({ image, fileName }) => ({ name: fileName, bytes: image.bytes }))
+  );
+  const fileName = `${archiveName}.zip`;
+  download(new File([zip as BlobPart], fileName, { type: 'application/zip' }));
+  return Promise.resolve(fileName);
+}
+
+/**
+ * Open the Web Share sheet with the image, falling back to a download when
+ * file sharing is not supported (most desktop browsers).
+ */
+export async function shareImage(
+  image: ExportedImage,
+  fileName: string,
+  title?: string
+): Promise<void> {
+  const file = toFile(image, fileName);
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return;
+  }
+  await saveImage(image, fileName);
+}
+
+/**
+ * Share several images at once, falling back to a ZIP download when the
+ * browser can't share files.
+ */
+export async function shareImages(
+  files: ExportFile[],
+  archiveName: string,
+  title?: string
+): Promise<void> {
+  const shared = files.map(({ image, fileName }) => toFile(image, fileName));
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: shared })) {
+    await navigator.share({ files: shared, title });
+    return;
+  }
+  await saveImages(files, archiveName);
+}
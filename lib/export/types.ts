@@ -0,0 +1,29 @@
+/**
+ * Export types - encoded poster output ready to share, save or upload
+ */
+
+export type RasterFormat = 'png' | 'jpeg';
+
+/** Every file type an export can produce */
+export type ExportFormat = RasterFormat | 'pdf' | 'svg';
+
+export interface RasterOptions {
+  format?: RasterFormat;
+  /** JPEG quality, 0-100. Ignored for PNG. */
+  quality?: number;
+}
+
+export interface ExportedImage {
+  bytes: Uint8Array;
+  /** Pixel size; for PDFs, the size of the embedded raster, for SVGs the viewBox */
+  width: number;
+  height: number;
+  format: ExportFormat;
+  mimeType: string;
+}
+
+/** An exported image with the name it's shared or saved under */
+export interface ExportFile {
+  image: ExportedImage;
+  fileName: string;
+}
@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP writer for bundling exports into one download. Entries are
+ * stored uncompressed: PNG and JPEG are compressed already.
+ */
+
+export interface ZipEntry {
+  name: string;
+  bytes: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as ZIP headers store them
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+export function createZip(entries: ZipEntry[], modifiedAt = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+  const files = entries.map((entry) => ({
+    ...entry,
+    nameBytes: encoder.encode(entry.name),
+    crc: crc32(entry.bytes),
+  }));
+
+  const localSize = files.reduce(
+    (sum, file) => sum + LOCAL_HEADER_SIZE + file.nameBytes.length + file.bytes.length,
+    0
+  );
+  const centralSize = files.reduce(
+    (sum, file) => sum + CENTRAL_HEADER_SIZE + file.nameBytes.length,
+    0
+  );
+  const output = new Uint8Array(localSize + centralSize + END_RECORD_SIZE);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const offsets = files.map((file) => {
+    const start = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.bytes.length, true);
+    view.setUint32(offset + 22, file.bytes.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.nameBytes, offset + LOCAL_HEADER_SIZE);
+    output.set(file.bytes, offset + LOCAL_HEADER_SIZE + file.nameBytes.length);
+    offset += LOCAL_HEADER_SIZE + file.nameBytes.length + file.bytes.length;
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.bytes.length, true);
+    view.setUint32(offset + 24, file.bytes.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(offset + 42, offsets[index] ?? 0, true);
+    output.set(file.nameBytes, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return output;
+}
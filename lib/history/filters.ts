@@ -0,0 +1,124 @@
+/**
+ * Poster history filters - search, filter and grouping options for the
+ * History tab, round-tripped through the route's query params so filtered
+ * views can be deep-linked.
+ */
+
+import { EXPORT_PLATFORM_NAMES, EXPORT_PRESETS } from '@/types';
+import type { PosterHistoryItem } from '@/lib/hooks';
+import type { ExportPlatform, ExportPresetId, Poster, PosterStatus } from '@/types';
+
+export type PosterGrouping = 'none' | 'event' | 'month';
+
+export interface PosterFilters {
+  /** Matched against event name and organizer */
+  query: string;
+  status?: PosterStatus;
+  platform?: ExportPlatform;
+  profileId?: string;
+  /** Inclusive date range as YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  groupBy: PosterGrouping;
+}
+
+/** Query param values as expo-router hands them over */
+export type FilterParams = Record<string, string | string[] | undefined>;
+
+export const DEFAULT_FILTERS: PosterFilters = { query: '', groupBy: 'none' };
+
+const STATUSES: PosterStatus[] = ['draft', 'exported'];
+const GROUPINGS: PosterGrouping[] = ['none', 'event', 'month'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const first = (value: string | string[] | undefined): string | undefined => {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single === '' ? undefined : single;
+};
+
+const oneOf = <T extends string>(value: string | undefined, options: readonly T[]): T | undefined =>
+  options.find((option) => option === value);
+
+export const isValidDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+const validDate = (value: string | undefined): string | undefined =>
+  value && isValidDate(value) ? value : undefined;
+
+/**
+ * Read filters from query params, ignoring values that aren't recognised.
+ */
+export function parseFilters(params: FilterParams): PosterFilters {
+  return {
+    query: first(params.q) ?? '',
+    status: oneOf(first(params.status), STATUSES),
+    platform: oneOf(first(params.platform), Object.keys(EXPORT_PLATFORM_NAMES) as ExportPlatform[]),
+    profileId: first(params.profile),
+    from: validDate(first(params.from)),
+    to: validDate(first(params.to)),
+    groupBy: oneOf(first(params.group), GROUPINGS) ?? 'none',
+  };
+}
+
+/**
+ * Query params for `filters`. Unset filters map to undefined so they are
+ * removed from the URL.
+ */
+export function serializeFilters(filters: PosterFilters): Record<string, string | undefined> {
+  return {
+    q: filters.query === '' ? undefined : filters.query,
+    status: filters.status,
+    platform: filters.platform,
+    profile: filters.profileId,
+    from: filters.from,
+    to: filters.to,
+    group: filters.groupBy === 'none' ? undefined : filters.groupBy,
+  };
+}
+
+/** Number of active filters, not counting search and grouping */
+export const countActiveFilters = (filters: PosterFilters): number =>
+  [filters.status, filters.platform, filters.profileId, filters.from, filters.to].filter(Boolean)
+    .length;
+
+/**
+ * The date a poster is filed under: its event's start date when known,
+ * otherwise when it was created.
+ */
+export const getPosterTimestamp = ({ poster, event }: PosterHistoryItem): Date =>
+  new Date(event?.startDate ?? poster.createdAt);
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Whether any of the platform's presets (feed, story, header...) has been exported */
+export const hasExportFor = (poster: Poster, platform: ExportPlatform): boolean =>
+  (Object.keys(EXPORT_PRESETS) as ExportPresetId[]).some(
+    (preset) => EXPORT_PRESETS[preset].platform === platform && !!poster.exportedUrls[preset]
+  );
+
+const matchesQuery = ({ event }: PosterHistoryItem, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [event?.name, event?.organizerName].filter(Boolean).join(' ').toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+export function filterPosters(items: PosterHistoryItem[], filters: PosterFilters): PosterHistoryItem[] {
+  return items.filter((item) => {
+    const { poster } = item;
+    if (!matchesQuery(item, filters.query)) return false;
+    if (filters.status && poster.status !== filters.status) return false;
+    if (filters.platform && !hasExportFor(poster, filters.platform)) return false;
+    if (filters.profileId && poster.profileId !== filters.profileId) return false;
+
+    if (filters.from || filters.to) {
+      // Compare local calendar days so the range is inclusive on both ends
+      const day = toDayKey(getPosterTimestamp(item));
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Poster history grouping - splits a filtered poster list into sections
+ */
+
+import { getPosterTimestamp, type PosterGrouping } from './filters';
+import type { PosterHistoryItem } from '@/lib/hooks';
+
+export interface PosterGroup {
+  key: string;
+  title: string;
+  items: PosterHistoryItem[];
+}
+
+const getGroup = (
+  item: PosterHistoryItem,
+  groupBy: Exclude<PosterGrouping, 'none'>
+): Omit<PosterGroup, 'items'> => {
+  if (groupBy === 'event') {
+    return { key: item.poster.eventId, title: item.event?.name ?? 'Untitled event' };
+  }
+
+  const date = getPosterTimestamp(item);
+  return {
+    key: `${date.getFullYear()}-${date.getMonth()}`,
+    title: date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+  };
+};
+
+/**
+ * Group posters. Event groups keep the order their first poster appears in;
+ * month groups run newest first. With `none` everything is returned as a
+ * single untitled group.
+ */
+export function groupPosters(items: PosterHistoryItem[], groupBy: PosterGrouping): PosterGroup[] {
+  if (groupBy === 'none') {
+    return items.length > 0 ? [{ key: 'all', title: '', items }] : [];
+  }
+
+  const ordered =
+    groupBy === 'month'
+      ? [...items].sort((a, b) => getPosterTimestamp(b).getTime() - getPosterTimestamp(a).getTime())
+      : items;
+
+  const groups = new Map<string, PosterGroup>();
+  for (const item of ordered) {
+    const { key, title } = getGroup(item, groupBy);
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(key, { key, title, items: [item] });
+    }
+  }
+  return [...groups.values()];
+}
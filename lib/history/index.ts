@@ -0,0 +1,14 @@
+export {
+  DEFAULT_FILTERS,
+  parseFilters,
+  serializeFilters,
+  filterPosters,
+  countActiveFilters,
+  getPosterTimestamp,
+  hasExportFor,
+  isValidDate,
+} from './filters';
+export type { PosterFilters, PosterGrouping, FilterParams } from './filters';
+
+export { groupPosters } from './grouping';
+export type { PosterGroup } from './grouping';
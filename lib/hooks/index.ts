@@ -1,6 +1,9 @@
 export { useAsync } from './useAsync';
 export type { AsyncState, UseAsyncResult } from './useAsync';
 
+export { useQuery } from './useQuery';
+export type { UseQueryResult } from './useQuery';
+
 export { useMutation } from './useMutation';
 export type { MutationState, UseMutationResult } from './useMutation';
 
@@ -15,3 +18,20 @@ export type { UseTemplatesResult } from './useTemplates';
 
 export { usePosters } from './usePosters';
 export type { UsePostersResult } from './usePosters';
+
+export { usePosterHistory } from './usePosterHistory';
+export type { UsePosterHistoryResult, PosterHistoryItem } from './usePosterHistory';
+
+export { usePosterDetails } from './usePosterDetails';
+export type { UsePosterDetailsResult, PosterDetails } from './usePosterDetails';
+
+export { useAvatarUpload } from './useAvatarUpload';
+export type { UseAvatarUploadResult } from './useAvatarUpload';
+
+export { useBatchExport } from './useBatchExport';
+export type {
+  UseBatchExportResult,
+  BatchExportItem,
+  BatchExportStatus,
+  BatchExportOptions,
+} from './useBatchExport';
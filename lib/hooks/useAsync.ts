@@ -15,8 +15,13 @@ interface UseAsyncOptions {
   skip?: boolean;
 }
 
+/**
+ * Run an async function on mount and whenever deps change. The function
+ * receives an AbortSignal that fires when the call is superseded by a newer
+ * one or the component unmounts; results of aborted calls are dropped.
+ */
 export function useAsync<T>(
-  asyncFn: () => Promise<T>,
+  asyncFn: (signal: AbortSignal) => Promise<T>,
   deps: React.DependencyList = [],
   options: UseAsyncOptions = {}
 ): UseAsyncResult<T> {
@@ -27,17 +32,22 @@ export function useAsync<T>(
   });
 
   const isMounted = useRef(true);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const execute = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const result = await asyncFn();
-      if (isMounted.current) {
+      const result = await asyncFn(controller.signal);
+      if (isMounted.current && !controller.signal.aborted) {
         setState({ data: result, isLoading: false, error: null });
       }
     } catch (err) {
-      if (isMounted.current) {
+      if (isMounted.current && !controller.signal.aborted) {
         setState({
           data: null,
           isLoading: false,
@@ -55,6 +65,7 @@ export function useAsync<T>(
     }
     return () => {
       isMounted.current = false;
+      controllerRef.current?.abort();
     };
   }, [execute, options.skip]);
 
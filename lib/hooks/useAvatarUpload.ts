@@ -0,0 +1,79 @@
+/**
+ * useAvatarUpload - Hook for uploading a cropped profile photo in the
+ * background while the rest of the profile form is filled in
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { uploadsApi } from '@/lib/api';
+import { bytesToBase64, toDataUri, type ExportedImage } from '@/lib/export';
+import { useMutation } from './useMutation';
+import type { UploadImageDto } from '@/types';
+
+export interface UseAvatarUploadResult {
+  /** Local data URI of the latest photo, shown before the upload finishes */
+  previewUri: string | null;
+  /** Uploaded URL of the latest photo */
+  url: string | null;
+  isUploading: boolean;
+  error: Error | null;
+  /** Start uploading a photo, replacing any earlier one */
+  upload: (image: ExportedImage) => void;
+  /** Resolves with the latest photo's URL (null if none was chosen), or rejects if its upload failed */
+  waitForUpload: () => Promise<string | null>;
+  reset: () => void;
+}
+
+export function useAvatarUpload(): UseAvatarUploadResult {
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const pendingRef = useRef<Promise<string> | null>(null);
+
+  const uploadMutation = useMutation((data: UploadImageDto, signal) =>
+    uploadsApi.uploadAvatar(data, { signal })
+  );
+  const { mutate, reset: resetMutation } = uploadMutation;
+
+  const upload = useCallback(
+    (image: ExportedImage) => {
+      setPreviewUri(toDataUri(image));
+      setUrl(null);
+
+      const pending = mutate({ data: bytesToBase64(image.bytes), mimeType: image.mimeType }).then(
+        (result) => result.url
+      );
+      pendingRef.current = pending;
+
+      // Only the latest photo counts if the user picks again mid-upload
+      pending
+        .then((uploadedUrl) => {
+          if (pendingRef.current === pending) setUrl(uploadedUrl);
+        })
+        .catch(() => {
+          // Surfaced through `error` and waitForUpload
+        });
+    },
+    [mutate]
+  );
+
+  const waitForUpload = useCallback(
+    () => pendingRef.current ?? Promise.resolve(null),
+    []
+  );
+
+  const reset = useCallback(() => {
+    pendingRef.current = null;
+    setPreviewUri(null);
+    setUrl(null);
+    resetMutation();
+  }, [resetMutation]);
+
+  return {
+    previewUri,
+    url,
+    isUploading: uploadMutation.isLoading,
+    error: uploadMutation.error,
+    upload,
+    waitForUpload,
+    reset,
+  };
+}
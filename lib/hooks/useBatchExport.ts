@@ -0,0 +1,128 @@
+/**
+ * useBatchExport - Hook for exporting a poster to several presets in one go
+ *
+ * Presets are rendered one after another, each recorded on the poster with
+ * postersApi.export as soon as it's ready, so progress and previews fill in
+ * per preset. Presets without a platform (e.g. email signatures) are only
+ * rendered.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CancelledError, getErrorMessage, isCancelledError, postersApi } from '@/lib/api';
+import { toDataUri, type ExportedImage, type ExportFile } from '@/lib/export';
+import { invalidateQueries, queryKeys } from '@/lib/query';
+import { EXPORT_PRESETS, type ExportPresetId } from '@/types';
+
+export type BatchExportStatus = 'waiting' | 'rendering' | 'recording' | 'done' | 'failed';
+
+export interface BatchExportItem {
+  status: BatchExportStatus;
+  /** Data URI of the rendered image */
+  previewUri?: string;
+  /** Where the export is recorded on the poster */
+  url?: string;
+  /** Why rendering failed, or why a rendered image couldn't be recorded */
+  error?: string;
+}
+
+export interface BatchExportOptions {
+  /** Saved poster the exports are recorded on; null renders without recording */
+  posterId: string | null;
+  render: (preset: ExportPresetId) => Promise<ExportedImage>;
+  fileName: (preset: ExportPresetId, image: ExportedImage) => string;
+}
+
+export interface UseBatchExportResult {
+  items: Partial<Record<ExportPresetId, BatchExportItem>>;
+  isRunning: boolean;
+  /** Resolves with the rendered files, in preset order, or rejects with CancelledError */
+  run: (presets: ExportPresetId[], options: BatchExportOptions) => Promise<ExportFile[]>;
+  /** Stop after the preset in progress */
+  cancel: () => void;
+  reset: () => void;
+}
+
+export function useBatchExport(): UseBatchExportResult {
+  const [items, setItems] = useState<Partial<Record<ExportPresetId, BatchExportItem>>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateItem = useCallback((preset: ExportPresetId, item: BatchExportItem) => {
+    setItems((previous) => ({ ...previous, [preset]: { ...previous[preset], ...item } }));
+  }, []);
+
+  const run = useCallback(
+    async (presets: ExportPresetId[], { posterId, render, fileName }: BatchExportOptions) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const { signal } = controller;
+
+      setItems(Object.fromEntries(presets.map((preset) => [preset, { status: 'waiting' }])));
+      setIsRunning(true);
+
+      const files: ExportFile[] = [];
+      try {
+        for (const preset of presets) {
+          if (signal.aborted) break;
+
+          updateItem(preset, { status: 'rendering' });
+          let image: ExportedImage;
+          try {
+            image = await render(preset);
+          } catch (err) {
+            updateItem(preset, {
+              status: 'failed',
+              error: getErrorMessage(err, 'Could not render the poster'),
+            });
+            continue;
+          }
+          files.push({ image, fileName: fileName(preset, image) });
+          // Native Image can't draw SVG, so vector exports go without a preview
+          const previewUri = image.format === 'svg' ? undefined : toDataUri(image);
+
+          const { platform } = EXPORT_PRESETS[preset];
+          if (!posterId || !platform) {
+            updateItem(preset, { status: 'done', previewUri });
+            continue;
+          }
+
+          updateItem(preset, { status: 'recording', previewUri });
+          try {
+            const format = preset === platform ? undefined : preset;
+            const { url } = await postersApi.export(posterId, { platform, format }, { signal });
+            updateItem(preset, { status: 'done', url });
+          } catch (err) {
+            if (isCancelledError(err)) break;
+            // The image is still shared; only the history entry is missing
+            updateItem(preset, {
+              status: 'done',
+              error: getErrorMessage(err, 'Could not record this export'),
+            });
+          }
+        }
+      } finally {
+        if (posterId) invalidateQueries(queryKeys.posters());
+        if (controllerRef.current === controller) setIsRunning(false);
+      }
+      if (signal.aborted) throw new CancelledError();
+      return files;
+    },
+    [updateItem]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    setIsRunning(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    setItems({});
+    setIsRunning(false);
+  }, []);
+
+  return { items, isRunning, run, cancel, reset };
+}
@@ -1,11 +1,13 @@
 /**
  * useEvents - Hook for event parsing and management
+ *
+ * Parsing streams its progress, see eventsApi.parseStream.
  */
 
-import { useCallback } from 'react';
-import { eventsApi } from '@/lib/api';
+import { useCallback, useState } from 'react';
+import { eventsApi, type RetryInfo } from '@/lib/api';
 import { useMutation } from './useMutation';
-import type { Event, ParseEventDto, CreateEventDto } from '@/types';
+import type { Event, ParseEventDto, CreateEventDto, GenerationProgress } from '@/types';
 
 export interface UseEventsResult {
   parseEvent: (data: ParseEventDto) => Promise<Event>;
@@ -13,11 +15,31 @@ export interface UseEventsResult {
   isParsing: boolean;
   isCreating: boolean;
   parseError: Error | null;
+  /** Retry in progress while parsing, null while the first attempt runs */
+  parseRetry: RetryInfo | null;
+  /** Stage the parse has reached, null until the server reports one */
+  parseProgress: GenerationProgress | null;
+  /** Abort an in-flight parse or create */
+  cancel: () => void;
 }
 
 export function useEvents(): UseEventsResult {
-  const parseMutation = useMutation((data: ParseEventDto) => eventsApi.parse(data));
-  const createMutation = useMutation((data: CreateEventDto) => eventsApi.create(data));
+  const [parseRetry, setParseRetry] = useState<RetryInfo | null>(null);
+  const [parseProgress, setParseProgress] = useState<GenerationProgress | null>(null);
+  const parseMutation = useMutation(
+    (data: ParseEventDto, signal) => {
+      setParseRetry(null);
+      setParseProgress(null);
+      return eventsApi.parseStream(data, setParseProgress, {
+        signal,
+        retry: { onRetry: setParseRetry },
+      });
+    },
+    { onSuccess: () => setParseRetry(null), onError: () => setParseRetry(null) }
+  );
+  const createMutation = useMutation((data: CreateEventDto, signal) =>
+    eventsApi.create(data, { signal })
+  );
 
   const parseEvent = useCallback(
     (data: ParseEventDto) => parseMutation.mutate(data),
@@ -29,11 +51,21 @@ export function useEvents(): UseEventsResult {
     [createMutation]
   );
 
+  const { cancel: cancelParse } = parseMutation;
+  const { cancel: cancelCreate } = createMutation;
+  const cancel = useCallback(() => {
+    cancelParse();
+    cancelCreate();
+  }, [cancelParse, cancelCreate]);
+
   return {
     parseEvent,
     createEvent,
     isParsing: parseMutation.isLoading,
     isCreating: createMutation.isLoading,
     parseError: parseMutation.error,
+    parseRetry,
+    parseProgress,
+    cancel,
   };
 }
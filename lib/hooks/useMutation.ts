@@ -3,9 +3,13 @@
  *
  * Unlike useAsync, mutations don't run automatically on mount.
  * They provide a mutate function to trigger the operation.
+ *
+ * The mutation function receives an AbortSignal that fires when cancel() is
+ * called or the component unmounts. Unlike queries, a newer call never aborts
+ * an earlier one: both run to completion and both get their callbacks.
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 export interface MutationState<T> {
   data: T | null;
@@ -16,6 +20,8 @@ export interface MutationState<T> {
 
 export interface UseMutationResult<T, TVariables> extends MutationState<T> {
   mutate: (variables: TVariables) => Promise<T>;
+  /** Abort every in-flight mutation; their mutate calls reject with CancelledError */
+  cancel: () => void;
   reset: () => void;
 }
 
@@ -39,7 +45,7 @@ interface UseMutationOptions<T, TVariables> {
  * await mutate({ name: 'John', title: 'Developer' });
  */
 export function useMutation<T, TVariables = void>(
-  mutationFn: (variables: TVariables) => Promise<T>,
+  mutationFn: (variables: TVariables, signal: AbortSignal) => Promise<T>,
   options: UseMutationOptions<T, TVariables> = {}
 ): UseMutationResult<T, TVariables> {
   const [state, setState] = useState<MutationState<T>>({
@@ -50,30 +56,63 @@ export function useMutation<T, TVariables = void>(
   });
 
   const isMounted = useRef(true);
+  // One controller per in-flight call
+  const controllersRef = useRef(new Set<AbortController>());
+  const latestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    isMounted.current = true;
+    const controllers = controllersRef.current;
+    return () => {
+      isMounted.current = false;
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
 
   const mutate = useCallback(
     async (variables: TVariables): Promise<T> => {
+      const controller = new AbortController();
+      controllersRef.current.add(controller);
+      latestRef.current = controller;
+
       setState({ data: null, isLoading: true, error: null, isSuccess: false });
 
+      // Callbacks run for every call that wasn't cancelled; state follows the latest call
+      const isActive = () => isMounted.current && !controller.signal.aborted;
+      const isLatest = () => latestRef.current === controller;
+
       try {
-        const result = await mutationFn(variables);
-        if (isMounted.current) {
-          setState({ data: result, isLoading: false, error: null, isSuccess: true });
+        const result = await mutationFn(variables, controller.signal);
+        if (isActive()) {
+          if (isLatest()) {
+            setState({ data: result, isLoading: false, error: null, isSuccess: true });
+          }
           options.onSuccess?.(result, variables);
         }
         return result;
       } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
-        if (isMounted.current) {
-          setState({ data: null, isLoading: false, error, isSuccess: false });
+        if (isActive()) {
+          if (isLatest()) setState({ data: null, isLoading: false, error, isSuccess: false });
           options.onError?.(error, variables);
         }
         throw error;
+      } finally {
+        controllersRef.current.delete(controller);
+        if (isLatest()) latestRef.current = null;
       }
     },
     [mutationFn, options]
   );
 
+  const cancel = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+    latestRef.current = null;
+    setState({ data: null, isLoading: false, error: null, isSuccess: false });
+  }, []);
+
   const reset = useCallback(() => {
     setState({ data: null, isLoading: false, error: null, isSuccess: false });
   }, []);
@@ -81,6 +120,7 @@ export function useMutation<T, TVariables = void>(
   return {
     ...state,
     mutate,
+    cancel,
     reset,
   };
 }
@@ -0,0 +1,60 @@
+/**
+ * usePosterDetails - Hook for loading one saved poster with everything needed
+ * to preview it and reopen it in the editor
+ */
+
+import { eventsApi, postersApi, profilesApi, templatesApi } from '@/lib/api';
+import { useAsync } from './useAsync';
+import type { PosterHistoryItem } from './usePosterHistory';
+import { DEFAULT_TEMPLATE_ID } from '@/types';
+import type { Template } from '@/types';
+
+export interface PosterDetails extends PosterHistoryItem {
+  /** Templates generated for the poster's event, offered when editing */
+  templates: Template[];
+}
+
+export interface UsePosterDetailsResult {
+  details: PosterDetails | null;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+// Related records are optional: a poster is still viewable if they are gone
+const orNull = <T>(promise: Promise<T>): Promise<T | null> => promise.catch(() => null);
+
+async function fetchPosterDetails(id: string, signal: AbortSignal): Promise<PosterDetails> {
+  const options = { signal };
+  const poster = await postersApi.getById(id, options);
+  const [event, profile, templates] = await Promise.all([
+    orNull(eventsApi.getById(poster.eventId, options)),
+    orNull(profilesApi.getById(poster.profileId, options)),
+    orNull(templatesApi.getByEventId(poster.eventId, options)),
+  ]);
+
+  const eventTemplates = templates ?? [];
+  const template =
+    eventTemplates.find((candidate) => candidate.id === poster.templateId) ??
+    (poster.templateId === DEFAULT_TEMPLATE_ID
+      ? null
+      : await orNull(templatesApi.getById(poster.templateId, options)));
+
+  return {
+    poster,
+    event,
+    profile,
+    template,
+    templates: template && !eventTemplates.includes(template) ? [template, ...eventTemplates] : eventTemplates,
+  };
+}
+
+export function usePosterDetails(id: string | undefined): UsePosterDetailsResult {
+  const { data, isLoading, error, refetch } = useAsync(
+    (signal) => (id ? fetchPosterDetails(id, signal) : Promise.resolve(null)),
+    [id],
+    { skip: !id }
+  );
+
+  return { details: data, isLoading, error, refetch };
+}
@@ -0,0 +1,96 @@
+/**
+ * usePosterHistory - Hook for listing saved posters with the event, template
+ * and profile each one was created from
+ */
+
+import { useMemo } from 'react';
+import { eventsApi, templatesApi } from '@/lib/api';
+import { useAsync } from './useAsync';
+import { usePosters } from './usePosters';
+import { useProfiles } from './useProfiles';
+import { DEFAULT_TEMPLATE_ID } from '@/types';
+import type { Event, Poster, Profile, Template } from '@/types';
+
+export interface PosterHistoryItem {
+  poster: Poster;
+  /** Null when the event could not be loaded, e.g. it was deleted */
+  event: Event | null;
+  /** Null for posters on the default arrangement */
+  template: Template | null;
+  profile: Profile | null;
+}
+
+export interface UsePosterHistoryResult {
+  items: PosterHistoryItem[];
+  /** All profiles, for filtering by who a poster was made for */
+  profiles: Profile[];
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Fetch records by id, skipping any that fail so one missing record
+ * doesn't hide the rest of the history.
+ */
+async function fetchByIds<T>(
+  ids: string[],
+  fetchOne: (id: string) => Promise<T>
+): Promise<Map<string, T>> {
+  const results = await Promise.allSettled(ids.map(fetchOne));
+  const records = new Map<string, T>();
+  results.forEach((result, index) => {
+    const id = ids[index];
+    if (result.status === 'fulfilled' && id) records.set(id, result.value);
+  });
+  return records;
+}
+
+const uniqueIds = (ids: string[]): string[] => [...new Set(ids)].sort();
+
+export function usePosterHistory(profileId?: string): UsePosterHistoryResult {
+  const { posters, isLoading: postersLoading, error, refetch } = usePosters(profileId);
+  const { profiles } = useProfiles();
+
+  const eventIds = uniqueIds(posters.map((poster) => poster.eventId));
+  const templateIds = uniqueIds(
+    posters.map((poster) => poster.templateId).filter((id) => id !== DEFAULT_TEMPLATE_ID)
+  );
+
+  // Keyed on the joined ids so refetching posters doesn't refetch unchanged records
+  const eventKey = eventIds.join(',');
+  const templateKey = templateIds.join(',');
+
+  const { data: events, isLoading: eventsLoading } = useAsync(
+    (signal) => fetchByIds(eventIds, (id) => eventsApi.getById(id, { signal })),
+    [eventKey],
+    { skip: eventIds.length === 0 }
+  );
+  const { data: templates, isLoading: templatesLoading } = useAsync(
+    (signal) => fetchByIds(templateIds, (id) => templatesApi.getById(id, { signal })),
+    [templateKey],
+    { skip: templateIds.length === 0 }
+  );
+
+  const items = useMemo(
+    () =>
+      posters.map((poster) => ({
+        poster,
+        event: events?.get(poster.eventId) ?? null,
+        template: templates?.get(poster.templateId) ?? null,
+        profile: profiles.find((profile) => profile.id === poster.profileId) ?? null,
+      })),
+    [posters, events, templates, profiles]
+  );
+
+  return {
+    items,
+    profiles,
+    isLoading:
+      postersLoading ||
+      (eventIds.length > 0 && eventsLoading) ||
+      (templateIds.length > 0 && templatesLoading),
+    error,
+    refetch,
+  };
+}
@@ -1,10 +1,20 @@
 /**
  * usePosters - Hook for poster management
+ *
+ * Poster lists are cached per profile; edits made here update every cached
+ * list that contains the poster.
  */
 
 import { useCallback } from 'react';
 import { postersApi } from '@/lib/api';
-import { useAsync } from './useAsync';
+import {
+  invalidateQueries,
+  queryKeys,
+  removeRecord,
+  setRecord,
+  updateQueries,
+} from '@/lib/query';
+import { useQuery } from './useQuery';
 import { useMutation } from './useMutation';
 import type { Poster, CreatePosterDto, UpdatePosterDto, ExportPosterDto } from '@/types';
 
@@ -28,40 +38,53 @@ export function usePosters(profileId?: string): UsePostersResult {
     isLoading,
     error,
     refetch,
-    setData: setPosters,
-  } = useAsync(() => postersApi.getAll(profileId), [profileId]);
+  } = useQuery(queryKeys.posters(profileId), (signal) =>
+    postersApi.getAll(profileId, { signal })
+  );
 
   const createMutation = useMutation(
-    (data: CreatePosterDto) => postersApi.create(data),
+    (data: CreatePosterDto, signal) => postersApi.create(data, { signal }),
     {
       onSuccess: (newPoster) => {
-        setPosters((prev) => (prev ? [newPoster, ...prev] : [newPoster]));
+        // Add to the unfiltered list and to the list for the poster's profile
+        updateQueries<Poster[]>(queryKeys.posters(), (prev, [, params]) =>
+          params?.profileId === undefined || params.profileId === newPoster.profileId
+            ? [newPoster, ...prev]
+            : prev
+        );
+        invalidateQueries(queryKeys.posters());
       },
     }
   );
 
   const updateMutation = useMutation(
-    ({ id, data }: { id: string; data: UpdatePosterDto }) => postersApi.update(id, data),
+    ({ id, data }: { id: string; data: UpdatePosterDto }, signal) =>
+      postersApi.update(id, data, { signal }),
     {
       onSuccess: (updatedPoster) => {
-        setPosters((prev) =>
-          prev?.map((p) => (p.id === updatedPoster.id ? updatedPoster : p)) ?? null
-        );
+        setRecord('posters', updatedPoster);
+        invalidateQueries(queryKeys.posters());
       },
     }
   );
 
   const deleteMutation = useMutation(
-    (id: string) => postersApi.delete(id),
+    (id: string, signal) => postersApi.delete(id, { signal }),
     {
       onSuccess: (_, id) => {
-        setPosters((prev) => prev?.filter((p) => p.id !== id) ?? null);
+        removeRecord('posters', id);
+        invalidateQueries(queryKeys.posters());
       },
     }
   );
 
+  // Exporting records the URL and status on the poster server-side
   const exportMutation = useMutation(
-    ({ id, data }: { id: string; data: ExportPosterDto }) => postersApi.export(id, data)
+    ({ id, data }: { id: string; data: ExportPosterDto }, signal) =>
+      postersApi.export(id, data, { signal }),
+    {
+      onSuccess: () => invalidateQueries(queryKeys.posters()),
+    }
   );
 
   const createPoster = useCallback(
@@ -1,10 +1,20 @@
 /**
  * useProfiles - Hook for profile management with optimistic updates
+ *
+ * Profiles live in the shared query cache, so every screen using this hook
+ * sees the same list and the same edits.
  */
 
 import { useCallback } from 'react';
 import { profilesApi } from '@/lib/api';
-import { useAsync } from './useAsync';
+import {
+  invalidateQueries,
+  queryKeys,
+  removeRecord,
+  setQueryData,
+  setRecord,
+} from '@/lib/query';
+import { useQuery } from './useQuery';
 import { useMutation } from './useMutation';
 import type { Profile, CreateProfileDto, UpdateProfileDto } from '@/types';
 
@@ -29,48 +39,52 @@ export function useProfiles(): UseProfilesResult {
     isLoading,
     error,
     refetch,
-    setData: setProfiles,
-  } = useAsync(() => profilesApi.getAll(), []);
+  } = useQuery(queryKeys.profiles(), (signal) => profilesApi.getAll({ signal }));
 
   const createMutation = useMutation(
-    (data: CreateProfileDto) => profilesApi.create(data),
+    (data: CreateProfileDto, signal) => profilesApi.create(data, { signal }),
     {
       onSuccess: (newProfile) => {
-        setProfiles((prev) => (prev ? [...prev, newProfile] : [newProfile]));
+        setQueryData<Profile[]>(queryKeys.profiles(), (prev) =>
+          prev ? [...prev, newProfile] : [newProfile]
+        );
+        invalidateQueries(queryKeys.profiles());
       },
     }
   );
 
   const updateMutation = useMutation(
-    ({ id, data }: { id: string; data: UpdateProfileDto }) => profilesApi.update(id, data),
+    ({ id, data }: { id: string; data: UpdateProfileDto }, signal) =>
+      profilesApi.update(id, data, { signal }),
     {
       onSuccess: (updatedProfile) => {
-        setProfiles((prev) =>
-          prev?.map((p) => (p.id === updatedProfile.id ? updatedProfile : p)) ?? null
-        );
+        setRecord('profiles', updatedProfile);
+        invalidateQueries(queryKeys.profiles());
       },
     }
   );
 
   const deleteMutation = useMutation(
-    (id: string) => profilesApi.delete(id),
+    (id: string, signal) => profilesApi.delete(id, { signal }),
     {
       onSuccess: (_, id) => {
-        setProfiles((prev) => prev?.filter((p) => p.id !== id) ?? null);
+        removeRecord('profiles', id);
+        invalidateQueries(queryKeys.profiles());
       },
     }
   );
 
   const setDefaultMutation = useMutation(
-    (id: string) => profilesApi.setDefault(id),
+    (id: string, signal) => profilesApi.setDefault(id, { signal }),
     {
       onSuccess: (updatedProfile) => {
-        setProfiles((prev) =>
-          prev?.map((p) => ({
+        setQueryData<Profile[]>(queryKeys.profiles(), (prev) =>
+          (prev ?? []).map((p) => ({
             ...p,
             isDefault: p.id === updatedProfile.id,
-          })) ?? null
+          }))
         );
+        invalidateQueries(queryKeys.profiles());
       },
     }
   );
@@ -0,0 +1,82 @@
+/**
+ * useQuery - Hook for reading server data through the shared query cache
+ *
+ * Every component using the same key shares one cache entry and one request.
+ * Cached data is returned immediately and refetched in the background once
+ * it is older than staleTime (stale-while-revalidate). The fetcher's signal
+ * aborts when a newer request supersedes it or the last user unmounts.
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  isQueryStale,
+  observeQuery,
+  subscribeToQueries,
+  type QueryFetcher,
+  type QueryKey,
+} from '@/lib/query';
+
+export interface UseQueryResult<T> {
+  data: T | null;
+  /** True until the first response arrives */
+  isLoading: boolean;
+  /** True while any request for the key is in flight, including background ones */
+  isFetching: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+interface UseQueryOptions {
+  skip?: boolean;
+  /** How long fetched data is served without refetching, in ms */
+  staleTime?: number;
+}
+
+const DEFAULT_STALE_TIME = 30_000;
+
+/**
+ * @example
+ * const { data, isLoading } = useQuery(queryKeys.profiles(), () => profilesApi.getAll());
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { skip = false, staleTime = DEFAULT_STALE_TIME }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  // Keys are usually built inline, so effects depend on the hash instead
+  const hash = hashQueryKey(key);
+  const latest = useRef({ key, fetcher });
+  latest.current = { key, fetcher };
+
+  const state = useSyncExternalStore(subscribeToQueries, () => getQueryState<T>(key));
+
+  useEffect(() => {
+    if (skip) return;
+    const { key: currentKey } = latest.current;
+    const fetchLatest: QueryFetcher<T> = (signal) => latest.current.fetcher(signal);
+
+    const unobserve = observeQuery(currentKey, fetchLatest);
+    if (isQueryStale(currentKey, staleTime)) {
+      // Errors are stored on the query and surfaced through state
+      fetchQuery(currentKey, fetchLatest).catch(() => undefined);
+    }
+    return unobserve;
+  }, [hash, skip, staleTime]);
+
+  const refetch = useCallback(async () => {
+    await fetchQuery(latest.current.key, (signal) => latest.current.fetcher(signal), {
+      force: true,
+    }).catch(() => undefined);
+  }, []);
+
+  return {
+    data: state.data ?? null,
+    isLoading: !skip && state.data === undefined && state.error === null,
+    isFetching: state.isFetching,
+    error: state.error,
+    refetch,
+  };
+}
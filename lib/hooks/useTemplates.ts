@@ -1,12 +1,19 @@
 /**
  * useTemplates - Hook for template generation
+ *
+ * Templates are cached per event. Generating or fetching templates for
+ * another event switches the hook to that event's templates.
+ *
+ * Generation streams: progress and each finished template are available
+ * before the whole batch is done, see templatesApi.generateStream.
  */
 
-import { useCallback } from 'react';
-import { templatesApi } from '@/lib/api';
-import { useAsync } from './useAsync';
+import { useCallback, useEffect, useState } from 'react';
+import { templatesApi, type RetryInfo } from '@/lib/api';
+import { fetchQuery, queryKeys, setQueryData } from '@/lib/query';
+import { useQuery } from './useQuery';
 import { useMutation } from './useMutation';
-import type { Template, GenerateTemplatesDto } from '@/types';
+import type { Template, GenerateTemplatesDto, GenerationProgress } from '@/types';
 
 export interface UseTemplatesResult {
   templates: Template[];
@@ -14,28 +21,69 @@ export interface UseTemplatesResult {
   error: Error | null;
   generateTemplates: (data: GenerateTemplatesDto) => Promise<Template[]>;
   isGenerating: boolean;
+  /** Retry in progress while generating, null while the first attempt runs */
+  generateRetry: RetryInfo | null;
+  /** Stage the generation has reached, null until the server reports one */
+  generateProgress: GenerationProgress | null;
+  /** Templates of the running generation that are already finished, in order */
+  generatedSoFar: Template[];
   fetchByEventId: (eventId: string) => Promise<void>;
+  /** Abort an in-flight generation */
+  cancel: () => void;
 }
 
 export function useTemplates(eventId?: string): UseTemplatesResult {
+  const [loadedEventId, setLoadedEventId] = useState<string | undefined>();
+  const activeEventId = loadedEventId ?? eventId;
+
+  useEffect(() => {
+    setLoadedEventId(undefined);
+  }, [eventId]);
+
   const {
     data: templates,
     isLoading,
     error,
-    refetch: _refetch,
-    setData: setTemplates,
-  } = useAsync(
-    () => (eventId ? templatesApi.getByEventId(eventId) : Promise.resolve([])),
-    [eventId],
-    { skip: !eventId }
+  } = useQuery(
+    queryKeys.templates(activeEventId),
+    (signal) =>
+      activeEventId ? templatesApi.getByEventId(activeEventId, { signal }) : Promise.resolve([]),
+    { skip: !activeEventId }
   );
 
+  const [generateRetry, setGenerateRetry] = useState<RetryInfo | null>(null);
+  const [generateProgress, setGenerateProgress] = useState<GenerationProgress | null>(null);
+  const [generatedSoFar, setGeneratedSoFar] = useState<Template[]>([]);
   const generateMutation = useMutation(
-    (data: GenerateTemplatesDto) => templatesApi.generate(data),
+    (data: GenerateTemplatesDto, signal) => {
+      setGenerateRetry(null);
+      setGenerateProgress(null);
+      setGeneratedSoFar([]);
+      return templatesApi.generateStream(
+        data,
+        {
+          onProgress: setGenerateProgress,
+          onTemplate: (template) => setGeneratedSoFar((previous) => [...previous, template]),
+        },
+        {
+          signal,
+          retry: {
+            // A retried stream sends its templates again
+            onRetry: (info) => {
+              setGenerateRetry(info);
+              setGeneratedSoFar([]);
+            },
+          },
+        }
+      );
+    },
     {
-      onSuccess: (newTemplates) => {
-        setTemplates(newTemplates);
+      onSuccess: (newTemplates, data) => {
+        setGenerateRetry(null);
+        setQueryData(queryKeys.templates(data.eventId), newTemplates);
+        setLoadedEventId(data.eventId);
       },
+      onError: () => setGenerateRetry(null),
     }
   );
 
@@ -46,10 +94,12 @@ export function useTemplates(eventId?: string): UseTemplatesResult {
 
   const fetchByEventId = useCallback(
     async (id: string) => {
-      const result = await templatesApi.getByEventId(id);
-      setTemplates(result);
+      await fetchQuery(queryKeys.templates(id), (signal) => templatesApi.getByEventId(id, { signal }), {
+        force: true,
+      });
+      setLoadedEventId(id);
     },
-    [setTemplates]
+    []
   );
 
   return {
@@ -58,6 +108,10 @@ export function useTemplates(eventId?: string): UseTemplatesResult {
     error,
     generateTemplates,
     isGenerating: generateMutation.isLoading,
+    generateRetry,
+    generateProgress,
+    generatedSoFar,
     fetchByEventId,
+    cancel: generateMutation.cancel,
   };
 }
@@ -0,0 +1,73 @@
+/**
+ * Avatar crop - square crop of a photo, described independently of the size
+ * it is previewed or rendered at.
+ */
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface CropRect extends ImageSize {
+  x: number;
+  y: number;
+}
+
+export interface AvatarCrop {
+  /** 1 fits the photo's short side to the square */
+  zoom: number;
+  /** Centre of the square as a fraction of the photo's width and height */
+  centerX: number;
+  centerY: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+export const DEFAULT_CROP: AvatarCrop = { zoom: 1, centerX: 0.5, centerY: 0.5 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Where to draw the photo so `crop` fills a square of `size` pixels.
+ */
+export function getCropImageRect(image: ImageSize, crop: AvatarCrop, size: number): CropRect {
+  const scale = (size / Math.min(image.width, image.height)) * crop.zoom;
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return { x: size / 2 - crop.centerX * width, y: size / 2 - crop.centerY * height, width, height };
+}
+
+/**
+ * Keep the zoom in range and the square fully covered by the photo.
+ */
+export function clampCrop(image: ImageSize, crop: AvatarCrop): AvatarCrop {
+  const zoom = clamp(crop.zoom, MIN_ZOOM, MAX_ZOOM);
+  const shortSide = Math.min(image.width, image.height);
+  const halfWidth = shortSide / (image.width * zoom) / 2;
+  const halfHeight = shortSide / (image.height * zoom) / 2;
+
+  return {
+    zoom,
+    centerX: clamp(crop.centerX, halfWidth, 1 - halfWidth),
+    centerY: clamp(crop.centerY, halfHeight, 1 - halfHeight),
+  };
+}
+
+/**
+ * Move the crop by a drag of (dx, dy) pixels in a square of `size` pixels.
+ */
+export function panCrop(
+  image: ImageSize,
+  crop: AvatarCrop,
+  dx: number,
+  dy: number,
+  size: number
+): AvatarCrop {
+  const { width, height } = getCropImageRect(image, crop, size);
+  return clampCrop(image, {
+    ...crop,
+    centerX: crop.centerX - dx / width,
+    centerY: crop.centerY - dy / height,
+  });
+}
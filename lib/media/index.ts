@@ -0,0 +1,12 @@
+export { pickImage } from './pickImage';
+export type { PickedImage } from './types';
+
+export {
+  DEFAULT_CROP,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  getCropImageRect,
+  clampCrop,
+  panCrop,
+} from './crop';
+export type { AvatarCrop, CropRect, ImageSize } from './crop';
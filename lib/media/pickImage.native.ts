@@ -0,0 +1,28 @@
+/**
+ * Photo picking - native implementation using the system photo library
+ */
+
+import * as ImagePicker from 'expo-image-picker';
+import type { PickedImage } from './types';
+
+/**
+ * Let the user choose a photo. Resolves to null when they cancel.
+ */
+export async function pickImage(): Promise<PickedImage | null> {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Allow photo library access to choose a profile photo');
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    base64: true,
+    quality: 1,
+  });
+
+  const asset = result.assets?.[0];
+  if (result.canceled || !asset?.base64) return null;
+
+  const mimeType = asset.mimeType ?? 'image/jpeg';
+  return { uri: `data:${mimeType};base64,${asset.base64}`, mimeType };
+}
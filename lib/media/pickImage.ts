@@ -0,0 +1,41 @@
+/**
+ * Photo picking - web implementation using a hidden file input
+ */
+
+import type { PickedImage } from './types';
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      typeof reader.result === 'string'
+        ? resolve(reader.result)
+        : reject(new Error('Could not read the selected file'));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the selected file'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Let the user choose a photo. Resolves to null when they cancel.
+ */
+export function pickImage(): Promise<PickedImage | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      readAsDataUrl(file)
+        .then((uri) => resolve({ uri, mimeType: file.type || 'image/jpeg' }))
+        .catch(reject);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+
+    input.click();
+  });
+}
@@ -0,0 +1,5 @@
+export interface PickedImage {
+  /** base64 data URI, loadable by the poster image loader on every platform */
+  uri: string;
+  mimeType: string;
+}
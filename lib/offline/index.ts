@@ -0,0 +1,11 @@
+export {
+  createOfflineResource,
+  startOfflineSync,
+  syncNow,
+  retrySyncIssue,
+  discardSyncIssue,
+  clearOfflineData,
+} from './queue';
+export type { OfflineHandlers } from './queue';
+
+export { readThrough } from './readThrough';
@@ -0,0 +1,472 @@
+/**
+ * Offline queue - runs profile and poster mutations, or queues them while the
+ * backend is unreachable and replays them in order once it is back.
+ *
+ * Queued updates and deletes remember the updatedAt of the record they were
+ * based on. Before one is replayed the server copy is checked, and if the
+ * record changed in the meantime the mutation is parked as a conflict for the
+ * user to resolve instead of overwriting someone else's edit.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import type { RequestOptions } from '@/lib/api/client';
+import { NetworkError, NotFoundError, TimeoutError, getErrorMessage } from '@/lib/api/errors';
+import { invalidateQueries } from '@/lib/query';
+import { useSyncStore, type QueuedMutation, type SyncResource } from '@/lib/stores/syncStore';
+import { clearStoredReads, readThrough } from './readThrough';
+import { getKnownRecord, rememberRecords } from './records';
+
+interface SyncRecord {
+  id: string;
+  updatedAt: string;
+}
+
+type RequestBody = Record<string, unknown>;
+
+/** Server calls for one resource, plus how to stand in for a record created offline */
+export interface OfflineHandlers<T extends SyncRecord, TCreate, TUpdate> {
+  getById: (id: string, options?: RequestOptions) => Promise<T>;
+  create: (data: TCreate, options?: RequestOptions) => Promise<T>;
+  update: (id: string, data: TUpdate, options?: RequestOptions) => Promise<T>;
+  delete: (id: string, options?: RequestOptions) => Promise<void>;
+  createLocal: (id: string, data: TCreate, createdAt: string) => T;
+}
+
+/** A resource's handlers as the replay sees them, taking queued request bodies */
+type AnyHandlers = OfflineHandlers<SyncRecord, RequestBody, RequestBody>;
+
+/** Waiting time before retrying a replay that failed on the network */
+const RETRY_DELAY_MS = 30_000;
+
+const handlers = new Map<SyncResource, AnyHandlers>();
+let replaying: Promise<void> | null = null;
+let inFlightId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+class SyncConflictError extends Error {
+  constructor() {
+    super('Changed on the server since it was edited offline');
+    this.name = 'SyncConflictError';
+  }
+}
+
+const getSyncState = () => useSyncStore.getState();
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isSyncRecord = (value: unknown): value is SyncRecord =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+/** Server id for a record, following records created offline that have since synced */
+const resolveId = (id: string) => getSyncState().resolvedIds[id] ?? id;
+
+const LOCAL_ID_PREFIX = 'local';
+
+/** Ids of records created offline that the server doesn't know yet */
+const isLocalId = (id: string) => id.startsWith(`${LOCAL_ID_PREFIX}-`);
+
+// Queue behind pending mutations so they still reach the server in order
+const shouldQueue = () => {
+  const { isOnline, queue } = getSyncState();
+  return !isOnline || queue.length > 0;
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void syncNow();
+  }, RETRY_DELAY_MS);
+};
+
+const isSameRecord = (a: QueuedMutation, b: QueuedMutation) =>
+  a.resource === b.resource && a.recordId === b.recordId;
+
+/**
+ * Add a mutation to the queue, folding it into an earlier pending mutation
+ * of the same record where possible.
+ */
+function enqueue(mutation: QueuedMutation): void {
+  const { queue, setQueue } = getSyncState();
+  const pending = queue.find(
+    (entry) => entry.id !== inFlightId && isSameRecord(entry, mutation) && entry.method !== 'delete'
+  );
+
+  if (mutation.method === 'update' && pending) {
+    setQueue(
+      queue.map((entry) =>
+        entry === pending ? { ...entry, data: { ...entry.data, ...mutation.data } } : entry
+      )
+    );
+  } else if (mutation.method === 'delete' && pending?.method === 'create') {
+    // The record never reached the server, so there is nothing to delete
+    setQueue(queue.filter((entry) => !isSameRecord(entry, mutation)));
+  } else if (mutation.method === 'delete' && pending) {
+    setQueue([
+      ...queue.filter((entry) => entry.id === inFlightId || !isSameRecord(entry, mutation)),
+      { ...mutation, baseUpdatedAt: pending.baseUpdatedAt ?? mutation.baseUpdatedAt },
+    ]);
+  } else {
+    setQueue([...queue, mutation]);
+  }
+
+  if (getSyncState().isOnline) void syncNow();
+}
+
+/**
+ * Apply queued mutations to a response so reads reflect offline edits.
+ * List params (e.g. { profileId }) decide which offline-created records
+ * belong in the list.
+ */
+function applyPendingMutations<R>(
+  resource: SyncResource,
+  data: R,
+  params: Record<string, string | undefined> = {}
+): R {
+  const queue = getSyncState().queue.filter((entry) => entry.resource === resource);
+  const resourceHandlers = handlers.get(resource);
+  if (queue.length === 0 || !resourceHandlers) return data;
+
+  const apply = (record: SyncRecord): SyncRecord | null =>
+    queue.reduce<SyncRecord | null>((current, entry) => {
+      if (!current || entry.recordId !== current.id) return current;
+      if (entry.method === 'delete') return null;
+      return entry.method === 'update' ? { ...current, ...entry.data } : current;
+    }, record);
+
+  if (!Array.isArray(data)) {
+    return isSyncRecord(data) ? ((apply(data) ?? data) as R) : data;
+  }
+
+  const matchesParams = (record: SyncRecord) => {
+    const fields: RequestBody = { ...record };
+    return Object.entries(params).every(
+      ([name, value]) => value === undefined || fields[name] === value
+    );
+  };
+
+  const created = queue
+    .filter((entry) => entry.method === 'create')
+    .map((entry) =>
+      apply(resourceHandlers.createLocal(entry.recordId, entry.data ?? {}, entry.queuedAt))
+    )
+    .filter((record): record is SyncRecord => record !== null && matchesParams(record));
+  const existing = data
+    .filter(isSyncRecord)
+    .map(apply)
+    .filter((record): record is SyncRecord => record !== null);
+
+  return [...created, ...existing] as R;
+}
+
+// Request bodies can reference records created offline, e.g. a poster's profileId
+const remapIds = (data: RequestBody | undefined): RequestBody =>
+  Object.fromEntries(
+    Object.entries(data ?? {}).map(([name, value]) => [
+      name,
+      typeof value === 'string' ? resolveId(value) : value,
+    ])
+  );
+
+async function assertUnchanged(
+  resourceHandlers: AnyHandlers,
+  id: string,
+  baseUpdatedAt: string | undefined
+): Promise<void> {
+  if (!baseUpdatedAt) return;
+  const current = await resourceHandlers.getById(id);
+  if (Date.parse(current.updatedAt) > Date.parse(baseUpdatedAt)) {
+    throw new SyncConflictError();
+  }
+}
+
+/**
+ * Edits queued while a create or update was being sent are based on the
+ * optimistic record, stamped by the device's clock. Base them on the server's
+ * record instead, whose updatedAt would otherwise read as a conflict.
+ */
+function rebaseOnSent(sent: QueuedMutation, record: SyncRecord): void {
+  const { queue, setQueue } = getSyncState();
+  const recordId = resolveId(sent.recordId);
+  setQueue(
+    queue.map((entry) =>
+      entry.id !== sent.id &&
+      entry.resource === sent.resource &&
+      resolveId(entry.recordId) === recordId &&
+      entry.baseUpdatedAt
+        ? { ...entry, baseUpdatedAt: record.updatedAt }
+        : entry
+    )
+  );
+}
+
+async function replayMutation(mutation: QueuedMutation): Promise<void> {
+  const resourceHandlers = handlers.get(mutation.resource);
+  if (!resourceHandlers) throw new Error(`Cannot sync ${mutation.resource}`);
+
+  const id = resolveId(mutation.recordId);
+  const data = remapIds(mutation.data);
+
+  // The mutation id doubles as an idempotency key, so a replay whose response
+  // was lost can be retried without applying it twice
+  const options = { idempotencyKey: mutation.id };
+
+  switch (mutation.method) {
+    case 'create': {
+      const created = await resourceHandlers.create(data, options);
+      getSyncState().resolveId(mutation.recordId, created.id);
+      rememberRecords(mutation.resource, created);
+      rebaseOnSent(mutation, created);
+      return;
+    }
+    case 'update': {
+      await assertUnchanged(resourceHandlers, id, mutation.baseUpdatedAt);
+      const updated = await resourceHandlers.update(id, data, options);
+      rememberRecords(mutation.resource, updated);
+      rebaseOnSent(mutation, updated);
+      return;
+    }
+    case 'delete':
+      await assertUnchanged(resourceHandlers, id, mutation.baseUpdatedAt);
+      await resourceHandlers.delete(id, options);
+      return;
+  }
+}
+
+async function replayQueue(): Promise<void> {
+  const store = getSyncState();
+  if (!store.isOnline || store.queue.length === 0) return;
+
+  store.setSyncing(true);
+  const touched = new Set<SyncResource>();
+  try {
+    for (let next = getSyncState().queue[0]; next; next = getSyncState().queue[0]) {
+      const mutation: QueuedMutation = next;
+      touched.add(mutation.resource);
+      inFlightId = mutation.id;
+      try {
+        await replayMutation(mutation);
+      } catch (err) {
+        // Still unreachable: keep the queue as it is and try again later
+        if (err instanceof NetworkError) {
+          scheduleRetry();
+          return;
+        }
+        getSyncState().addIssue({
+          mutation,
+          reason: err instanceof SyncConflictError ? 'conflict' : 'failed',
+          message: getErrorMessage(err),
+        });
+      } finally {
+        inFlightId = null;
+      }
+      getSyncState().setQueue(getSyncState().queue.filter((entry) => entry.id !== mutation.id));
+    }
+    getSyncState().markSynced();
+  } finally {
+    getSyncState().setSyncing(false);
+    // Swap optimistic records for the server's copies
+    touched.forEach((resource) => invalidateQueries([resource]));
+  }
+}
+
+/**
+ * Replay the queue now. Concurrent calls share one replay.
+ */
+export function syncNow(): Promise<void> {
+  replaying ??= replayQueue().finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+/**
+ * Send a mutation that failed to sync again. Conflicts are retried without
+ * the conflict check, so the offline edit overwrites the server copy.
+ */
+export function retrySyncIssue(mutationId: string): void {
+  const issue = getSyncState().issues.find((candidate) => candidate.mutation.id === mutationId);
+  if (!issue) return;
+  getSyncState().removeIssue(mutationId);
+  enqueue({ ...issue.mutation, baseUpdatedAt: undefined });
+}
+
+/**
+ * Drop a mutation that failed to sync, keeping the server copy.
+ */
+export function discardSyncIssue(mutationId: string): void {
+  const issue = getSyncState().issues.find((candidate) => candidate.mutation.id === mutationId);
+  if (!issue) return;
+  getSyncState().removeIssue(mutationId);
+  invalidateQueries([issue.mutation.resource]);
+}
+
+/**
+ * Forget all offline data: stored responses and changes not synced yet.
+ * Used on sign-out, since it all belongs to the signed-out user.
+ */
+export async function clearOfflineData(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  getSyncState().clear();
+  await clearStoredReads();
+}
+
+/**
+ * Track connectivity and replay the queue whenever the device comes back
+ * online, including anything left queued by a previous session. Returns a
+ * function that stops tracking.
+ */
+export function startOfflineSync(): () => void {
+  const unsubscribeNetwork = NetInfo.addEventListener((state) => {
+    // null means not determined yet, which shouldn't block requests
+    const isOnline = state.isConnected !== false && state.isInternetReachable !== false;
+    const wasOnline = getSyncState().isOnline;
+    getSyncState().setOnline(isOnline);
+    if (isOnline && !wasOnline) void syncNow();
+  });
+
+  let unsubscribeHydration: (() => void) | undefined;
+  if (useSyncStore.persist.hasHydrated()) {
+    void syncNow();
+  } else {
+    unsubscribeHydration = useSyncStore.persist.onFinishHydration(() => void syncNow());
+  }
+
+  return () => {
+    unsubscribeNetwork();
+    unsubscribeHydration?.();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
+
+/**
+ * Offline-aware API calls for one resource. Reads fall back to the last
+ * response stored on the device; writes are queued while offline and resolve
+ * with an optimistic record.
+ */
+export function createOfflineResource<
+  T extends SyncRecord,
+  TCreate extends object,
+  TUpdate extends object,
+>(resource: SyncResource, resourceHandlers: OfflineHandlers<T, TCreate, TUpdate>) {
+  // Queued bodies were a TCreate or TUpdate when they were queued
+  handlers.set(resource, {
+    getById: resourceHandlers.getById,
+    create: (data, options) => resourceHandlers.create(data as TCreate, options),
+    update: (id, data, options) => resourceHandlers.update(id, data as TUpdate, options),
+    delete: resourceHandlers.delete,
+    createLocal: (id, data, createdAt) =>
+      resourceHandlers.createLocal(id, data as TCreate, createdAt),
+  });
+
+  return {
+    /**
+     * Read through the offline store, with queued mutations applied
+     */
+    async read<R>(
+      url: string,
+      fetch: () => Promise<R>,
+      params?: Record<string, string | undefined>
+    ): Promise<R> {
+      return applyPendingMutations(resource, await readThrough(resource, url, fetch), params);
+    },
+
+    async create(data: TCreate, options?: RequestOptions): Promise<T> {
+      if (!shouldQueue()) {
+        try {
+          return await resourceHandlers.create(data, options);
+        } catch (err) {
+          // A create that timed out may have landed; queueing it could duplicate the record
+          if (!(err instanceof NetworkError) || err instanceof TimeoutError) throw err;
+        }
+      }
+
+      const createdAt = new Date().toISOString();
+      const recordId = createId(LOCAL_ID_PREFIX);
+      enqueue({
+        id: createId('mutation'),
+        resource,
+        method: 'create',
+        recordId,
+        data: { ...data } as RequestBody,
+        queuedAt: createdAt,
+      });
+      const record = resourceHandlers.createLocal(recordId, data, createdAt);
+      rememberRecords(resource, record);
+      return record;
+    },
+
+    async update(id: string, data: TUpdate, options?: RequestOptions): Promise<T> {
+      const recordId = resolveId(id);
+      if (!shouldQueue()) {
+        try {
+          return await resourceHandlers.update(recordId, data, options);
+        } catch (err) {
+          // An edit that timed out may have landed; its replay would then read as a conflict
+          if (!(err instanceof NetworkError) || err instanceof TimeoutError) throw err;
+        }
+      }
+
+      const base = getKnownRecord(resource, recordId) as T | undefined;
+      if (!base) throw new NetworkError('This record is not available offline');
+
+      const updatedAt = new Date().toISOString();
+      enqueue({
+        id: createId('mutation'),
+        resource,
+        method: 'update',
+        recordId,
+        data: { ...data } as RequestBody,
+        baseUpdatedAt: base.updatedAt,
+        queuedAt: updatedAt,
+      });
+      const record: T = { ...base, ...data, updatedAt };
+      rememberRecords(resource, record);
+      return record;
+    },
+
+    async delete(id: string, options?: RequestOptions): Promise<void> {
+      const recordId = resolveId(id);
+      if (!shouldQueue()) {
+        try {
+          await resourceHandlers.delete(recordId, options);
+          return;
+        } catch (err) {
+          // Same for a delete that timed out
+          if (!(err instanceof NetworkError) || err instanceof TimeoutError) throw err;
+        }
+      }
+
+      enqueue({
+        id: createId('mutation'),
+        resource,
+        method: 'delete',
+        recordId,
+        baseUpdatedAt: getKnownRecord(resource, recordId)?.updatedAt,
+        queuedAt: new Date().toISOString(),
+      });
+    },
+
+    /**
+     * A record created offline that hasn't synced yet, with queued edits
+     * applied, or null for a record the server knows. Throws NotFoundError
+     * once the record is gone, e.g. deleted before it synced.
+     */
+    getLocal(id: string): T | null {
+      const recordId = resolveId(id);
+      if (!isLocalId(recordId)) return null;
+
+      const pending = applyPendingMutations<T[]>(resource, []).find(
+        (record) => record.id === recordId
+      );
+      const record = pending ?? (getKnownRecord(resource, recordId) as T | undefined);
+      if (!record) throw new NotFoundError('This record was removed before it synced');
+      return record;
+    },
+
+    resolveId,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Read-through storage for GET requests - every response is stored on the
+ * device and served instead when the backend can't be reached.
+ */
+
+import { NetworkError } from '@/lib/api/errors';
+import { forgetRecords, rememberRecords } from './records';
+import { readJson, removeJsonByPrefix, writeJson } from './storage';
+
+const KEY_PREFIX = 'get:';
+
+/**
+ * Delete every stored response, e.g. when the user signs out.
+ */
+export async function clearStoredReads(): Promise<void> {
+  forgetRecords();
+  await removeJsonByPrefix(KEY_PREFIX);
+}
+
+export async function readThrough<T>(
+  resource: string,
+  url: string,
+  fetch: () => Promise<T>
+): Promise<T> {
+  const key = `${KEY_PREFIX}${url}`;
+  try {
+    const data = await fetch();
+    rememberRecords(resource, data);
+    void writeJson(key, data);
+    return data;
+  } catch (err) {
+    if (!(err instanceof NetworkError)) throw err;
+
+    const saved = await readJson<T>(key);
+    if (saved === null) throw err;
+    rememberRecords(resource, saved);
+    return saved;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Known records - the latest copy of each record seen in a response, so
+ * edits made offline can be applied on top of it.
+ */
+
+interface KnownRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+const knownRecords = new Map<string, Map<string, KnownRecord>>();
+
+const isKnownRecord = (value: unknown): value is KnownRecord =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+/**
+ * Remember every record in a response (a record or a list of records).
+ */
+export function rememberRecords(resource: string, data: unknown): void {
+  let resourceRecords = knownRecords.get(resource);
+  if (!resourceRecords) {
+    resourceRecords = new Map();
+    knownRecords.set(resource, resourceRecords);
+  }
+
+  const items: unknown[] = Array.isArray(data) ? data : [data];
+  for (const item of items) {
+    if (isKnownRecord(item)) resourceRecords.set(item.id, item);
+  }
+}
+
+export function getKnownRecord(resource: string, id: string): KnownRecord | undefined {
+  return knownRecords.get(resource)?.get(id);
+}
+
+export function forgetRecords(): void {
+  knownRecords.clear();
+}
@@ -0,0 +1,40 @@
+/**
+ * Offline storage - JSON values in AsyncStorage (localStorage on web)
+ *
+ * Storage failures are logged and swallowed: a full or unavailable store
+ * should cost offline support, not break online requests.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PREFIX = 'meetmeat:';
+
+export async function readJson<T>(key: string): Promise<T | null> {
+  try {
+    const value = await AsyncStorage.getItem(PREFIX + key);
+    return value === null ? null : (JSON.parse(value) as T);
+  } catch (err) {
+    if (__DEV__) console.warn('[Offline] Failed to read', key, err);
+    return null;
+  }
+}
+
+/**
+ * Remove every stored value whose key starts with `keyPrefix`.
+ */
+export async function removeJsonByPrefix(keyPrefix: string): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(PREFIX + keyPrefix)));
+  } catch (err) {
+    if (__DEV__) console.warn('[Offline] Failed to remove', keyPrefix, err);
+  }
+}
+
+export async function writeJson(key: string, value: unknown): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    if (__DEV__) console.warn('[Offline] Failed to write', key, err);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Template bindings - resolve `{{...}}` placeholders in element properties
+ * against the event, user and colour palette of the poster being rendered.
+ */
+
+import type { Event, SocialLink } from '@/types';
+
+export interface PosterUser {
+  name: string;
+  title: string;
+  company?: string;
+  photoUrl?: string;
+  socialLinks?: SocialLink[];
+}
+
+export interface PosterPalette {
+  primary: string;
+  background: string;
+  text: string;
+}
+
+export type PosterBindings = Record<string, string | undefined>;
+
+const BINDING_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const formatDate = (dateStr?: string): string => {
+  if (!dateStr) return '';
+  const date = new Date(dateStr);
+  if (Number.isNaN(date.getTime())) return dateStr;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * `user.social.<platform>` for each of the user's links (the first one wins when a
+ * platform is listed twice), plus `user.socials` listing the platforms in order.
+ */
+const createSocialBindings = (links: SocialLink[] = []): PosterBindings => {
+  const bindings: PosterBindings = {};
+  for (const link of links) {
+    bindings[`user.social.${link.platform}`] ??= link.url;
+  }
+  bindings['user.socials'] = [...new Set(links.map((link) => link.platform))].join(',');
+  return bindings;
+};
+
+export function createBindings(
+  event: Event | null,
+  user: PosterUser,
+  palette: PosterPalette
+): PosterBindings {
+  return {
+    ...createSocialBindings(user.socialLinks),
+    'event.name': event?.name ?? 'Event Name',
+    'event.date': formatDate(event?.startDate),
+    'event.location': event?.location
+      ? [event.location.city, event.location.country].filter(Boolean).join(', ')
+      : '',
+    'event.organizer': event?.organizerName,
+    'event.logo': event?.logoUrl,
+    'event.heroImage': event?.heroImageUrl,
+    'user.name': user.name,
+    'user.title': user.title,
+    'user.company': user.company,
+    'user.photo': user.photoUrl,
+    'color.primary': palette.primary,
+    'color.background': palette.background,
+    'color.text': palette.text,
+  };
+}
+
+/**
+ * Replace every `{{key}}` in a string. Unknown or empty bindings resolve to ''.
+ */
+export function resolveBindings(value: string, bindings: PosterBindings): string {
+  return value.replace(BINDING_PATTERN, (_, key: string) => bindings[key] ?? '').trim();
+}
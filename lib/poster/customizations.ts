@@ -0,0 +1,76 @@
+/**
+ * Poster customizations - per-poster element overrides stored on
+ * `Poster.customizations`. An override replaces the template element with the
+ * same id; overrides without a matching element are added on top.
+ *
+ * The background colour override is stored the same way, as a shape with a
+ * reserved id that is never drawn as an element.
+ */
+
+import type { TemplateElement, TemplateElementProperties } from '@/types';
+
+export const BACKGROUND_CUSTOMIZATION_ID = 'poster-background';
+
+export function applyCustomizations(
+  elements: TemplateElement[],
+  customizations: TemplateElement[] | undefined
+): TemplateElement[] {
+  const elementOverrides = customizations?.filter(
+    (element) => element.id !== BACKGROUND_CUSTOMIZATION_ID
+  );
+  if (!elementOverrides?.length) return elements;
+
+  const overrides = new Map(elementOverrides.map((element) => [element.id, element]));
+  const merged = elements.map((element) => overrides.get(element.id) ?? element);
+  const baseIds = new Set(elements.map((element) => element.id));
+
+  return [...merged, ...elementOverrides.filter((element) => !baseIds.has(element.id))];
+}
+
+export function getBackgroundOverride(
+  customizations: TemplateElement[] | undefined
+): string | undefined {
+  return customizations?.find((element) => element.id === BACKGROUND_CUSTOMIZATION_ID)
+    ?.properties.fill;
+}
+
+/**
+ * Return new customizations with the background colour set, or removed when
+ * `color` is null so the template's own background shows again.
+ */
+export function setBackgroundOverride(
+  customizations: TemplateElement[],
+  color: string | null
+): TemplateElement[] {
+  const rest = customizations.filter((element) => element.id !== BACKGROUND_CUSTOMIZATION_ID);
+  if (!color) return rest;
+
+  return [
+    ...rest,
+    {
+      id: BACKGROUND_CUSTOMIZATION_ID,
+      type: 'shape',
+      properties: { x: 0, y: 0, width: 100, height: 100, fill: color },
+    },
+  ];
+}
+
+/**
+ * Return new customizations with `properties` merged into the element `id`.
+ * `baseElement` is used the first time an element is customized.
+ */
+export function upsertCustomization(
+  customizations: TemplateElement[],
+  baseElement: TemplateElement,
+  properties: Partial<TemplateElementProperties>
+): TemplateElement[] {
+  const existing = customizations.find((element) => element.id === baseElement.id);
+  const updated: TemplateElement = {
+    ...(existing ?? baseElement),
+    properties: { ...(existing ?? baseElement).properties, ...properties },
+  };
+
+  return existing
+    ? customizations.map((element) => (element.id === baseElement.id ? updated : element))
+    : [...customizations, updated];
+}
@@ -0,0 +1,106 @@
+/**
+ * Default poster arrangement, used when a template has no elements of its own.
+ * Mirrors the original hand-positioned "I'm attending" layout.
+ */
+
+import type { TemplateElement } from '@/types';
+
+export const DEFAULT_ELEMENTS: TemplateElement[] = [
+  {
+    id: 'hero',
+    type: 'image',
+    properties: {
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      content: '{{event.heroImage}}',
+      opacity: 0.15,
+    },
+  },
+  {
+    id: 'logo',
+    type: 'logo',
+    properties: { x: 5, y: 5, width: 40, height: 10, content: '{{event.logo}}' },
+  },
+  {
+    id: 'event-name',
+    type: 'text',
+    properties: {
+      x: 5,
+      y: 18,
+      width: 90,
+      height: 7,
+      content: '{{event.name}}',
+      fontSize: 24,
+      fontWeight: 'bold',
+    },
+  },
+  {
+    id: 'event-date',
+    type: 'text',
+    properties: { x: 5, y: 25, width: 90, height: 4, content: '{{event.date}}', fontSize: 12 },
+  },
+  {
+    id: 'badge',
+    type: 'shape',
+    properties: { x: 5, y: 30, width: 45, height: 6, shape: 'rounded', fill: '{{color.text}}' },
+  },
+  {
+    id: 'badge-text',
+    type: 'text',
+    properties: {
+      x: 8.5,
+      y: 31.5,
+      width: 38,
+      height: 4,
+      content: "I'm attending!",
+      fontSize: 16,
+      fontWeight: 'bold',
+      fill: '{{color.background}}',
+    },
+  },
+  {
+    id: 'photo',
+    type: 'image',
+    properties: {
+      x: 35,
+      y: 37.5,
+      width: 30,
+      height: 25,
+      content: '{{user.photo}}',
+      shape: 'hexagon',
+      fill: '{{color.text}}',
+      stroke: '{{color.text}}',
+      strokeWidth: 3,
+    },
+  },
+  {
+    id: 'user-name',
+    type: 'text',
+    properties: {
+      x: 10,
+      y: 68,
+      width: 80,
+      height: 6,
+      content: '{{user.name}}',
+      fontSize: 20,
+      fontWeight: 'bold',
+    },
+  },
+  {
+    id: 'user-title',
+    type: 'text',
+    properties: { x: 10, y: 74, width: 80, height: 5, content: '{{user.title}}', fontSize: 14 },
+  },
+  {
+    id: 'user-company',
+    type: 'text',
+    properties: { x: 10, y: 79, width: 80, height: 4, content: '{{user.company}}', fontSize: 12 },
+  },
+  {
+    id: 'event-location',
+    type: 'text',
+    properties: { x: 5, y: 92, width: 90, height: 4, content: '{{event.location}}', fontSize: 12 },
+  },
+];
@@ -0,0 +1,48 @@
+/**
+ * Drawing geometry shared by the Skia renderer and the SVG export, so both
+ * produce the same picture from a scene.
+ */
+
+import { QR_QUIET_ZONE } from './qr';
+import type { SceneElement, SceneRect } from './scene';
+
+// Opacity used for image placeholders while a photo is missing or loading
+export const PLACEHOLDER_OPACITY = 0.2;
+export const ROUNDED_CORNER_RADIUS = 6;
+
+// QR codes are drawn as a light square (including the quiet zone) with the
+// dark modules on top
+export const QR_LIGHT_COLOR = '#FFFFFF';
+export const QR_DARK_COLOR = '#000000';
+
+export const getCenteredSquare = ({ x, y, width, height }: SceneRect): SceneRect => {
+  const size = Math.min(width, height);
+  return { x: x + (width - size) / 2, y: y + (height - size) / 2, width: size, height: size };
+};
+
+// Hexagon images are drawn into the square the hexagon is inscribed in
+export const getImageRect = (element: SceneElement): SceneRect =>
+  element.shape === 'hexagon' ? getCenteredSquare(element.rect) : element.rect;
+
+/** Rects of the dark modules of a QR element, inside its centred square */
+export const getQrModuleRects = (element: SceneElement): SceneRect[] => {
+  if (!element.qr) return [];
+  const { size, modules } = element.qr;
+  const card = getCenteredSquare(element.rect);
+  const moduleSize = card.width / (size + QR_QUIET_ZONE * 2);
+
+  return modules.flatMap((dark, index) => {
+    if (!dark) return [];
+    const row = Math.floor(index / size);
+    const col = index % size;
+    return [
+      {
+        x: card.x + (col + QR_QUIET_ZONE) * moduleSize,
+        y: card.y + (row + QR_QUIET_ZONE) * moduleSize,
+        // Overlap neighbours slightly so anti-aliasing doesn't leave hairline gaps
+        width: moduleSize + 0.5,
+        height: moduleSize + 0.5,
+      },
+    ];
+  });
+};
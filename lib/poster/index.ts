@@ -0,0 +1,51 @@
+export { createBindings, resolveBindings } from './bindings';
+export type { PosterUser, PosterPalette, PosterBindings } from './bindings';
+
+export { DEFAULT_ELEMENTS } from './defaultElements';
+export { OPTIONAL_ELEMENTS, SOCIALS_ELEMENT, QR_ELEMENT } from './optionalElements';
+
+export { createQrMatrix, QR_QUIET_ZONE } from './qr';
+export type { QrMatrix } from './qr';
+
+export {
+  getCenteredSquare,
+  getImageRect,
+  getQrModuleRects,
+  PLACEHOLDER_OPACITY,
+  ROUNDED_CORNER_RADIUS,
+  QR_LIGHT_COLOR,
+  QR_DARK_COLOR,
+} from './drawing';
+
+export {
+  applyCustomizations,
+  upsertCustomization,
+  getBackgroundOverride,
+  setBackgroundOverride,
+  BACKGROUND_CUSTOMIZATION_ID,
+} from './customizations';
+
+export {
+  buildScene,
+  createSceneParagraphs,
+  getSceneFontFamilies,
+  getDesignScale,
+  DESIGN_FRAME,
+} from './scene';
+export type { PosterFrame, SceneRect, SceneElement } from './scene';
+
+export { createPosterSvg } from './svg';
+export type { PosterSvgInput } from './svg';
+
+export { resolvePosterStyle, getPalette } from './style';
+export type { PosterContent, PosterStyle } from './style';
+
+export {
+  getPosterAspect,
+  getElementLayout,
+  layoutElements,
+  applyTransform,
+  invertTransform,
+  IDENTITY_TRANSFORM,
+} from './layouts';
+export type { PosterAspect, ElementTransform, ElementLayout } from './layouts';
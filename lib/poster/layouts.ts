@@ -0,0 +1,167 @@
+/**
+ * Aspect-ratio aware layouts.
+ *
+ * Templates are designed for a portrait frame (see DESIGN_FRAME). For other
+ * aspect ratios each element is moved with an affine transform in percentage
+ * space, so layouts reflow instead of stretching:
+ * - portrait: as designed
+ * - square: stacked as designed, the frame just gets shorter
+ * - landscape: the photo moves into a right-hand column, everything else is
+ *   packed into a left-hand text column with the photo's gap closed
+ *
+ * Frames with a safe zone (stories, headers) then have their content fitted
+ * inside it, while full-bleed backgrounds still cover the whole frame.
+ */
+
+import type { PosterFrame } from './scene';
+import type { SafeZone, TemplateElement, TemplateElementProperties } from '@/types';
+
+export type PosterAspect = 'portrait' | 'square' | 'landscape';
+
+export interface ElementTransform {
+  sx: number;
+  sy: number;
+  tx: number;
+  ty: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_TRANSFORM: ElementTransform = { sx: 1, sy: 1, tx: 0, ty: 0 };
+
+// Width/height ratios outside this band are treated as portrait/landscape
+const SQUARE_MIN_RATIO = 0.87;
+const SQUARE_MAX_RATIO = 1.15;
+
+// Landscape columns, in percent of the frame width
+const LANDSCAPE_TEXT_COLUMN = 58;
+const LANDSCAPE_PHOTO_BOX: Box = { x: 60, y: 15, width: 34, height: 70 };
+
+export const getPosterAspect = ({ width, height }: PosterFrame): PosterAspect => {
+  const ratio = width / height;
+  if (ratio > SQUARE_MAX_RATIO) return 'landscape';
+  if (ratio < SQUARE_MIN_RATIO) return 'portrait';
+  return 'square';
+};
+
+const isBackground = ({ properties }: TemplateElement) =>
+  properties.width >= 90 && properties.height >= 90;
+
+const isPhoto = ({ type, properties }: TemplateElement) =>
+  type === 'image' &&
+  (properties.shape === 'hexagon' || properties.content?.includes('user.photo') === true);
+
+/** Transform that maps one box exactly onto another. */
+const boxToBox = (from: Box, to: Box): ElementTransform => {
+  const sx = from.width > 0 ? to.width / from.width : 1;
+  const sy = from.height > 0 ? to.height / from.height : 1;
+  return { sx, sy, tx: to.x - from.x * sx, ty: to.y - from.y * sy };
+};
+
+export type ElementLayout = (element: TemplateElement) => ElementTransform;
+
+const identityLayout: ElementLayout = () => IDENTITY_TRANSFORM;
+
+const getLandscapeLayout = (reference: TemplateElement[]): ElementLayout => {
+  const photo = reference.find(isPhoto);
+  if (!photo) return identityLayout;
+
+  const photoBottom = photo.properties.y + photo.properties.height;
+  const photoTransform = boxToBox(photo.properties, LANDSCAPE_PHOTO_BOX);
+  // Stretch the remaining content back over the full height once the photo gap is closed
+  const sy = 100 / (100 - photo.properties.height);
+  const sx = LANDSCAPE_TEXT_COLUMN / 100;
+  const referenceById = new Map(reference.map((element) => [element.id, element]));
+
+  return (element) => {
+    const anchor = referenceById.get(element.id) ?? element;
+    if (isBackground(anchor)) return IDENTITY_TRANSFORM;
+    if (anchor.id === photo.id) return photoTransform;
+    const shift = anchor.properties.y >= photoBottom ? photo.properties.height : 0;
+    return { sx, sy, tx: 0, ty: -shift * sy };
+  };
+};
+
+const getAspectLayout = (reference: TemplateElement[], aspect: PosterAspect): ElementLayout => {
+  switch (aspect) {
+    case 'landscape':
+      return getLandscapeLayout(reference);
+    case 'square':
+    case 'portrait':
+    default:
+      return identityLayout;
+  }
+};
+
+/** Scale and move a transform's output from the whole frame into the safe zone. */
+const fitToSafeZone = (
+  { sx, sy, tx, ty }: ElementTransform,
+  { top, right, bottom, left }: SafeZone
+): ElementTransform => {
+  const kx = (100 - left - right) / 100;
+  const ky = (100 - top - bottom) / 100;
+  return { sx: sx * kx, sy: sy * ky, tx: left + tx * kx, ty: top + ty * ky };
+};
+
+/**
+ * Layout for an aspect ratio, and a safe zone if the frame has one.
+ * Transforms are derived from the `reference` elements (the template as
+ * designed) so customized elements keep moving consistently when they are
+ * edited in a reflowed preview.
+ */
+export function getElementLayout(
+  reference: TemplateElement[],
+  aspect: PosterAspect,
+  safeZone?: SafeZone
+): ElementLayout {
+  const layout = getAspectLayout(reference, aspect);
+  if (!safeZone) return layout;
+
+  const referenceById = new Map(reference.map((element) => [element.id, element]));
+  return (element) => {
+    const anchor = referenceById.get(element.id) ?? element;
+    return isBackground(anchor) ? layout(element) : fitToSafeZone(layout(element), safeZone);
+  };
+}
+
+export const applyTransform = (
+  properties: TemplateElementProperties,
+  { sx, sy, tx, ty }: ElementTransform
+): TemplateElementProperties => ({
+  ...properties,
+  x: properties.x * sx + tx,
+  y: properties.y * sy + ty,
+  width: properties.width * sx,
+  height: properties.height * sy,
+});
+
+export const invertTransform = ({ sx, sy, tx, ty }: ElementTransform): ElementTransform => ({
+  sx: 1 / sx,
+  sy: 1 / sy,
+  tx: -tx / sx,
+  ty: -ty / sy,
+});
+
+/**
+ * Reflow elements for the given aspect ratio and safe zone.
+ */
+export function layoutElements(
+  elements: TemplateElement[],
+  aspect: PosterAspect,
+  reference: TemplateElement[] = elements,
+  safeZone?: SafeZone
+): TemplateElement[] {
+  const layout = getElementLayout(reference, aspect, safeZone);
+
+  return elements.map((element) => {
+    const transform = layout(element);
+    return transform === IDENTITY_TRANSFORM
+      ? element
+      : { ...element, properties: applyTransform(element.properties, transform) };
+  });
+}
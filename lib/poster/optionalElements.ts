@@ -0,0 +1,28 @@
+/**
+ * Elements the user can add to any poster from the editor. They are saved as
+ * customizations, which is how elements outside the template are stored.
+ */
+
+import type { TemplateElement } from '@/types';
+
+export const SOCIALS_ELEMENT: TemplateElement = {
+  id: 'socials',
+  type: 'socials',
+  properties: { x: 5, y: 84, width: 60, height: 8, fontSize: 9, fill: '{{color.text}}' },
+};
+
+// 17% of the design frame's width, as a square
+export const QR_ELEMENT: TemplateElement = {
+  id: 'qr',
+  type: 'qr',
+  properties: {
+    x: 78,
+    y: 4,
+    width: 17,
+    height: 14.17,
+    content: '{{user.social.linkedin}}',
+    fill: '#1A1A2E',
+  },
+};
+
+export const OPTIONAL_ELEMENTS: TemplateElement[] = [SOCIALS_ELEMENT, QR_ELEMENT];
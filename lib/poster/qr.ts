@@ -0,0 +1,45 @@
+/**
+ * QR codes for `qr` poster elements, generated client-side.
+ */
+
+import qrcode from 'qrcode-generator';
+
+export interface QrMatrix {
+  /** Modules per side */
+  size: number;
+  /** Row-major, true for dark modules */
+  modules: boolean[];
+}
+
+/** Light modules around the code that scanners need to find it; the spec asks for 4 */
+export const QR_QUIET_ZONE = 4;
+
+// Scenes are rebuilt on every edit, so keep recently encoded values around
+const MAX_CACHED = 16;
+const cache = new Map<string, QrMatrix>();
+
+export function createQrMatrix(text: string): QrMatrix {
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  // Medium error correction survives print and screen photos without growing too dense
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+
+  const size = qr.getModuleCount();
+  const modules: boolean[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      modules.push(qr.isDark(row, col));
+    }
+  }
+
+  const matrix = { size, modules };
+  if (cache.size >= MAX_CACHED) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(text, matrix);
+  return matrix;
+}
@@ -0,0 +1,238 @@
+/**
+ * Poster scene - template elements resolved against poster data and laid out
+ * in pixels for a concrete frame. The renderer only ever draws scene elements.
+ */
+
+import type { SkParagraph, SkTypefaceFontProvider } from '@shopify/react-native-skia';
+import { createParagraph, parseFontWeight, resolveFontFamily } from '@/lib/skia';
+import { SOCIAL_PLATFORMS, getSocialHandle } from '@/lib/social';
+import { resolveBindings, type PosterBindings } from './bindings';
+import { getPosterAspect, layoutElements } from './layouts';
+import { createQrMatrix, type QrMatrix } from './qr';
+import type { PosterStyle } from './style';
+import type {
+  ElementShape,
+  SafeZone,
+  SocialPlatform,
+  TemplateElement,
+  TemplateElementType,
+  TextAlignment,
+} from '@/types';
+
+export interface PosterFrame {
+  width: number;
+  height: number;
+  /** Content is kept inside it, see layoutElements */
+  safeZone?: SafeZone;
+}
+
+export interface SceneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneElement {
+  id: string;
+  type: TemplateElementType;
+  rect: SceneRect;
+  text?: string;
+  imageUrl?: string;
+  fill?: string;
+  fontSize: number;
+  fontFamily?: string;
+  fontWeight: number;
+  textAlign: TextAlignment;
+  shape: ElementShape;
+  stroke?: string;
+  strokeWidth: number;
+  opacity: number;
+  /**
+   * Set on the primitives a composite element (`socials`) is drawn with. The
+   * composite itself stays in the scene, undrawn, so it can be selected and moved.
+   */
+  parentId?: string;
+  qr?: QrMatrix;
+}
+
+/** Frame the element percentages and font sizes were designed against. */
+export const DESIGN_FRAME: PosterFrame = { width: 360, height: 432 };
+
+/**
+ * Scale factor for font sizes and stroke widths, relative to DESIGN_FRAME.
+ */
+export const getDesignScale = (frame: PosterFrame): number =>
+  Math.min(frame.width / DESIGN_FRAME.width, frame.height / DESIGN_FRAME.height);
+
+const DEFAULT_FONT_SIZE = 16;
+// Text this large, in design units, is set in the heading family
+const HEADING_FONT_SIZE = 20;
+
+// Social rows, relative to the element's font size
+const SOCIAL_ROW_HEIGHT = 1.8;
+const SOCIAL_BADGE_SIZE = 1.4;
+const SOCIAL_GLYPH_SIZE = 0.6;
+const SOCIAL_BADGE_GAP = 0.5;
+// Line box of a single-line paragraph, used to centre text on a row
+const LINE_HEIGHT = 1.2;
+
+const getSocialPlatforms = (element: TemplateElement, bindings: PosterBindings): SocialPlatform[] =>
+  (element.properties.platforms ??
+    (bindings['user.socials']?.split(',').filter(Boolean) as SocialPlatform[] | undefined) ??
+    []
+  ).filter((platform) => bindings[`user.social.${platform}`]);
+
+/**
+ * Expand a `socials` element into a badge, glyph and handle per link, as many
+ * rows as fit its height.
+ */
+const createSocialRows = (
+  parent: SceneElement,
+  platforms: SocialPlatform[],
+  bindings: PosterBindings
+): SceneElement[] => {
+  const { x, y, width, height } = parent.rect;
+  const rowHeight = parent.fontSize * SOCIAL_ROW_HEIGHT;
+  const badgeSize = parent.fontSize * SOCIAL_BADGE_SIZE;
+  const rowCount = Math.max(1, Math.floor(height / rowHeight));
+  const textOffset = badgeSize + parent.fontSize * SOCIAL_BADGE_GAP;
+
+  return platforms.slice(0, rowCount).flatMap((platform, index) => {
+    const rowY = y + index * rowHeight;
+    const badge = { x, y: rowY + (rowHeight - badgeSize) / 2, width: badgeSize, height: badgeSize };
+    const glyphSize = parent.fontSize * SOCIAL_GLYPH_SIZE;
+    const base = { ...parent, parentId: parent.id, strokeWidth: 0, stroke: undefined };
+
+    return [
+      {
+        ...base,
+        id: `${parent.id}/${platform}/badge`,
+        type: 'shape',
+        shape: 'rounded',
+        rect: badge,
+        fill: parent.fill ?? bindings['color.text'],
+      },
+      {
+        ...base,
+        id: `${parent.id}/${platform}/glyph`,
+        type: 'text',
+        text: SOCIAL_PLATFORMS[platform].glyph,
+        rect: { ...badge, y: badge.y + (badgeSize - glyphSize * LINE_HEIGHT) / 2 },
+        fill: bindings['color.background'],
+        fontSize: glyphSize,
+        fontWeight: 700,
+        textAlign: 'center',
+      },
+      {
+        ...base,
+        id: `${parent.id}/${platform}/handle`,
+        type: 'text',
+        text: getSocialHandle(platform, bindings[`user.social.${platform}`] ?? ''),
+        rect: {
+          x: x + textOffset,
+          y: rowY + (rowHeight - parent.fontSize * LINE_HEIGHT) / 2,
+          width: Math.max(0, width - textOffset),
+          height: rowHeight,
+        },
+        textAlign: 'left',
+      },
+    ];
+  });
+};
+
+export function buildScene(
+  style: Pick<PosterStyle, 'elements' | 'templateElements' | 'fonts'>,
+  bindings: PosterBindings,
+  frame: PosterFrame
+): SceneElement[] {
+  const scale = getDesignScale(frame);
+  const elements = layoutElements(
+    style.elements,
+    getPosterAspect(frame),
+    style.templateElements,
+    frame.safeZone
+  );
+
+  return elements.flatMap((element): SceneElement[] => {
+    const { properties } = element;
+    const content = properties.content ? resolveBindings(properties.content, bindings) : '';
+    const fontSize = properties.fontSize ?? DEFAULT_FONT_SIZE;
+
+    if ((element.type === 'text' || element.type === 'qr') && !content) return [];
+
+    const sceneElement: SceneElement = {
+      id: element.id,
+      type: element.type,
+      rect: {
+        x: (properties.x / 100) * frame.width,
+        y: (properties.y / 100) * frame.height,
+        width: (properties.width / 100) * frame.width,
+        height: (properties.height / 100) * frame.height,
+      },
+      text: element.type === 'text' ? content : undefined,
+      imageUrl:
+        element.type === 'image' || element.type === 'logo' ? content || undefined : undefined,
+      fill: properties.fill ? resolveBindings(properties.fill, bindings) || undefined : undefined,
+      fontSize: fontSize * scale,
+      fontFamily: properties.fontFamily
+        ? resolveFontFamily(properties.fontFamily)
+        : fontSize >= HEADING_FONT_SIZE
+          ? style.fonts.heading
+          : style.fonts.body,
+      fontWeight: parseFontWeight(properties.fontWeight),
+      textAlign: properties.textAlign ?? 'left',
+      shape: properties.shape ?? 'rect',
+      stroke: properties.stroke
+        ? resolveBindings(properties.stroke, bindings) || undefined
+        : undefined,
+      strokeWidth: (properties.strokeWidth ?? 0) * scale,
+      opacity: properties.opacity ?? 1,
+      qr: element.type === 'qr' ? createQrMatrix(content) : undefined,
+    };
+
+    if (element.type === 'socials') {
+      const platforms = getSocialPlatforms(element, bindings);
+      if (platforms.length === 0) return [];
+      return [sceneElement, ...createSocialRows(sceneElement, platforms, bindings)];
+    }
+
+    return [sceneElement];
+  });
+}
+
+/**
+ * Font families the scene's text is set in, to load before laying it out.
+ */
+export const getSceneFontFamilies = (scene: SceneElement[]): string[] => [
+  ...new Set(
+    scene.flatMap((element) => (element.text && element.fontFamily ? [element.fontFamily] : []))
+  ),
+];
+
+/**
+ * Lay out the paragraph for every text element, index-aligned with the scene.
+ * Fonts must be loaded into the provider first, see loadFonts.
+ */
+export function createSceneParagraphs(
+  scene: SceneElement[],
+  textColor: string,
+  fontProvider: SkTypefaceFontProvider
+): (SkParagraph | null)[] {
+  return scene.map((element) =>
+    element.text
+      ? createParagraph(
+          element.text,
+          {
+            fontSize: element.fontSize,
+            color: element.fill ?? textColor,
+            width: element.rect.width,
+            fontFamily: element.fontFamily,
+            fontWeight: element.fontWeight,
+            textAlign: element.textAlign,
+          },
+          fontProvider
+        )
+      : null
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Poster style - the colours and element list a poster is drawn with,
+ * derived from its event and (optional) template design.
+ */
+
+import { Colors } from '@/constants';
+import { FONT_STYLE_FAMILIES, getContrastColor, getGradientColors } from '@/lib/skia';
+import { applyCustomizations, getBackgroundOverride } from './customizations';
+import { DEFAULT_ELEMENTS } from './defaultElements';
+import type { PosterPalette, PosterUser } from './bindings';
+import type { Event, TemplateDesign, TemplateElement, TemplateLayout } from '@/types';
+
+/**
+ * Everything needed to draw a poster, independent of its output size.
+ */
+export interface PosterContent {
+  event: Event | null;
+  user: PosterUser;
+  layout?: TemplateLayout;
+  /** Template design to render. Falls back to the default arrangement when it has no elements. */
+  design?: TemplateDesign;
+  /** Per-poster element overrides, see applyCustomizations */
+  customizations?: TemplateElement[];
+}
+
+export interface PosterStyle {
+  layout: TemplateLayout;
+  primaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  gradientColors: [string, string];
+  /** Families from the event's typography, for elements without their own fontFamily */
+  fonts: { heading: string; body: string };
+  /** Elements to draw, with customizations applied */
+  elements: TemplateElement[];
+  /** The template's own elements, used as the reference for aspect-ratio layouts */
+  templateElements: TemplateElement[];
+}
+
+export function resolvePosterStyle({
+  event,
+  design,
+  layout = 'modern',
+  customizations,
+}: Pick<PosterContent, 'event' | 'design' | 'layout' | 'customizations'>): PosterStyle {
+  const primaryColor = event?.brandColors?.primary ?? Colors.primary;
+  const backgroundColor =
+    getBackgroundOverride(customizations) ?? design?.backgroundColor ?? primaryColor;
+  const resolvedLayout = design?.layout ?? layout;
+  const templateElements = design?.elements.length ? design.elements : DEFAULT_ELEMENTS;
+  const typography = event?.visualStyle?.typography;
+
+  return {
+    layout: resolvedLayout,
+    primaryColor,
+    backgroundColor,
+    textColor: getContrastColor(backgroundColor),
+    gradientColors: getGradientColors(backgroundColor, resolvedLayout),
+    fonts: {
+      heading: FONT_STYLE_FAMILIES[typography?.headingStyle ?? 'sans-serif'],
+      body: FONT_STYLE_FAMILIES[typography?.bodyStyle ?? 'sans-serif'],
+    },
+    elements: applyCustomizations(templateElements, customizations),
+    templateElements,
+  };
+}
+
+export const getPalette = (style: PosterStyle): PosterPalette => ({
+  primary: style.primaryColor,
+  background: style.backgroundColor,
+  text: style.textColor,
+});
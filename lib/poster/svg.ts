@@ -0,0 +1,263 @@
+/**
+ * SVG export - serializes a poster scene for editing in Figma or Illustrator.
+ *
+ * Mirrors PosterScene and PosterElement: text stays as <text> laid out on the
+ * same line breaks as the Skia paragraphs, and images are embedded so the
+ * file is self-contained.
+ */
+
+import type { SkParagraph } from '@shopify/react-native-skia';
+import { createHexagonPath, DEFAULT_FONT_FAMILIES } from '@/lib/skia';
+import {
+  getCenteredSquare,
+  getImageRect,
+  getQrModuleRects,
+  PLACEHOLDER_OPACITY,
+  QR_DARK_COLOR,
+  QR_LIGHT_COLOR,
+  ROUNDED_CORNER_RADIUS,
+} from './drawing';
+import type { SceneElement } from './scene';
+import type { PosterStyle } from './style';
+
+export interface PosterSvgInput {
+  width: number;
+  height: number;
+  style: PosterStyle;
+  scene: SceneElement[];
+  /** Index-aligned with `scene`, used for line breaks */
+  paragraphs: (SkParagraph | null)[];
+  /** Index-aligned with `scene`, data URIs of the loaded images */
+  images: (string | null)[];
+}
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+const num = (value: number) => String(Number(value.toFixed(2)));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const attrs = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(
+      ([name, value]) => ` ${name}="${typeof value === 'number' ? num(value) : escapeXml(value)}"`
+    )
+    .join('');
+
+/** Layer names in design tools come from ids, which must be valid XML names */
+const toSvgId = (id: string) =>
+  id.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^(?=[^A-Za-z_])/, 'e-');
+
+// SVG 1.1 paint doesn't take alpha, which design tools still expect
+const RGBA = /^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/i;
+
+const toPaint = (color: string): { color: string; opacity?: number } => {
+  const rgba = RGBA.exec(color);
+  if (!rgba) return { color };
+  const [, r, g, b, alpha] = rgba;
+  return { color: `rgb(${r}, ${g}, ${b})`, opacity: Number(alpha) };
+};
+
+const getShape = (element: SceneElement, extra: Record<string, string | number | undefined>) => {
+  const { x, y, width, height } = element.rect;
+  switch (element.shape) {
+    case 'hexagon':
+      return `<path${attrs({
+        d: createHexagonPath(x + width / 2, y + height / 2, Math.min(width, height) / 2),
+        ...extra,
+      })}/>`;
+    case 'ellipse':
+      return `<ellipse${attrs({
+        cx: x + width / 2,
+        cy: y + height / 2,
+        rx: width / 2,
+        ry: height / 2,
+        ...extra,
+      })}/>`;
+    case 'rounded':
+      return `<rect${attrs({ x, y, width, height, rx: ROUNDED_CORNER_RADIUS, ...extra })}/>`;
+    case 'rect':
+    default:
+      return `<rect${attrs({ x, y, width, height, ...extra })}/>`;
+  }
+};
+
+const getOutline = (element: SceneElement) =>
+  element.stroke && element.strokeWidth > 0
+    ? getShape(element, {
+        fill: 'none',
+        stroke: toPaint(element.stroke).color,
+        'stroke-opacity': toPaint(element.stroke).opacity,
+        'stroke-width': element.strokeWidth,
+      })
+    : '';
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+/**
+ * Skia's line metrics count UTF-8 bytes, while JS strings index UTF-16 code
+ * units. Maps every byte offset into `text` to its string index.
+ */
+const getStringIndices = (text: string): number[] => {
+  const indices: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const bytes = utf8Length(char.codePointAt(0) ?? 0);
+    for (let byte = 0; byte < bytes; byte++) indices.push(index);
+    index += char.length;
+  }
+  indices.push(index);
+  return indices;
+};
+
+const getText = (element: SceneElement, paragraph: SkParagraph, textColor: string) => {
+  const text = element.text ?? '';
+  const { x, y, width } = element.rect;
+  const anchorX =
+    element.textAlign === 'center' ? x + width / 2 : element.textAlign === 'right' ? x + width : x;
+  const fill = toPaint(element.fill ?? textColor);
+  const indices = getStringIndices(text);
+  const toIndex = (offset: number) => indices[offset] ?? text.length;
+  const lines = paragraph
+    .getLineMetrics()
+    .map(
+      (line) =>
+        `<tspan${attrs({ x: anchorX, y: y + line.baseline })}>${escapeXml(
+          text.slice(toIndex(line.startIndex), toIndex(line.endExcludingWhitespaces))
+        )}</tspan>`
+    );
+
+  return `<text${attrs({
+    id: toSvgId(element.id),
+    'font-family': [...new Set([element.fontFamily, ...DEFAULT_FONT_FAMILIES])]
+      .filter(Boolean)
+      .join(', '),
+    'font-size': element.fontSize,
+    'font-weight': element.fontWeight,
+    'text-anchor': TEXT_ANCHORS[element.textAlign],
+    fill: fill.color,
+    'fill-opacity': fill.opacity,
+    opacity: element.opacity === 1 ? undefined : element.opacity,
+  })} xml:space="preserve">${lines.join('')}</text>`;
+};
+
+const getImage = (element: SceneElement, image: string | null, clipId: string) => {
+  const rect = getImageRect(element);
+  const content = image
+    ? `<image${attrs({
+        ...rect,
+        'xlink:href': image,
+        preserveAspectRatio: element.type === 'logo' ? 'xMidYMid meet' : 'xMidYMid slice',
+      })}/>`
+    : `<rect${attrs({ ...rect, fill: element.fill, opacity: PLACEHOLDER_OPACITY })}/>`;
+
+  return (
+    `<g${attrs({ id: toSvgId(element.id) })}>` +
+    `<clipPath${attrs({ id: clipId })}>${getShape(element, {})}</clipPath>` +
+    `<g${attrs({
+      'clip-path': `url(#${clipId})`,
+      opacity: element.opacity === 1 ? undefined : element.opacity,
+    })}>${content}</g>` +
+    getOutline(element) +
+    '</g>'
+  );
+};
+
+const getQr = (element: SceneElement) => {
+  const path = getQrModuleRects(element)
+    .map(
+      ({ x, y, width, height }) =>
+        `M${num(x)} ${num(y)}h${num(width)}v${num(height)}h${num(-width)}z`
+    )
+    .join('');
+  return (
+    `<g${attrs({ id: toSvgId(element.id), opacity: element.opacity === 1 ? undefined : element.opacity })}>` +
+    `<rect${attrs({ ...getCenteredSquare(element.rect), fill: QR_LIGHT_COLOR })}/>` +
+    `<path${attrs({ d: path, fill: element.fill ?? QR_DARK_COLOR })}/>` +
+    '</g>'
+  );
+};
+
+const getElement = (
+  element: SceneElement,
+  paragraph: SkParagraph | null | undefined,
+  image: string | null | undefined,
+  style: PosterStyle,
+  index: number
+): string => {
+  switch (element.type) {
+    case 'text':
+      return paragraph ? getText(element, paragraph, style.textColor) : '';
+
+    case 'shape': {
+      const fill = element.fill ? toPaint(element.fill) : null;
+      return (
+        `<g${attrs({ id: toSvgId(element.id) })}>` +
+        (fill
+          ? getShape(element, {
+              fill: fill.color,
+              'fill-opacity': fill.opacity,
+              opacity: element.opacity === 1 ? undefined : element.opacity,
+            })
+          : '') +
+        getOutline(element) +
+        '</g>'
+      );
+    }
+
+    case 'image':
+    case 'logo':
+      if (!image && !element.fill) return '';
+      return getImage(element, image ?? null, `clip-${index}`);
+
+    case 'qr':
+      return element.qr ? getQr(element) : '';
+
+    // Composite elements (socials) are drawn through their child primitives
+    default:
+      return '';
+  }
+};
+
+export function createPosterSvg({
+  width,
+  height,
+  style,
+  scene,
+  paragraphs,
+  images,
+}: PosterSvgInput): string {
+  const [from, to] = style.gradientColors.map(toPaint);
+  const background =
+    `<rect${attrs({ id: 'background', width, height, fill: style.backgroundColor })}/>` +
+    `<linearGradient${attrs({
+      id: 'background-gradient',
+      gradientUnits: 'userSpaceOnUse',
+      x1: 0,
+      y1: 0,
+      x2: width,
+      y2: height,
+    })}>` +
+    `<stop${attrs({ offset: 0, 'stop-color': from?.color, 'stop-opacity': from?.opacity })}/>` +
+    `<stop${attrs({ offset: 1, 'stop-color': to?.color, 'stop-opacity': to?.opacity })}/>` +
+    '</linearGradient>' +
+    `<rect${attrs({ width, height, fill: 'url(#background-gradient)' })}/>`;
+
+  const elements = scene.map((element, index) =>
+    getElement(element, paragraphs[index], images[index], style, index)
+  );
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"${attrs({
+      width,
+      height,
+      viewBox: `0 0 ${num(width)} ${num(height)}`,
+    })}>\n` +
+    [background, ...elements].filter(Boolean).join('\n') +
+    '\n</svg>\n'
+  );
+}
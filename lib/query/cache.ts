@@ -0,0 +1,338 @@
+/**
+ * Query cache - shared store for server data, keyed by resource and params.
+ *
+ * Records that carry an id are normalized: each is stored once per resource
+ * and queries hold references to it, so a record written through one query
+ * (or a mutation) shows up in every other query that contains it. Concurrent
+ * fetches of the same key share one request.
+ */
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/** Resource name first, e.g. ['posters', { profileId }] */
+export type QueryKey = readonly [resource: string, params?: QueryParams];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  isFetching: boolean;
+  /** When data was last fetched or written, 0 if never */
+  updatedAt: number;
+  /** Invalidated since it was last fetched */
+  isInvalidated: boolean;
+}
+
+/** Loads a query; the signal fires when the request is superseded or no longer observed */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface IdentifiedRecord {
+  id: string;
+}
+
+type QueryRef =
+  | { kind: 'list'; ids: string[] }
+  | { kind: 'record'; id: string }
+  | { kind: 'value'; value: unknown };
+
+interface QueryEntry {
+  key: QueryKey;
+  ref?: QueryRef;
+  error: Error | null;
+  updatedAt: number;
+  isInvalidated: boolean;
+  /** In-flight request; a newer request replaces it and wins */
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  /** Fetchers of mounted observers, used to refetch after invalidation */
+  observers: Set<QueryFetcher<unknown>>;
+  snapshot?: QueryState<unknown>;
+}
+
+const records = new Map<string, Map<string, IdentifiedRecord>>();
+const queries = new Map<string, QueryEntry>();
+const listeners = new Set<() => void>();
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+const isIdentified = (value: unknown): value is IdentifiedRecord =>
+  typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string';
+
+/**
+ * Stable string form of a key. Undefined params are dropped so
+ * ['posters', { profileId: undefined }] and ['posters'] are the same query.
+ */
+export function hashQueryKey([resource, params = {}]: QueryKey): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([resource, entries]);
+}
+
+/** A key matches a filter with the same resource and all of its params */
+const matchesKey = ([resource, params = {}]: QueryKey, [filterResource, filter = {}]: QueryKey) =>
+  resource === filterResource &&
+  Object.entries(filter).every(([name, value]) => value === undefined || params[name] === value);
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const abortFetch = (entry: QueryEntry) => {
+  entry.controller?.abort();
+  entry.controller = undefined;
+  entry.promise = undefined;
+};
+
+// Snapshots are memoized so subscribers only re-render when their data changes
+const touchResource = (resource: string) => {
+  queries.forEach((entry) => {
+    if (entry.key[0] === resource) entry.snapshot = undefined;
+  });
+};
+
+const getEntry = (key: QueryKey): QueryEntry => {
+  const hash = hashQueryKey(key);
+  let entry = queries.get(hash);
+  if (!entry) {
+    entry = { key, error: null, updatedAt: 0, isInvalidated: false, observers: new Set() };
+    queries.set(hash, entry);
+  }
+  return entry;
+};
+
+const getRecords = (resource: string) => {
+  let resourceRecords = records.get(resource);
+  if (!resourceRecords) {
+    resourceRecords = new Map();
+    records.set(resource, resourceRecords);
+  }
+  return resourceRecords;
+};
+
+const normalize = (resource: string, data: unknown): QueryRef => {
+  const resourceRecords = getRecords(resource);
+  if (Array.isArray(data) && data.every(isIdentified)) {
+    data.forEach((record) => resourceRecords.set(record.id, record));
+    return { kind: 'list', ids: data.map((record) => record.id) };
+  }
+  if (isIdentified(data)) {
+    resourceRecords.set(data.id, data);
+    return { kind: 'record', id: data.id };
+  }
+  return { kind: 'value', value: data };
+};
+
+const denormalize = (resource: string, ref: QueryRef | undefined): unknown => {
+  if (!ref) return undefined;
+  const resourceRecords = records.get(resource);
+  switch (ref.kind) {
+    case 'list':
+      return ref.ids
+        .map((id) => resourceRecords?.get(id))
+        .filter((record): record is IdentifiedRecord => record !== undefined);
+    case 'record':
+      return resourceRecords?.get(ref.id);
+    case 'value':
+      return ref.value;
+  }
+};
+
+const writeEntry = (entry: QueryEntry, data: unknown) => {
+  entry.ref = normalize(entry.key[0], data);
+  entry.error = null;
+  entry.updatedAt = Date.now();
+  entry.isInvalidated = false;
+  touchResource(entry.key[0]);
+};
+
+/**
+ * Current state of a query. The returned object is stable until the query or
+ * one of its records changes.
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  const entry = queries.get(hashQueryKey(key));
+  if (!entry) return EMPTY_STATE;
+
+  entry.snapshot ??= {
+    data: denormalize(entry.key[0], entry.ref),
+    error: entry.error,
+    isFetching: entry.promise !== undefined,
+    updatedAt: entry.updatedAt,
+    isInvalidated: entry.isInvalidated,
+  };
+  return entry.snapshot as QueryState<T>;
+}
+
+/**
+ * Whether a query should be refetched: never fetched, invalidated, or older
+ * than staleTime.
+ */
+export function isQueryStale(key: QueryKey, staleTime: number): boolean {
+  const entry = queries.get(hashQueryKey(key));
+  if (!entry || entry.updatedAt === 0 || entry.isInvalidated) return true;
+  return Date.now() - entry.updatedAt > staleTime;
+}
+
+/**
+ * Fetch a query into the cache. Joins the in-flight request for the same key
+ * unless force is set, in which case the new request supersedes and aborts it.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { force = false }: { force?: boolean } = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  if (entry.promise && !force) return entry.promise as Promise<T>;
+
+  abortFetch(entry);
+  const controller = new AbortController();
+  const promise: Promise<T> = fetcher(controller.signal).then(
+    (data) => {
+      // A superseded request must not overwrite newer data
+      if (entry.promise === promise) {
+        abortFetch(entry);
+        writeEntry(entry, data);
+        notify();
+      }
+      return data;
+    },
+    (err: unknown) => {
+      if (entry.promise === promise) {
+        abortFetch(entry);
+        entry.error = err instanceof Error ? err : new Error(String(err));
+        entry.snapshot = undefined;
+        notify();
+      }
+      throw err;
+    }
+  );
+
+  entry.promise = promise;
+  entry.controller = controller;
+  entry.error = null;
+  entry.snapshot = undefined;
+  notify();
+  return promise;
+}
+
+/**
+ * Register a mounted consumer of a query. Observed queries are refetched
+ * when invalidated. Returns a function that removes the observer; the
+ * in-flight request is aborted once nobody observes the query.
+ */
+export function observeQuery(key: QueryKey, fetcher: QueryFetcher<unknown>): () => void {
+  const entry = getEntry(key);
+  entry.observers.add(fetcher);
+  return () => {
+    entry.observers.delete(fetcher);
+    if (entry.observers.size === 0 && entry.promise) {
+      abortFetch(entry);
+      entry.snapshot = undefined;
+      notify();
+    }
+  };
+}
+
+/**
+ * Write query data directly, e.g. after a mutation. The updater receives the
+ * current data, undefined if the query hasn't loaded.
+ */
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T)
+): void {
+  const entry = getEntry(key);
+  const previous = getQueryState<T>(key).data;
+  const data =
+    typeof updater === 'function' ? (updater as (previous: T | undefined) => T)(previous) : updater;
+  writeEntry(entry, data);
+  notify();
+}
+
+/**
+ * Update every loaded query matching a key filter, e.g. all poster lists.
+ */
+export function updateQueries<T>(
+  filter: QueryKey,
+  updater: (previous: T, key: QueryKey) => T
+): void {
+  queries.forEach((entry) => {
+    if (!matchesKey(entry.key, filter) || !entry.ref) return;
+    writeEntry(entry, updater(getQueryState<T>(entry.key).data as T, entry.key));
+  });
+  notify();
+}
+
+/**
+ * Replace a record everywhere it appears.
+ */
+export function setRecord(resource: string, record: IdentifiedRecord): void {
+  getRecords(resource).set(record.id, record);
+  touchResource(resource);
+  notify();
+}
+
+/**
+ * Remove a record from the cache and from every list that contains it.
+ */
+export function removeRecord(resource: string, id: string): void {
+  records.get(resource)?.delete(id);
+  queries.forEach((entry) => {
+    if (entry.key[0] === resource && entry.ref?.kind === 'list') {
+      entry.ref = { kind: 'list', ids: entry.ref.ids.filter((existing) => existing !== id) };
+    }
+  });
+  touchResource(resource);
+  notify();
+}
+
+/**
+ * Mark queries matching a key filter as stale. Queries with mounted observers
+ * are refetched in the background while they keep showing their current data.
+ */
+export function invalidateQueries(filter: QueryKey): void {
+  queries.forEach((entry) => {
+    if (!matchesKey(entry.key, filter)) return;
+    entry.isInvalidated = true;
+    entry.snapshot = undefined;
+
+    const [fetcher] = entry.observers;
+    if (fetcher) {
+      fetchQuery(entry.key, fetcher, { force: true }).catch(() => undefined);
+    }
+  });
+  notify();
+}
+
+/**
+ * Drop all cached data, e.g. when the signed-in user changes. Queries with
+ * mounted observers are fetched again so they don't stay empty.
+ */
+export function clearQueryCache(): void {
+  records.clear();
+  queries.forEach((entry) => {
+    entry.ref = undefined;
+    entry.error = null;
+    entry.updatedAt = 0;
+    entry.isInvalidated = false;
+    entry.snapshot = undefined;
+    abortFetch(entry);
+  });
+  queries.forEach((entry) => {
+    const [fetcher] = entry.observers;
+    if (fetcher) fetchQuery(entry.key, fetcher).catch(() => undefined);
+  });
+  notify();
+}
+
+export function subscribeToQueries(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,17 @@
+export {
+  hashQueryKey,
+  getQueryState,
+  isQueryStale,
+  fetchQuery,
+  observeQuery,
+  setQueryData,
+  updateQueries,
+  setRecord,
+  removeRecord,
+  invalidateQueries,
+  clearQueryCache,
+  subscribeToQueries,
+} from './cache';
+export type { QueryFetcher, QueryKey, QueryParams, QueryState } from './cache';
+
+export { queryKeys } from './keys';
@@ -0,0 +1,9 @@
+/**
+ * Query keys - one factory per resource so hooks and mutations agree on keys
+ */
+
+export const queryKeys = {
+  profiles: () => ['profiles'] as const,
+  posters: (profileId?: string) => ['posters', { profileId }] as const,
+  templates: (eventId?: string) => ['templates', { eventId }] as const,
+};
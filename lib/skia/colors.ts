@@ -0,0 +1,62 @@
+/**
+ * Color helpers shared by the poster renderer
+ */
+
+import type { TemplateLayout } from '@/types';
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Parse `#RGB` / `#RRGGBB` colors. Returns null for anything else.
+ */
+export const parseHexColor = (color: string): RGB | null => {
+  let hex = color.trim().replace('#', '');
+  if (hex.length === 3) {
+    hex = hex
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) return null;
+
+  return {
+    r: parseInt(hex.substring(0, 2), 16),
+    g: parseInt(hex.substring(2, 4), 16),
+    b: parseInt(hex.substring(4, 6), 16),
+  };
+};
+
+export const getContrastColor = (bgColor: string): string => {
+  const rgb = parseHexColor(bgColor);
+  if (!rgb) return '#FFFFFF';
+  const luminance = (0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b) / 255;
+  return luminance > 0.5 ? '#1A1A2E' : '#FFFFFF';
+};
+
+export const getGradientColors = (baseColor: string, layout: TemplateLayout): [string, string] => {
+  const rgb = parseHexColor(baseColor);
+  if (!rgb) return [baseColor, baseColor];
+  const { r, g, b } = rgb;
+
+  switch (layout) {
+    case 'modern':
+      return [baseColor, `rgba(${r}, ${g}, ${b}, 0.7)`];
+    case 'minimal':
+      return [baseColor, baseColor];
+    case 'bold':
+      return [
+        `rgb(${Math.floor(r * 0.8)}, ${Math.floor(g * 0.8)}, ${Math.floor(b * 0.8)})`,
+        baseColor,
+      ];
+    case 'classic':
+    default:
+      return [
+        baseColor,
+        `rgb(${Math.min(r + 40, 255)}, ${Math.min(g + 40, 255)}, ${Math.min(b + 40, 255)})`,
+      ];
+  }
+};
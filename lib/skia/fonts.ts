@@ -0,0 +1,115 @@
+/**
+ * Font registry - loads poster fonts into one shared TypefaceFontProvider.
+ *
+ * Skia can't see platform fonts through a TypefaceFontProvider, so every
+ * family a poster uses has to be registered here first. The default family
+ * is bundled with the app; the others are fetched on first use.
+ */
+
+import {
+  loadData,
+  Skia,
+  type DataSourceParam,
+  type SkTypefaceFontProvider,
+} from '@shopify/react-native-skia';
+import { Roboto_300Light } from '@expo-google-fonts/roboto/300Light';
+import { Roboto_400Regular } from '@expo-google-fonts/roboto/400Regular';
+import { Roboto_700Bold } from '@expo-google-fonts/roboto/700Bold';
+import { Roboto_900Black } from '@expo-google-fonts/roboto/900Black';
+import type { VisualStyle } from '@/types';
+
+/** Generic style names, as event typography and template elements use them */
+export type FontStyleName = VisualStyle['typography']['headingStyle'];
+
+export const DEFAULT_FONT_FAMILY = 'Roboto';
+
+/** The family each generic style is drawn with */
+export const FONT_STYLE_FAMILIES: Record<FontStyleName, string> = {
+  'sans-serif': DEFAULT_FONT_FAMILY,
+  serif: 'Playfair Display',
+  display: 'Bebas Neue',
+  monospace: 'JetBrains Mono',
+};
+
+interface FontFace {
+  weight: number;
+  source: DataSourceParam;
+}
+
+// Same files as the @expo-google-fonts packages, served from their npm release
+const remoteFace = (pkg: string, version: string, weight: number, file: string): FontFace => ({
+  weight,
+  source: `https://cdn.jsdelivr.net/npm/@expo-google-fonts/${pkg}@${version}/${file}`,
+});
+
+const FONT_FACES: Record<string, FontFace[]> = {
+  [DEFAULT_FONT_FAMILY]: [
+    { weight: 300, source: Roboto_300Light },
+    { weight: 400, source: Roboto_400Regular },
+    { weight: 700, source: Roboto_700Bold },
+    { weight: 900, source: Roboto_900Black },
+  ],
+  'Playfair Display': [
+    remoteFace('playfair-display', '0.4.2', 400, '400Regular/PlayfairDisplay_400Regular.ttf'),
+    remoteFace('playfair-display', '0.4.2', 700, '700Bold/PlayfairDisplay_700Bold.ttf'),
+    remoteFace('playfair-display', '0.4.2', 900, '900Black/PlayfairDisplay_900Black.ttf'),
+  ],
+  'Bebas Neue': [remoteFace('bebas-neue', '0.4.1', 400, '400Regular/BebasNeue_400Regular.ttf')],
+  'JetBrains Mono': [
+    remoteFace('jetbrains-mono', '0.4.1', 400, '400Regular/JetBrainsMono_400Regular.ttf'),
+    remoteFace('jetbrains-mono', '0.4.1', 700, '700Bold/JetBrainsMono_700Bold.ttf'),
+  ],
+};
+
+let fontProvider: SkTypefaceFontProvider | null = null;
+// Face (family and weight) to its loading promise, so each face is fetched once
+const loadedFaces = new Map<string, Promise<void>>();
+
+/**
+ * Map a generic style name to its family; anything else is returned as is.
+ */
+export const resolveFontFamily = (family: string): string =>
+  (FONT_STYLE_FAMILIES as Record<string, string | undefined>)[family.toLowerCase()] ?? family;
+
+export const isKnownFontFamily = (family: string): boolean => family in FONT_FACES;
+
+const loadFace = (
+  provider: SkTypefaceFontProvider,
+  family: string,
+  { weight, source }: FontFace
+): Promise<void> => {
+  const key = `${family} ${weight}`;
+  const existing = loadedFaces.get(key);
+  if (existing) return existing;
+
+  // A face that fails falls back to the default family instead of failing the
+  // render, and is dropped so the next render or export fetches it again
+  const loading = loadData(source, (data) => Skia.Typeface.MakeFreeTypeFaceFromData(data))
+    .then((typeface) => {
+      if (!typeface) throw new Error('Unreadable font data');
+      provider.registerFont(typeface, family);
+    })
+    .catch((err: unknown) => {
+      console.warn(`Failed to load font ${family} ${weight}:`, err);
+      loadedFaces.delete(key);
+    });
+  loadedFaces.set(key, loading);
+  return loading;
+};
+
+/**
+ * Load the given families (and the default one) into the shared provider.
+ * Unknown families are skipped and render in the default family. Never
+ * rejects; Skia must be loaded first.
+ */
+export async function loadFonts(families: string[] = []): Promise<SkTypefaceFontProvider> {
+  fontProvider ??= Skia.TypefaceFontProvider.Make();
+  const provider = fontProvider;
+  const wanted = new Set([DEFAULT_FONT_FAMILY, ...families.filter(isKnownFontFamily)]);
+  await Promise.all(
+    [...wanted].flatMap((family) =>
+      (FONT_FACES[family] ?? []).map((face) => loadFace(provider, family, face))
+    )
+  );
+  return provider;
+}
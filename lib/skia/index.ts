@@ -0,0 +1,12 @@
+export { parseHexColor, getContrastColor, getGradientColors } from './colors';
+export { createHexagonPath } from './shapes';
+export { createParagraph, parseFontWeight, DEFAULT_FONT_FAMILIES } from './paragraph';
+export type { ParagraphOptions } from './paragraph';
+export {
+  loadFonts,
+  resolveFontFamily,
+  isKnownFontFamily,
+  DEFAULT_FONT_FAMILY,
+  FONT_STYLE_FAMILIES,
+} from './fonts';
+export type { FontStyleName } from './fonts';
@@ -0,0 +1,74 @@
+/**
+ * Paragraph builder used for all poster text
+ */
+
+import { Skia, TextAlign, type SkTypefaceFontProvider } from '@shopify/react-native-skia';
+import type { TextAlignment } from '@/types';
+import { DEFAULT_FONT_FAMILY } from './fonts';
+
+export interface ParagraphOptions {
+  fontSize: number;
+  color: string;
+  width: number;
+  fontFamily?: string;
+  fontWeight?: number;
+  textAlign?: TextAlignment;
+}
+
+export const DEFAULT_FONT_FAMILIES = [DEFAULT_FONT_FAMILY, 'sans-serif'];
+
+const TEXT_ALIGN: Record<TextAlignment, TextAlign> = {
+  left: TextAlign.Left,
+  center: TextAlign.Center,
+  right: TextAlign.Right,
+};
+
+const NAMED_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  heavy: 800,
+  black: 900,
+};
+
+/**
+ * Convert CSS-like weights ("bold", "600") to a numeric font weight.
+ */
+export const parseFontWeight = (weight?: string): number => {
+  if (!weight) return 400;
+  const numeric = Number(weight);
+  if (Number.isFinite(numeric) && numeric > 0) return numeric;
+  return NAMED_WEIGHTS[weight.toLowerCase()] ?? 400;
+};
+
+export function createParagraph(
+  text: string,
+  options: ParagraphOptions,
+  fontProvider: SkTypefaceFontProvider
+) {
+  const paragraphStyle = {
+    textAlign: TEXT_ALIGN[options.textAlign ?? 'left'],
+  };
+
+  const textStyle = {
+    color: Skia.Color(options.color),
+    fontSize: options.fontSize,
+    fontFamilies: options.fontFamily
+      ? [options.fontFamily, ...DEFAULT_FONT_FAMILIES]
+      : DEFAULT_FONT_FAMILIES,
+    fontStyle: { weight: options.fontWeight ?? 400 },
+  };
+
+  const builder = Skia.ParagraphBuilder.Make(paragraphStyle, fontProvider);
+  builder.pushStyle(textStyle);
+  builder.addText(text);
+  builder.pop();
+
+  const paragraph = builder.build();
+  paragraph.layout(options.width);
+  return paragraph;
+}
@@ -0,0 +1,17 @@
+/**
+ * SVG path builders for poster shapes
+ */
+
+export const createHexagonPath = (cx: number, cy: number, radius: number): string => {
+  const points: [number, number][] = [];
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i - Math.PI / 2;
+    points.push([cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)]);
+  }
+  const first = points[0];
+  if (!first) return '';
+  return `M ${first[0]} ${first[1]} ${points
+    .slice(1)
+    .map((p) => `L ${p[0]} ${p[1]}`)
+    .join(' ')} Z`;
+};
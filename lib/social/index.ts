@@ -0,0 +1,8 @@
+export {
+  SOCIAL_PLATFORMS,
+  SOCIAL_PLATFORM_ORDER,
+  normalizeSocialLink,
+  normalizeSocialLinks,
+  getSocialHandle,
+} from './links';
+export type { SocialLinkResult } from './links';
@@ -0,0 +1,155 @@
+/**
+ * Social links - per-platform validation and normalization of the links
+ * stored on `Profile.socialLinks`. Users can type a full URL, a URL without
+ * the scheme, or just a handle (`@handle`); everything is stored as a full
+ * https URL.
+ */
+
+import type { SocialLink, SocialPlatform } from '@/types';
+
+interface SocialPlatformConfig {
+  label: string;
+  /** Short mark drawn in the platform badge on posters */
+  glyph: string;
+  placeholder: string;
+  /** Profile URL a bare handle is appended to. Absent for websites. */
+  profileUrl?: string;
+  /** Hosts accepted for full URLs, without `www.` */
+  hosts: string[];
+  handlePattern?: RegExp;
+  /** Whether handles are written with a leading @. Defaults to true. */
+  atHandle?: boolean;
+}
+
+export const SOCIAL_PLATFORMS: Record<SocialPlatform, SocialPlatformConfig> = {
+  linkedin: {
+    label: 'LinkedIn',
+    glyph: 'in',
+    placeholder: 'linkedin.com/in/you or @you',
+    profileUrl: 'https://www.linkedin.com/in/',
+    hosts: ['linkedin.com'],
+    atHandle: false,
+    handlePattern: /^[A-Za-z0-9_-]{3,100}$/,
+  },
+  twitter: {
+    label: 'Twitter/X',
+    glyph: 'X',
+    placeholder: '@you',
+    profileUrl: 'https://x.com/',
+    hosts: ['x.com', 'twitter.com'],
+    handlePattern: /^[A-Za-z0-9_]{1,15}$/,
+  },
+  instagram: {
+    label: 'Instagram',
+    glyph: 'IG',
+    placeholder: '@you',
+    profileUrl: 'https://www.instagram.com/',
+    hosts: ['instagram.com'],
+    handlePattern: /^[A-Za-z0-9._]{1,30}$/,
+  },
+  facebook: {
+    label: 'Facebook',
+    glyph: 'f',
+    placeholder: 'facebook.com/you',
+    profileUrl: 'https://www.facebook.com/',
+    hosts: ['facebook.com', 'fb.com'],
+    atHandle: false,
+    handlePattern: /^[A-Za-z0-9.]{1,50}$/,
+  },
+  github: {
+    label: 'GitHub',
+    glyph: 'GH',
+    placeholder: '@you',
+    profileUrl: 'https://github.com/',
+    hosts: ['github.com'],
+    handlePattern: /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/,
+  },
+  website: {
+    label: 'Website',
+    glyph: 'www',
+    placeholder: 'example.com',
+    hosts: [],
+  },
+};
+
+export const SOCIAL_PLATFORM_ORDER = Object.keys(SOCIAL_PLATFORMS) as SocialPlatform[];
+
+export type SocialLinkResult = { ok: true; url: string } | { ok: false; error: string };
+
+// Split without URL, whose getters aren't implemented on every React Native runtime
+const URL_PATTERN = /^(?:(https?):\/\/)?([^/?#\s]+)([^\s]*)$/i;
+
+const stripSubdomain = (host: string): string => host.replace(/^(?:www|m|mobile)\./, '');
+
+export function normalizeSocialLink(platform: SocialPlatform, input: string): SocialLinkResult {
+  const config = SOCIAL_PLATFORMS[platform];
+  const value = input.trim();
+  if (!value) return { ok: false, error: 'Enter a link' };
+
+  const looksLikeUrl =
+    /^https?:\/\//i.test(value) ||
+    value.includes('/') ||
+    config.hosts.includes(stripSubdomain(value.toLowerCase()));
+
+  if (!looksLikeUrl && config.profileUrl && config.handlePattern) {
+    const handle = value.startsWith('@') ? value.slice(1) : value;
+    return config.handlePattern.test(handle)
+      ? { ok: true, url: `${config.profileUrl}${handle}` }
+      : { ok: false, error: `Not a valid ${config.label} handle` };
+  }
+
+  const match = URL_PATTERN.exec(value);
+  const host = match?.[2]?.toLowerCase();
+  const path = match?.[3] ?? '';
+  if (!host?.includes('.')) {
+    return { ok: false, error: config.profileUrl ? 'Enter a handle or profile URL' : 'Enter a valid URL' };
+  }
+
+  if (config.hosts.length > 0) {
+    if (!config.hosts.includes(stripSubdomain(host))) {
+      return { ok: false, error: `Link must be on ${config.hosts[0]}` };
+    }
+    if (path.replace(/\/+$/, '') === '') {
+      return { ok: false, error: 'Link to your profile, not the home page' };
+    }
+  }
+
+  return { ok: true, url: `https://${host}${path}` };
+}
+
+/**
+ * Normalize a list of links, returning errors keyed by index for any that
+ * don't validate.
+ */
+export function normalizeSocialLinks(links: SocialLink[]): {
+  links: SocialLink[];
+  errors: Record<number, string>;
+} {
+  const errors: Record<number, string> = {};
+  const normalized = links.map((link, index) => {
+    const result = normalizeSocialLink(link.platform, link.url);
+    if (!result.ok) {
+      errors[index] = result.error;
+      return link;
+    }
+    return { ...link, url: result.url };
+  });
+
+  return { links: normalized, errors };
+}
+
+/**
+ * Short display form of a stored link: `@handle` for social platforms,
+ * the bare address for websites.
+ */
+export function getSocialHandle(platform: SocialPlatform, url: string): string {
+  const match = URL_PATTERN.exec(url.trim());
+  const host = stripSubdomain(match?.[2]?.toLowerCase() ?? '');
+  const path = (match?.[3] ?? '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+
+  const config = SOCIAL_PLATFORMS[platform];
+  if (!config.profileUrl) return `${host}${path}`;
+
+  const handle = path.split('/').filter(Boolean).pop() ?? host;
+  return config.atHandle === false ? handle : `@${handle}`;
+}
@@ -0,0 +1,26 @@
+import { create } from 'zustand';
+import type { AuthSession } from '@/types';
+
+/** `restoring` until the stored session has been read on launch */
+export type AuthStatus = 'restoring' | 'signedOut' | 'signedIn';
+
+/**
+ * The signed-in session. Not persisted here: tokens are kept in secure
+ * storage by lib/auth.
+ */
+interface AuthState {
+  status: AuthStatus;
+  session: AuthSession | null;
+
+  setSession: (session: AuthSession | null) => void;
+}
+
+export const useAuthStore = create<AuthState>((set) => ({
+  status: 'restoring',
+  session: null,
+
+  setSession: (session) => set({ session, status: session ? 'signedIn' : 'signedOut' }),
+}));
+
+export const useAuthStatus = () => useAuthStore((state) => state.status);
+export const useAuthUser = () => useAuthStore((state) => state.session?.user ?? null);
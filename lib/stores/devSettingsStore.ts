@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Runtime API overrides from the developer settings screen. Null means the
+ * build's default from API_CONFIG.
+ */
+interface DevSettingsState {
+  baseUrl: string | null;
+  timeout: number | null;
+  /** Answer requests from the in-app mock backend */
+  mock: boolean | null;
+
+  setApiOverrides: (overrides: {
+    baseUrl: string | null;
+    timeout: number | null;
+    mock: boolean | null;
+  }) => void;
+  resetApiOverrides: () => void;
+}
+
+export const useDevSettingsStore = create<DevSettingsState>()(
+  persist(
+    (set) => ({
+      baseUrl: null,
+      timeout: null,
+      mock: null,
+
+      setApiOverrides: ({ baseUrl, timeout, mock }) => set({ baseUrl, timeout, mock }),
+
+      resetApiOverrides: () => set({ baseUrl: null, timeout: null, mock: null }),
+    }),
+    {
+      name: 'meetmeat:dev-settings',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: ({ baseUrl, timeout, mock }) => ({ baseUrl, timeout, mock }),
+    }
+  )
+);
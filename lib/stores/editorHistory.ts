@@ -0,0 +1,149 @@
+/**
+ * Editor history - undoable commands for a poster editing session.
+ *
+ * Each command records the state it replaced and the state it produced, so it
+ * can be reverted and re-applied against the current editor state. Bursts of
+ * the same edit (a drag, typing, tapping a stepper) are coalesced into one
+ * command so a single undo reverts the whole gesture.
+ */
+
+import { setBackgroundOverride } from '@/lib/poster';
+import type { Template, TemplateElement } from '@/types';
+
+/** Maximum number of commands kept in either direction */
+export const MAX_HISTORY = 50;
+
+/** Edits of the same kind closer together than this are merged */
+const COALESCE_WINDOW_MS = 1000;
+
+export interface EditorState {
+  selectedTemplate: Template | null;
+  customizations: TemplateElement[];
+}
+
+export type EditorCommand =
+  | {
+      type: 'element';
+      id: string;
+      /** Customization before the edit, undefined when the element was untouched */
+      before?: TemplateElement;
+      after?: TemplateElement;
+      /** Edited property names, used to decide whether edits can be merged */
+      mergeKey: string;
+      timestamp: number;
+    }
+  | {
+      type: 'color';
+      before?: string;
+      after?: string;
+      timestamp: number;
+    }
+  | {
+      type: 'template';
+      before: EditorState;
+      after: EditorState;
+      timestamp: number;
+    };
+
+export interface EditorHistory {
+  past: EditorCommand[];
+  future: EditorCommand[];
+}
+
+export const EMPTY_HISTORY: EditorHistory = { past: [], future: [] };
+
+const replaceCustomization = (
+  customizations: TemplateElement[],
+  id: string,
+  element: TemplateElement | undefined
+): TemplateElement[] => {
+  if (!element) return customizations.filter((existing) => existing.id !== id);
+  return customizations.some((existing) => existing.id === id)
+    ? customizations.map((existing) => (existing.id === id ? element : existing))
+    : [...customizations, element];
+};
+
+const canMerge = (previous: EditorCommand, next: EditorCommand): boolean => {
+  if (next.timestamp - previous.timestamp > COALESCE_WINDOW_MS) return false;
+  if (previous.type === 'element' && next.type === 'element') {
+    return previous.id === next.id && previous.mergeKey === next.mergeKey;
+  }
+  return previous.type === 'color' && next.type === 'color';
+};
+
+/**
+ * Record a command that has just been applied. Clears the redo stack.
+ */
+export function recordCommand(history: EditorHistory, command: EditorCommand): EditorHistory {
+  const previous = history.past[history.past.length - 1];
+
+  if (previous && canMerge(previous, command)) {
+    const merged = { ...previous, after: command.after, timestamp: command.timestamp } as EditorCommand;
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Apply one side of a command to the editor state: `before` to undo it,
+ * `after` to redo it.
+ */
+export function applyCommand(
+  state: EditorState,
+  command: EditorCommand,
+  side: 'before' | 'after'
+): EditorState {
+  switch (command.type) {
+    case 'element':
+      return {
+        ...state,
+        customizations: replaceCustomization(state.customizations, command.id, command[side]),
+      };
+    case 'color':
+      return {
+        ...state,
+        customizations: setBackgroundOverride(state.customizations, command[side] ?? null),
+      };
+    case 'template':
+      return command[side];
+  }
+}
+
+/**
+ * Move the latest command to the redo stack and return the state before it.
+ */
+export function undo(
+  state: EditorState,
+  history: EditorHistory
+): { state: EditorState; history: EditorHistory } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+
+  return {
+    state: applyCommand(state, command, 'before'),
+    history: {
+      past: history.past.slice(0, -1),
+      future: [command, ...history.future].slice(0, MAX_HISTORY),
+    },
+  };
+}
+
+/**
+ * Re-apply the most recently undone command.
+ */
+export function redo(
+  state: EditorState,
+  history: EditorHistory
+): { state: EditorState; history: EditorHistory } | null {
+  const command = history.future[0];
+  if (!command) return null;
+
+  return {
+    state: applyCommand(state, command, 'after'),
+    history: {
+      past: [...history.past, command],
+      future: history.future.slice(1),
+    },
+  };
+}
@@ -1,5 +1,26 @@
 import { create } from 'zustand';
-import type { Profile, Event, Template } from '@/types';
+import {
+  getBackgroundOverride,
+  setBackgroundOverride,
+  upsertCustomization,
+  type PosterUser,
+} from '@/lib/poster';
+import type { FieldErrors } from '@/lib/api';
+import {
+  EMPTY_HISTORY,
+  recordCommand,
+  redo,
+  undo,
+  type EditorHistory,
+} from './editorHistory';
+import type {
+  Profile,
+  Event,
+  Template,
+  Poster,
+  TemplateElement,
+  TemplateElementProperties,
+} from '@/types';
 
 interface UserDetails {
   name: string;
@@ -14,24 +35,63 @@ interface EventDetails {
   brandColor?: string;
 }
 
+/** Inputs on the event details step that can show a server field error */
+export const EVENT_FORM_FIELDS = ['name', 'date', 'location', 'brandColor'] as const;
+
+/** Server event field paths, mapped to the event details inputs */
+export const EVENT_FIELD_ALIASES: Record<string, string> = {
+  startDate: 'date',
+  'location.city': 'location',
+  brandColors: 'brandColor',
+  'brandColors.primary': 'brandColor',
+};
+
+/** A saved poster with the records it was created from, see loadPoster */
+interface SavedPoster {
+  poster: Poster;
+  event: Event | null;
+  profile: Profile | null;
+  /** Templates available for the poster's event */
+  templates: Template[];
+}
+
 interface PosterCreationState {
   // State
   profile: Profile | null;
   userDetails: UserDetails | null;
   event: Event | null;
   eventDetails: EventDetails | null;
+  /**
+   * Server validation errors keyed by event details input, shown when the
+   * user is sent back to fix them
+   */
+  eventFieldErrors: FieldErrors | null;
   eventUrl: string;
   templates: Template[];
   selectedTemplate: Template | null;
+  customizations: TemplateElement[];
+  poster: Poster | null;
+  /** Undo/redo stacks for the editor, kept across editor and export screens */
+  history: EditorHistory;
 
   // Actions
   setProfile: (profile: Profile | null) => void;
   setUserDetails: (details: UserDetails | null) => void;
   setEvent: (event: Event | null) => void;
   setEventDetails: (details: EventDetails | null) => void;
+  setEventFieldErrors: (errors: FieldErrors | null) => void;
   setEventUrl: (url: string) => void;
-  setTemplates: (templates: Template[]) => void;
+  /** Replace the templates and select one, the first by default */
+  setTemplates: (templates: Template[], selected?: Template) => void;
   setSelectedTemplate: (template: Template | null) => void;
+  updateElement: (element: TemplateElement, properties: Partial<TemplateElementProperties>) => void;
+  resetElement: (id: string) => void;
+  setBackgroundColor: (color: string | null) => void;
+  setCustomizations: (customizations: TemplateElement[]) => void;
+  setPoster: (poster: Poster | null) => void;
+  loadPoster: (saved: SavedPoster) => void;
+  undo: () => void;
+  redo: () => void;
   reset: () => void;
 }
 
@@ -40,20 +100,37 @@ const initialState = {
   userDetails: null,
   event: null,
   eventDetails: null,
+  eventFieldErrors: null,
   eventUrl: '',
   templates: [],
   selectedTemplate: null,
+  customizations: [],
+  poster: null,
+  history: EMPTY_HISTORY,
 };
 
-export const usePosterCreationStore = create<PosterCreationState>((set) => ({
+const toUserDetails = (profile: Profile): UserDetails => ({
+  name: profile.name,
+  title: profile.title,
+  company: profile.company,
+});
+
+const toEventDetails = (event: Event): EventDetails => ({
+  name: event.name,
+  date: event.startDate ? new Date(event.startDate).toLocaleDateString() : undefined,
+  location: event.location
+    ? [event.location.venue, event.location.city, event.location.country].filter(Boolean).join(', ')
+    : undefined,
+  brandColor: event.brandColors?.primary,
+});
+
+export const usePosterCreationStore = create<PosterCreationState>((set, get) => ({
   ...initialState,
 
   setProfile: (profile) =>
     set((state) => ({
       profile,
-      userDetails: profile
-        ? { name: profile.name, title: profile.title, company: profile.company }
-        : state.userDetails,
+      userDetails: profile ? toUserDetails(profile) : state.userDetails,
     })),
 
   setUserDetails: (userDetails) => set({ userDetails }),
@@ -61,29 +138,119 @@ export const usePosterCreationStore = create<PosterCreationState>((set) => ({
   setEvent: (event) =>
     set((state) => ({
       event,
-      eventDetails: event
-        ? {
-            name: event.name,
-            date: event.startDate ? new Date(event.startDate).toLocaleDateString() : undefined,
-            location: event.location
-              ? [event.location.venue, event.location.city, event.location.country].filter(Boolean).join(', ')
-              : undefined,
-            brandColor: event.brandColors?.primary,
-          }
-        : state.eventDetails,
+      eventDetails: event ? toEventDetails(event) : state.eventDetails,
     })),
 
   setEventDetails: (eventDetails) => set({ eventDetails }),
 
+  setEventFieldErrors: (eventFieldErrors) => set({ eventFieldErrors }),
+
   setEventUrl: (eventUrl) => set({ eventUrl }),
 
-  setTemplates: (templates) =>
+  setTemplates: (templates, selected) =>
     set({
       templates,
-      selectedTemplate: templates[0] ?? null,
+      selectedTemplate: selected ?? templates[0] ?? null,
+      customizations: [],
+      history: EMPTY_HISTORY,
+    }),
+
+  // Customizations are keyed by element id, so they don't carry over between templates.
+  // Switching is undoable once a template has been picked.
+  setSelectedTemplate: (selectedTemplate) =>
+    set((state) => {
+      if (state.selectedTemplate?.id === selectedTemplate?.id) return { selectedTemplate };
+      if (!state.selectedTemplate) return { selectedTemplate, customizations: [] };
+
+      const after = { selectedTemplate, customizations: [] };
+      return {
+        ...after,
+        history: recordCommand(state.history, {
+          type: 'template',
+          before: { selectedTemplate: state.selectedTemplate, customizations: state.customizations },
+          after,
+          timestamp: Date.now(),
+        }),
+      };
+    }),
+
+  updateElement: (element, properties) =>
+    set((state) => {
+      const customizations = upsertCustomization(state.customizations, element, properties);
+      return {
+        customizations,
+        history: recordCommand(state.history, {
+          type: 'element',
+          id: element.id,
+          before: state.customizations.find((existing) => existing.id === element.id),
+          after: customizations.find((existing) => existing.id === element.id),
+          mergeKey: Object.keys(properties).sort().join(','),
+          timestamp: Date.now(),
+        }),
+      };
+    }),
+
+  resetElement: (id) =>
+    set((state) => {
+      const before = state.customizations.find((element) => element.id === id);
+      if (!before) return {};
+
+      return {
+        customizations: state.customizations.filter((element) => element.id !== id),
+        history: recordCommand(state.history, {
+          type: 'element',
+          id,
+          before,
+          mergeKey: 'reset',
+          timestamp: Date.now(),
+        }),
+      };
     }),
 
-  setSelectedTemplate: (selectedTemplate) => set({ selectedTemplate }),
+  setBackgroundColor: (color) =>
+    set((state) => ({
+      customizations: setBackgroundOverride(state.customizations, color),
+      history: recordCommand(state.history, {
+        type: 'color',
+        before: getBackgroundOverride(state.customizations),
+        after: color ?? undefined,
+        timestamp: Date.now(),
+      }),
+    })),
+
+  // Replaces the editing session, e.g. when reopening a saved poster
+  setCustomizations: (customizations) => set({ customizations, history: EMPTY_HISTORY }),
+
+  setPoster: (poster) => set({ poster }),
+
+  // Resume editing a saved poster, replacing the current session
+  loadPoster: ({ poster, event, profile, templates }) => {
+    const selectedTemplate = templates.find((template) => template.id === poster.templateId) ?? null;
+    set({
+      ...initialState,
+      profile,
+      userDetails: profile ? toUserDetails(profile) : null,
+      event,
+      eventDetails: event ? toEventDetails(event) : null,
+      // Posters on the default arrangement keep it rather than picking up a template
+      templates: selectedTemplate ? templates : [],
+      selectedTemplate,
+      customizations: poster.customizations,
+      poster,
+    });
+  },
+
+  undo: () => {
+    const { selectedTemplate, customizations, history } = get();
+    const result = undo({ selectedTemplate, customizations }, history);
+    if (result) set({ ...result.state, history: result.history });
+  },
+
+  redo: () => {
+    const { selectedTemplate, customizations, history } = get();
+    const result = redo({ selectedTemplate, customizations }, history);
+    if (result) set({ ...result.state, history: result.history });
+  },
 
   reset: () => set(initialState),
 }));
@@ -95,3 +262,20 @@ export const useEvent = () => usePosterCreationStore((state) => state.event);
 export const useEventDetails = () => usePosterCreationStore((state) => state.eventDetails);
 export const useTemplates = () => usePosterCreationStore((state) => state.templates);
 export const useSelectedTemplate = () => usePosterCreationStore((state) => state.selectedTemplate);
+export const useCustomizations = () => usePosterCreationStore((state) => state.customizations);
+export const useCanUndo = () => usePosterCreationStore((state) => state.history.past.length > 0);
+export const useCanRedo = () => usePosterCreationStore((state) => state.history.future.length > 0);
+
+/**
+ * User info drawn on the poster: manual details win over the selected profile.
+ */
+export const getPosterUser = (
+  userDetails: UserDetails | null,
+  profile: Profile | null
+): PosterUser => ({
+  name: userDetails?.name ?? profile?.name ?? 'Your Name',
+  title: userDetails?.title ?? profile?.title ?? 'Your Title',
+  company: userDetails?.company ?? profile?.company,
+  photoUrl: profile?.avatarUrl,
+  socialLinks: profile?.socialLinks,
+});
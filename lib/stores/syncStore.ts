@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type SyncResource = 'profiles' | 'posters';
+
+export type SyncMethod = 'create' | 'update' | 'delete';
+
+/** A create/update/delete made while offline, waiting to be sent */
+export interface QueuedMutation {
+  id: string;
+  resource: SyncResource;
+  method: SyncMethod;
+  /** Record the mutation applies to; a local id for records created offline */
+  recordId: string;
+  /** Request body for create and update */
+  data?: Record<string, unknown>;
+  /** updatedAt of the server record the edit was based on, for conflict detection */
+  baseUpdatedAt?: string;
+  queuedAt: string;
+}
+
+/** A queued mutation the server refused, kept until the user resolves it */
+export interface SyncIssue {
+  mutation: QueuedMutation;
+  /** conflict: the record changed on the server since it was edited offline */
+  reason: 'conflict' | 'failed';
+  message: string;
+}
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline';
+
+interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  queue: QueuedMutation[];
+  issues: SyncIssue[];
+  /** Local ids of records created offline, mapped to the ids the server assigned */
+  resolvedIds: Record<string, string>;
+  lastSyncedAt: string | null;
+
+  setOnline: (isOnline: boolean) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  setQueue: (queue: QueuedMutation[]) => void;
+  addIssue: (issue: SyncIssue) => void;
+  removeIssue: (mutationId: string) => void;
+  resolveId: (localId: string, serverId: string) => void;
+  markSynced: () => void;
+  /** Drop queued changes and issues, e.g. on sign-out */
+  clear: () => void;
+}
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set) => ({
+      isOnline: true,
+      isSyncing: false,
+      queue: [],
+      issues: [],
+      resolvedIds: {},
+      lastSyncedAt: null,
+
+      setOnline: (isOnline) => set({ isOnline }),
+
+      setSyncing: (isSyncing) => set({ isSyncing }),
+
+      setQueue: (queue) => set({ queue }),
+
+      addIssue: (issue) => set((state) => ({ issues: [...state.issues, issue] })),
+
+      removeIssue: (mutationId) =>
+        set((state) => ({
+          issues: state.issues.filter((issue) => issue.mutation.id !== mutationId),
+        })),
+
+      resolveId: (localId, serverId) =>
+        set((state) => ({ resolvedIds: { ...state.resolvedIds, [localId]: serverId } })),
+
+      markSynced: () => set({ lastSyncedAt: new Date().toISOString() }),
+
+      clear: () => set({ queue: [], issues: [], resolvedIds: {}, lastSyncedAt: null }),
+    }),
+    {
+      name: 'meetmeat:sync',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Connectivity is re-detected on launch
+      partialize: ({ queue, issues, resolvedIds, lastSyncedAt }) => ({
+        queue,
+        issues,
+        resolvedIds,
+        lastSyncedAt,
+      }),
+    }
+  )
+);
+
+export const useSyncStatus = (): SyncStatus =>
+  useSyncStore((state) => {
+    if (!state.isOnline) return 'offline';
+    if (state.isSyncing) return 'syncing';
+    return state.queue.length > 0 ? 'pending' : 'synced';
+  });
+
+export const usePendingCount = () => useSyncStore((state) => state.queue.length);
+export const useSyncIssues = () => useSyncStore((state) => state.issues);
@@ -0,0 +1,37 @@
+/**
+ * Auth types matching backend API
+ */
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  /** When the access token expires, ISO timestamp */
+  expiresAt: string;
+  user: AuthUser;
+}
+
+export interface RequestMagicLinkDto {
+  email: string;
+  /** Deep link the emailed link opens, with `email` and `code` added as query params */
+  redirectUrl: string;
+}
+
+export interface MagicLinkSent {
+  /** Only from the local stand-in, which sends no email: the code the link would carry */
+  devCode?: string;
+}
+
+export interface ExchangeCodeDto {
+  email: string;
+  code: string;
+}
+
+export interface RefreshSessionDto {
+  refreshToken: string;
+}
@@ -18,9 +18,12 @@ export type {
 export type {
   Template,
   TemplateElement,
+  TemplateElementType,
   TemplateDesign,
   TemplateLayout,
   TemplateElementProperties,
+  ElementShape,
+  TextAlignment,
   GenerateTemplatesDto,
 } from './template';
 
@@ -32,6 +35,33 @@ export type {
   PosterStatus,
   ExportPlatform,
   ExportSize,
+  SafeZone,
+  ExportPresetId,
+  ExportPresetGroup,
+  ExportPreset,
+  PrintPaper,
+  PrintSize,
 } from './poster';
 
-export { EXPORT_SIZES } from './poster';
+export type { UploadImageDto, UploadedImage } from './upload';
+
+export type { GenerationStage, GenerationProgress } from './progress';
+
+export type {
+  AuthUser,
+  AuthSession,
+  RequestMagicLinkDto,
+  MagicLinkSent,
+  ExchangeCodeDto,
+  RefreshSessionDto,
+} from './auth';
+
+export {
+  EXPORT_SIZES,
+  EXPORT_PLATFORM_NAMES,
+  EXPORT_PRESETS,
+  EXPORT_PRESET_GROUP_NAMES,
+  PRINT_PAPER_SIZES,
+  PRINT_PAPER_NAMES,
+  DEFAULT_TEMPLATE_ID,
+} from './poster';
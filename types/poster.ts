@@ -8,9 +8,21 @@ export type PosterStatus = 'draft' | 'exported';
 
 export type ExportPlatform = 'linkedin' | 'instagram' | 'twitter' | 'facebook';
 
+/**
+ * Margins kept clear of content, in percent of the frame, e.g. where a
+ * story's UI or a profile photo covers the image. Backgrounds still bleed.
+ */
+export interface SafeZone {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
 export interface ExportSize {
   width: number;
   height: number;
+  safeZone?: SafeZone;
 }
 
 export const EXPORT_SIZES: Record<ExportPlatform, ExportSize> = {
@@ -20,6 +32,127 @@ export const EXPORT_SIZES: Record<ExportPlatform, ExportSize> = {
   facebook: { width: 1200, height: 630 },
 };
 
+export const EXPORT_PLATFORM_NAMES: Record<ExportPlatform, string> = {
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  twitter: 'Twitter/X',
+  facebook: 'Facebook',
+};
+
+export type ExportPresetId =
+  | ExportPlatform
+  | 'story'
+  | 'linkedin_portrait'
+  | 'x_header'
+  | 'email_signature';
+
+export type ExportPresetGroup = 'feed' | 'vertical' | 'banner';
+
+/**
+ * A named export format. Feed presets match a platform one-to-one; the
+ * others are shapes used across platforms or outside them.
+ */
+export interface ExportPreset {
+  id: ExportPresetId;
+  name: string;
+  group: ExportPresetGroup;
+  size: ExportSize;
+  /** Platform the export is posted to; presets without one (e.g. email) aren't recorded */
+  platform?: ExportPlatform;
+}
+
+// Stories: profile bar on top, reply box at the bottom
+const STORY_SAFE_ZONE: SafeZone = { top: 14, right: 6, bottom: 18, left: 6 };
+// X headers: the profile photo covers the bottom left, and apps crop top and bottom
+const X_HEADER_SAFE_ZONE: SafeZone = { top: 10, right: 4, bottom: 10, left: 26 };
+
+export const EXPORT_PRESETS: Record<ExportPresetId, ExportPreset> = {
+  linkedin: {
+    id: 'linkedin',
+    name: 'LinkedIn',
+    group: 'feed',
+    size: EXPORT_SIZES.linkedin,
+    platform: 'linkedin',
+  },
+  instagram: {
+    id: 'instagram',
+    name: 'Instagram',
+    group: 'feed',
+    size: EXPORT_SIZES.instagram,
+    platform: 'instagram',
+  },
+  twitter: {
+    id: 'twitter',
+    name: 'Twitter/X',
+    group: 'feed',
+    size: EXPORT_SIZES.twitter,
+    platform: 'twitter',
+  },
+  facebook: {
+    id: 'facebook',
+    name: 'Facebook',
+    group: 'feed',
+    size: EXPORT_SIZES.facebook,
+    platform: 'facebook',
+  },
+  story: {
+    id: 'story',
+    name: 'Instagram/Facebook Story',
+    group: 'vertical',
+    size: { width: 1080, height: 1920, safeZone: STORY_SAFE_ZONE },
+    platform: 'instagram',
+  },
+  linkedin_portrait: {
+    id: 'linkedin_portrait',
+    name: 'LinkedIn Portrait',
+    group: 'vertical',
+    size: { width: 1080, height: 1350 },
+    platform: 'linkedin',
+  },
+  x_header: {
+    id: 'x_header',
+    name: 'X Header',
+    group: 'banner',
+    size: { width: 1500, height: 500, safeZone: X_HEADER_SAFE_ZONE },
+    platform: 'twitter',
+  },
+  email_signature: {
+    id: 'email_signature',
+    name: 'Email Signature',
+    group: 'banner',
+    size: { width: 600, height: 200 },
+  },
+};
+
+export const EXPORT_PRESET_GROUP_NAMES: Record<ExportPresetGroup, string> = {
+  feed: 'Feed Posts',
+  vertical: 'Stories & Portrait',
+  banner: 'Banners',
+};
+
+export type PrintPaper = 'a4' | 'a3' | 'letter';
+
+/** Trimmed page size, in millimetres */
+export interface PrintSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+export const PRINT_PAPER_SIZES: Record<PrintPaper, PrintSize> = {
+  a4: { widthMm: 210, heightMm: 297 },
+  a3: { widthMm: 297, heightMm: 420 },
+  letter: { widthMm: 215.9, heightMm: 279.4 },
+};
+
+export const PRINT_PAPER_NAMES: Record<PrintPaper, string> = {
+  a4: 'A4',
+  a3: 'A3',
+  letter: 'US Letter',
+};
+
+/** templateId of posters drawn with the built-in arrangement instead of a generated template */
+export const DEFAULT_TEMPLATE_ID = 'default';
+
 export interface Poster {
   id: string;
   profileId: string;
@@ -27,7 +160,8 @@ export interface Poster {
   templateId: string;
   customizations: TemplateElement[];
   status: PosterStatus;
-  exportedUrls: Partial<Record<ExportPlatform, string>>;
+  /** Keyed by preset, so a story export doesn't replace the feed image */
+  exportedUrls: Partial<Record<ExportPresetId, string>>;
   createdAt: string;
   updatedAt: string;
 }
@@ -46,4 +180,6 @@ export interface UpdatePosterDto {
 
 export interface ExportPosterDto {
   platform: ExportPlatform;
+  /** Preset the image was rendered with, when it isn't the platform's feed size */
+  format?: ExportPresetId;
 }
@@ -0,0 +1,17 @@
+/**
+ * Progress reported by the streaming AI endpoints
+ */
+
+export type GenerationStage =
+  | 'fetching_page'
+  | 'extracting_metadata'
+  | 'extracting_colors'
+  | 'generating_templates';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  /** While generating templates: the template being generated, from 1 */
+  current?: number;
+  /** While generating templates: how many will be generated */
+  total?: number;
+}
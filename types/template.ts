@@ -2,8 +2,28 @@
  * Template types matching backend API
  */
 
+import type { SocialPlatform } from './profile';
+
 export type TemplateLayout = 'classic' | 'modern' | 'minimal' | 'bold';
 
+/**
+ * `socials` draws the user's social links as glyph + handle rows and `qr`
+ * draws a QR code of its resolved `content`, usually a social link binding.
+ */
+export type TemplateElementType = 'text' | 'image' | 'shape' | 'logo' | 'socials' | 'qr';
+
+export type ElementShape = 'rect' | 'rounded' | 'ellipse' | 'hexagon';
+
+export type TextAlignment = 'left' | 'center' | 'right';
+
+/**
+ * Element geometry is expressed in percentages (0-100) of the poster frame,
+ * so the same template renders at preview and export sizes.
+ *
+ * `content` and `fill` may reference poster data with `{{...}}` bindings,
+ * e.g. `{{event.name}}`, `{{user.photo}}`, `{{user.social.linkedin}}` or
+ * `{{color.text}}`.
+ */
 export interface TemplateElementProperties {
   x: number;
   y: number;
@@ -14,11 +34,18 @@ export interface TemplateElementProperties {
   fontSize?: number;
   fontFamily?: string;
   fontWeight?: string;
+  textAlign?: TextAlignment;
+  shape?: ElementShape;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+  /** Links shown by a `socials` element, in order. Defaults to all of the user's links. */
+  platforms?: SocialPlatform[];
 }
 
 export interface TemplateElement {
   id: string;
-  type: 'text' | 'image' | 'shape' | 'logo';
+  type: TemplateElementType;
   properties: TemplateElementProperties;
 }
 
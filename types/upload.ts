@@ -0,0 +1,13 @@
+/**
+ * Upload types matching backend API
+ */
+
+export interface UploadImageDto {
+  /** base64 encoded image bytes, without a data URI prefix */
+  data: string;
+  mimeType: string;
+}
+
+export interface UploadedImage {
+  url: string;
+}